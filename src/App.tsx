@@ -7,36 +7,56 @@ import {
   Package, 
   DollarSign, 
   Upload,
+  Wrench,
+  Settings,
   AlertCircle 
 } from 'lucide-react'
 import { EquipmentList } from '@/components/equipment/EquipmentList'
 import { CombinationBuilder } from '@/components/combinations/CombinationBuilder'
 import { InventoryDisplay } from '@/components/inventory/InventoryDisplay.tsx'
+import { InventoryManager } from '@/components/inventory/InventoryManager'
+import { ProcurementManager } from '@/components/inventory/ProcurementManager'
+import { VendorCatalog } from '@/components/inventory/VendorCatalog'
+import { DemandForecastPanel } from '@/components/inventory/DemandForecastPanel'
+import { InventoryPolicies } from '@/components/inventory/InventoryPolicies'
 import { CostCalculator } from '@/components/costs/CostCalculator'
+import { BudgetDashboard } from '@/components/costs/BudgetDashboard'
+import { LifecycleCostCalculator } from '@/components/costs/LifecycleCostCalculator'
+import { ScenarioPlanner } from '@/components/costs/ScenarioPlanner'
+import { WorkOrderManager } from '@/components/maintenance/WorkOrderManager'
+import { MaintenancePlanManager } from '@/components/maintenance/MaintenancePlanManager'
+import { MaintenanceCalendar } from '@/components/maintenance/MaintenanceCalendar'
 import { PDFUploader } from '@/components/pdf/PDFUploader'
+import { ImportWizard } from '@/components/import/ImportWizard'
+import { StorageHealth } from '@/components/settings/StorageHealth'
+import { RateProfileManager } from '@/components/settings/RateProfileManager'
+import { ApproverManager } from '@/components/settings/ApproverManager'
+import { WorkspaceTransfer } from '@/components/settings/WorkspaceTransfer'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { useEquipmentStore } from '@/stores/equipmentStore'
 import { useInventoryStore } from '@/stores/inventoryStore'
+import { useMaintenanceStore } from '@/stores/maintenanceStore'
 
 function App() {
   const equipmentError = useEquipmentStore((state) => state.error)
   const inventoryError = useInventoryStore((state) => state.error)
+  const maintenanceError = useMaintenanceStore((state) => state.error)
 
   return (
     <Layout>
       {/* Error Alerts */}
-      {(equipmentError || inventoryError) && (
+      {(equipmentError || inventoryError || maintenanceError) && (
         <Alert variant="destructive" className="mb-4">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
-            {equipmentError || inventoryError}
+            {equipmentError || inventoryError || maintenanceError}
           </AlertDescription>
         </Alert>
       )}
 
       {/* Main Content */}
       <Tabs defaultValue="equipment" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="equipment" className="flex items-center gap-2">
             <Database className="h-4 w-4" />
             Equipment
@@ -49,6 +69,10 @@ function App() {
             <Package className="h-4 w-4" />
             Inventory
           </TabsTrigger>
+          <TabsTrigger value="maintenance" className="flex items-center gap-2">
+            <Wrench className="h-4 w-4" />
+            Maintenance
+          </TabsTrigger>
           <TabsTrigger value="costs" className="flex items-center gap-2">
             <DollarSign className="h-4 w-4" />
             Costs
@@ -57,6 +81,10 @@ function App() {
             <Upload className="h-4 w-4" />
             Import
           </TabsTrigger>
+          <TabsTrigger value="settings" className="flex items-center gap-2">
+            <Settings className="h-4 w-4" />
+            Settings
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="equipment">
@@ -68,15 +96,47 @@ function App() {
         </TabsContent>
 
         <TabsContent value="inventory">
-          <InventoryDisplay />
+          <div className="space-y-6">
+            <InventoryDisplay />
+            <InventoryManager />
+            <DemandForecastPanel />
+            <InventoryPolicies />
+            <ProcurementManager />
+            <VendorCatalog />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="maintenance">
+          <div className="space-y-6">
+            <MaintenanceCalendar />
+            <WorkOrderManager />
+            <MaintenancePlanManager />
+          </div>
         </TabsContent>
 
         <TabsContent value="costs">
-          <CostCalculator />
+          <div className="space-y-6">
+            <BudgetDashboard />
+            <CostCalculator />
+            <ScenarioPlanner />
+            <LifecycleCostCalculator />
+          </div>
         </TabsContent>
 
         <TabsContent value="import">
-          <PDFUploader />
+          <div className="space-y-6">
+            <ImportWizard />
+            <PDFUploader />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="settings">
+          <div className="space-y-6">
+            <RateProfileManager />
+            <ApproverManager />
+            <WorkspaceTransfer />
+            <StorageHealth />
+          </div>
         </TabsContent>
       </Tabs>
     </Layout>
@@ -2,7 +2,8 @@ import { useState } from 'react'
 import { useEquipmentStore } from '@/stores/equipmentStore'
 import { CombinationCard } from './CombinationCard'
 import { Plus, Trash2, Save } from 'lucide-react'
-import type { Equipment, EquipmentCombination } from '@/types/equipment'
+import type { Equipment, EquipmentCombination, OperatingTempo } from '@/types/equipment'
+import { DEFAULT_OPERATING_TEMPO } from '@/utils/tempo'
 
 export function CombinationBuilder() {
   const equipment = useEquipmentStore(state => state.equipment)
@@ -12,6 +13,7 @@ export function CombinationBuilder() {
   }>>([])
   const [combinationName, setCombinationName] = useState('')
   const [combinationDescription, setCombinationDescription] = useState('')
+  const [tempo, setTempo] = useState<OperatingTempo>(DEFAULT_OPERATING_TEMPO)
 
   const addEquipmentToCombination = (equipmentId: string) => {
     const equipmentItem = equipment.find(e => e.id === equipmentId)
@@ -74,6 +76,7 @@ export function CombinationBuilder() {
       totalCost: calculateTotalCost(),
       personnelRequired: calculatePersonnelRequired(),
       consumablesRequired: calculateConsumables(),
+      tempo,
       created: new Date().toISOString(),
       usageCount: 0
     }
@@ -110,6 +113,29 @@ export function CombinationBuilder() {
             />
           </div>
 
+          <div className="grid grid-cols-3 gap-4">
+            {([
+              ['usesPerDay', 'Uses per Day'],
+              ['hoursPerDay', 'Hours per Day'],
+              ['sortiesPerWeek', 'Sorties per Week']
+            ] as const).map(([field, label]) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700">{label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={tempo[field]}
+                  onChange={(e) => setTempo(prev => ({
+                    ...prev,
+                    [field]: Math.max(0, parseFloat(e.target.value) || 0)
+                  }))}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700">Add Equipment</label>
             <div className="flex gap-2">
@@ -0,0 +1,361 @@
+import { useMemo, useState } from 'react'
+import { AlertCircle, AlertTriangle, CheckCircle, Pencil, Plus, Trash2, Wallet } from 'lucide-react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import type { BudgetCategory, BudgetHealth, FiscalYearBudget } from '@/types/budget'
+import { useEquipmentStore } from '@/stores/equipmentStore'
+import { useInventoryStore } from '@/stores/inventoryStore'
+import { useMaintenanceStore } from '@/stores/maintenanceStore'
+import { useSettingsStore, useBudgets } from '@/stores/settingsStore'
+import {
+  BUDGET_CATEGORIES,
+  FISCAL_YEAR_START_MONTH,
+  findBudget,
+  getBudgetStatus,
+  getFiscalYear
+} from '@/utils/budget'
+import { calculateTotalPersonnelCost } from '@/utils/helpers'
+import { formatCurrency } from '@/utils/formatters'
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500'
+
+const MONTH_NAMES = Array.from({ length: 12 }, (_, month) =>
+  new Date(2000, month, 1).toLocaleString('default', { month: 'long' })
+)
+
+const HEALTH_STYLES: Record<BudgetHealth, { label: string; className: string }> = {
+  'on-track': { label: 'On track', className: 'bg-green-100 text-green-800' },
+  'at-risk': { label: 'At risk', className: 'bg-yellow-100 text-yellow-800' },
+  'over-run': { label: 'Over-run', className: 'bg-red-100 text-red-800' }
+}
+
+const CATEGORY_KEYS = Object.keys(BUDGET_CATEGORIES) as BudgetCategory[]
+
+// Allocations are edited as strings so a field can be cleared while typing
+const emptyDraft = () => ({
+  id: '',
+  fiscalYear: getFiscalYear(new Date()).toString(),
+  startMonth: FISCAL_YEAR_START_MONTH,
+  allocations: { acquisition: '', operations: '', personnel: '', consumables: '' } as Record<BudgetCategory, string>,
+  notes: '',
+  created: ''
+})
+
+type BudgetDraft = ReturnType<typeof emptyDraft>
+
+const toDraft = (budget: FiscalYearBudget): BudgetDraft => ({
+  ...budget,
+  fiscalYear: budget.fiscalYear.toString(),
+  allocations: Object.fromEntries(
+    CATEGORY_KEYS.map(category => [category, budget.allocations[category].toString()])
+  ) as Record<BudgetCategory, string>
+})
+
+export function BudgetDashboard() {
+  const equipment = useEquipmentStore(state => state.equipment)
+  const transactions = useInventoryStore(state => state.transactions)
+  const procurementNeeds = useInventoryStore(state => state.procurementNeeds)
+  const workOrders = useMaintenanceStore(state => state.workOrders)
+  const budgets = useBudgets()
+  const addBudget = useSettingsStore(state => state.addBudget)
+  const updateBudget = useSettingsStore(state => state.updateBudget)
+  const removeBudget = useSettingsStore(state => state.removeBudget)
+  const getRateProfile = useSettingsStore(state => state.getRateProfile)
+  const error = useSettingsStore(state => state.error)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<BudgetDraft | null>(null)
+
+  const sortedBudgets = [...budgets].sort((a, b) => b.fiscalYear - a.fiscalYear)
+  const budget = budgets.find(b => b.id === selectedId) || findBudget(budgets) || sortedBudgets[0]
+  const personnelCostPerMonth = calculateTotalPersonnelCost(equipment, getRateProfile())
+
+  const status = useMemo(() => budget && getBudgetStatus(budget, {
+    procurementNeeds,
+    transactions,
+    workOrders,
+    personnelCostPerMonth
+  }), [budget, procurementNeeds, transactions, workOrders, personnelCostPerMonth])
+
+  const chartData = status?.months.map(point => ({
+    month: new Date(point.date).toLocaleString('default', { month: 'short', year: '2-digit' }),
+    planned: Math.round(point.planned),
+    expended: point.expended === undefined ? undefined : Math.round(point.expended),
+    forecast: point.forecast === undefined ? undefined : Math.round(point.forecast)
+  }))
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft) return
+
+    const now = new Date().toISOString()
+    const saved: FiscalYearBudget = {
+      id: draft.id || crypto.randomUUID(),
+      fiscalYear: parseInt(draft.fiscalYear),
+      startMonth: draft.startMonth,
+      allocations: Object.fromEntries(
+        CATEGORY_KEYS.map(category => [category, parseFloat(draft.allocations[category]) || 0])
+      ) as Record<BudgetCategory, number>,
+      notes: draft.notes,
+      created: draft.created || now,
+      updated: now
+    }
+
+    if (draft.id) {
+      updateBudget(saved)
+    } else {
+      addBudget(saved)
+    }
+    if (!useSettingsStore.getState().error) {
+      setDraft(null)
+      setSelectedId(saved.id)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Budget</h3>
+          <p className="text-sm text-gray-500">
+            Planned, obligated and expended funds by fiscal year, with a year-end forecast at the current burn rate
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          {budget && (
+            <select
+              value={budget.id}
+              onChange={(e) => setSelectedId(e.target.value)}
+              className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              {sortedBudgets.map(b => (
+                <option key={b.id} value={b.id}>FY{b.fiscalYear}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => setDraft(draft ? null : emptyDraft())}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Plus className="w-5 h-5 mr-2" />
+            New Budget
+          </button>
+        </div>
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSubmit} className="p-6 border-b border-gray-200 space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Fiscal Year</label>
+              <input
+                type="number"
+                min="1900"
+                value={draft.fiscalYear}
+                onChange={(e) => setDraft({ ...draft, fiscalYear: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Starts In</label>
+              <select
+                value={draft.startMonth}
+                onChange={(e) => setDraft({ ...draft, startMonth: parseInt(e.target.value) })}
+                className={inputClass}
+              >
+                {MONTH_NAMES.map((name, month) => (
+                  <option key={name} value={month}>{name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Notes</label>
+              <input
+                type="text"
+                value={draft.notes}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {CATEGORY_KEYS.map(category => (
+              <div key={category}>
+                <label className="block text-sm font-medium text-gray-700" title={BUDGET_CATEGORIES[category].description}>
+                  {BUDGET_CATEGORIES[category].label}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={draft.allocations[category]}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    allocations: { ...draft.allocations, [category]: e.target.value }
+                  })}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mr-2" />
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Save Budget
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="p-6 space-y-6">
+        {!budget || !status ? (
+          <div className="text-center text-gray-500">
+            <Wallet className="mx-auto h-12 w-12 text-gray-400" />
+            <p className="mt-2 text-sm">No budgets yet; add one to track spending against it</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex justify-between items-center text-sm text-gray-500">
+              <span>
+                FY{budget.fiscalYear}: {new Date(status.start).toLocaleDateString()} to{' '}
+                {new Date(new Date(status.end).getTime() - 1).toLocaleDateString()}
+                {' '}({Math.round((status.elapsedDays / status.totalDays) * 100)}% elapsed)
+                {budget.notes && ` · ${budget.notes}`}
+              </span>
+              <span className="flex items-center space-x-2">
+                <button
+                  onClick={() => setDraft(toDraft(budget))}
+                  className="text-gray-400 hover:text-blue-600"
+                  title="Edit budget"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    removeBudget(budget.id)
+                    setSelectedId(null)
+                  }}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Delete budget"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </span>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Planned', value: status.total.planned },
+                { label: 'Obligated', value: status.total.obligated },
+                { label: 'Expended', value: status.total.expended },
+                { label: 'Available', value: status.total.available }
+              ].map(({ label, value }) => (
+                <div key={label} className="rounded-md bg-gray-50 p-4">
+                  <p className="text-sm text-gray-500">{label}</p>
+                  <p className={`text-xl font-bold ${value < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {formatCurrency(Math.round(value))}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {status.warnings.length > 0 ? (
+              <div className="space-y-2">
+                {status.warnings.map(warning => (
+                  <div key={warning} className="flex items-center text-sm text-yellow-800">
+                    <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                    {warning}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex items-center text-sm text-green-700">
+                <CheckCircle className="w-4 h-4 mr-2" />
+                Every category is forecast to finish the year within its budget
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Category', 'Planned', 'Obligated', 'Expended', 'Available', 'Burn / Month', 'Year-end Forecast', 'Status'].map(heading => (
+                      <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {[...status.categories, { category: null, ...status.total }].map(line => (
+                    <tr key={line.category || 'total'} className={line.category ? '' : 'font-medium'}>
+                      <td
+                        className="px-6 py-3 whitespace-nowrap text-sm text-gray-900"
+                        title={line.category ? BUDGET_CATEGORIES[line.category].description : undefined}
+                      >
+                        {line.category ? BUDGET_CATEGORIES[line.category].label : 'Total'}
+                      </td>
+                      {[line.planned, line.obligated, line.expended, line.available].map((value, index) => (
+                        <td key={index} className={`px-6 py-3 whitespace-nowrap text-sm ${value < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                          {formatCurrency(Math.round(value))}
+                        </td>
+                      ))}
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {formatCurrency(Math.round((line.burnRate * status.totalDays) / 12))}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {formatCurrency(Math.round(line.forecast))}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap">
+                        <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${HEALTH_STYLES[line.health].className}`}>
+                          {HEALTH_STYLES[line.health].label}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" />
+                  <YAxis />
+                  <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                  <Legend />
+                  <Line type="monotone" dataKey="planned" name="Planned" stroke="#6B7280" strokeDasharray="5 5" dot={false} />
+                  <Line type="monotone" dataKey="expended" name="Expended" stroke="#3B82F6" strokeWidth={2} />
+                  <Line type="monotone" dataKey="forecast" name="Forecast" stroke="#EF4444" strokeDasharray="3 3" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <p className="text-xs text-gray-500">
+              Personnel is accrued from the crew the fleet requires at {getRateProfile().name} rates. O&M counts work
+              order labor; parts are already paid for when consumables are purchased. Procurement is approved, which
+              obligates its cost, from the Inventory tab.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,12 @@
 import { ArrowDown, ArrowUp } from 'lucide-react'
 
-interface CostProjection {
-  month: string
-  equipmentCosts: number
+export interface CostProjection {
+  month: string  // Label for the month, quarter or year
+  depreciationCosts: number
   operationalCosts: number
   maintenanceCosts: number
   personnelCosts: number
+  consumablesCosts: number
   total: number
 }
 
@@ -15,20 +16,22 @@ interface CostBreakdownProps {
 
 export function CostBreakdown({ projections }: CostBreakdownProps) {
   const totalCosts = {
-    equipment: projections.reduce((acc, proj) => acc + proj.equipmentCosts, 0),
+    depreciation: projections.reduce((acc, proj) => acc + proj.depreciationCosts, 0),
     operational: projections.reduce((acc, proj) => acc + proj.operationalCosts, 0),
     maintenance: projections.reduce((acc, proj) => acc + proj.maintenanceCosts, 0),
     personnel: projections.reduce((acc, proj) => acc + proj.personnelCosts, 0),
+    consumables: projections.reduce((acc, proj) => acc + proj.consumablesCosts, 0),
   }
 
   const grandTotal = Object.values(totalCosts).reduce((acc, val) => acc + val, 0)
 
-  const calculatePercentage = (value: number) => ((value / grandTotal) * 100).toFixed(1)
+  const calculatePercentage = (value: number) => (grandTotal ? (value / grandTotal) * 100 : 0).toFixed(1)
 
   const calculateTrend = (costType: keyof typeof totalCosts) => {
     if (projections.length < 2) return 0
     const firstMonth = projections[0][`${costType}Costs`]
     const lastMonth = projections[projections.length - 1][`${costType}Costs`]
+    if (firstMonth === 0) return 0
     return ((lastMonth - firstMonth) / firstMonth) * 100
   }
 
@@ -79,9 +82,9 @@ export function CostBreakdown({ projections }: CostBreakdownProps) {
 
       <div className="px-6 py-4">
         <CostRow 
-          title="Equipment Costs"
-          amount={totalCosts.equipment}
-          trend={calculateTrend('equipment')}
+          title="Depreciation"
+          amount={totalCosts.depreciation}
+          trend={calculateTrend('depreciation')}
         />
         <CostRow
           title="Operational Costs"
@@ -98,6 +101,11 @@ export function CostBreakdown({ projections }: CostBreakdownProps) {
           amount={totalCosts.personnel}
           trend={calculateTrend('personnel')}
         />
+        <CostRow
+          title="Consumables Costs"
+          amount={totalCosts.consumables}
+          trend={calculateTrend('consumables')}
+        />
 
         <div className="mt-4 pt-4 border-t-2 border-gray-200">
           <div className="flex justify-between items-center">
@@ -112,7 +120,7 @@ export function CostBreakdown({ projections }: CostBreakdownProps) {
 
       <div className="px-6 py-4 bg-gray-50 rounded-b-lg">
         <div className="text-sm text-gray-500">
-          <p>* Projections are based on current equipment data and historical trends</p>
+          <p>* Projections cost the current fleet from each item's current wear, with inflation compounded monthly</p>
           <p>* Personnel costs include standard rates for required staff</p>
         </div>
       </div>
@@ -1,59 +1,88 @@
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { useEquipmentStore } from '@/stores/equipmentStore'
-import { CostBreakdown } from './CostBreakdown'
+import { useInventoryStore } from '@/stores/inventoryStore'
+import { useSettingsStore, useRateProfiles } from '@/stores/settingsStore'
+import { CostCalculatorService } from '@/services/costCalculator'
+import type { EscalatedCost, InflationRates } from '@/types/scenarios'
+import { DEFAULT_LIFECYCLE_OPTIONS } from '@/utils/depreciation'
+import { CostBreakdown, type CostProjection } from './CostBreakdown'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
-import { Calculator, DollarSign, TrendingUp, Clock, FileText } from 'lucide-react'
+import { Calculator, DollarSign, TrendingUp, Clock, FileText, AlertTriangle } from 'lucide-react'
 
-interface CostProjection {
-  month: string
-  equipmentCosts: number
-  operationalCosts: number
-  maintenanceCosts: number
-  personnelCosts: number
-  total: number
-}
+const costCalculator = CostCalculatorService.getInstance()
+
+const HORIZONS = [12, 24, 36, 60]
+
+const ESCALATED_COSTS: { key: EscalatedCost; label: string }[] = [
+  { key: 'operational', label: 'Operational' },
+  { key: 'maintenance', label: 'Maintenance' },
+  { key: 'personnel', label: 'Personnel' },
+  { key: 'consumables', label: 'Consumables' }
+]
+
+const toMonthInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
 
 export function CostCalculator() {
   const equipment = useEquipmentStore(state => state.equipment)
+  const consumables = useInventoryStore(state => state.consumables)
+  const rateProfiles = useRateProfiles()
+  const activeRateProfileId = useSettingsStore(state => state.activeRateProfileId)
+  const getRateProfile = useSettingsStore(state => state.getRateProfile)
+  const [rateProfileId, setRateProfileId] = useState(activeRateProfileId)
+  const rates = getRateProfile(rateProfileId)
   const [timeframe, setTimeframe] = useState<'monthly' | 'quarterly' | 'yearly'>('monthly')
+  const [startMonth, setStartMonth] = useState(() => toMonthInput(new Date()))
+  const [horizon, setHorizon] = useState(12)
+  const [inflation, setInflation] = useState<InflationRates>({})
   const [includeOperational, setIncludeOperational] = useState(true)
   const [includeMaintenance, setIncludeMaintenance] = useState(true)
   const [includePersonnel, setIncludePersonnel] = useState(true)
 
-  // Generate sample projection data
-  const generateProjections = (months: number): CostProjection[] => {
-    const projections: CostProjection[] = []
-    const baseEquipmentCost = equipment.reduce((acc, eq) => acc + eq.acquisitionCost, 0)
-    const baseOperationalCost = baseEquipmentCost * 0.1 // 10% of equipment cost
-    const baseMaintenanceCost = baseEquipmentCost * 0.05 // 5% of equipment cost
-    const basePersonnelCost = equipment.reduce((acc, eq) => acc + (eq.personnelRequired * 5000), 0) // $5000 per person per month
-
-    for (let i = 0; i < months; i++) {
-      const date = new Date()
-      date.setMonth(date.getMonth() + i)
-      
-      const monthName = date.toLocaleString('default', { month: 'short', year: '2-digit' })
-      const equipmentCosts = baseEquipmentCost / 12 // Spread across the year
-      const operationalCosts = includeOperational ? baseOperationalCost : 0
-      const maintenanceCosts = includeMaintenance ? baseMaintenanceCost * (1 + i * 0.02) : 0 // Increasing maintenance costs
-      const personnelCosts = includePersonnel ? basePersonnelCost : 0
-      
-      projections.push({
-        month: monthName,
-        equipmentCosts,
-        operationalCosts,
-        maintenanceCosts,
-        personnelCosts,
-        total: equipmentCosts + operationalCosts + maintenanceCosts + personnelCosts
-      })
-    }
+  const projected = useMemo(() => {
+    const [year, month] = startMonth.split('-').map(Number)
+    const start = year && month ? new Date(year, month - 1, 1) : new Date()
+    return costCalculator.projectCosts(
+      equipment,
+      horizon,
+      rates,
+      consumables,
+      DEFAULT_LIFECYCLE_OPTIONS,
+      { inflation },
+      start
+    )
+  }, [equipment, horizon, rates, consumables, inflation, startMonth])
 
-    return projections
-  }
+  // Each period is labelled by its first month
+  const periodLength = timeframe === 'monthly' ? 1 : timeframe === 'quarterly' ? 3 : 12
+  const periods = timeframe === 'monthly' ? projected.monthly : timeframe === 'quarterly' ? projected.quarterly : projected.annual
+  const projections: CostProjection[] = periods.map((costs, index) => {
+    const date = new Date(projected.projections[index * periodLength].date)
+    const operationalCosts = includeOperational ? costs.operational : 0
+    const maintenanceCosts = includeMaintenance ? costs.maintenance : 0
+    const personnelCosts = includePersonnel ? costs.personnel : 0
 
-  const projections = generateProjections(timeframe === 'monthly' ? 12 : timeframe === 'quarterly' ? 4 : 1)
+    return {
+      month: timeframe === 'yearly'
+        ? date.toLocaleString('default', { month: 'short', year: 'numeric' })
+        : date.toLocaleString('default', { month: 'short', year: '2-digit' }),
+      depreciationCosts: costs.depreciation,
+      operationalCosts,
+      maintenanceCosts,
+      personnelCosts,
+      consumablesCosts: costs.consumables,
+      total: costs.depreciation + operationalCosts + maintenanceCosts + personnelCosts + costs.consumables
+    }
+  })
   const totalCost = projections.reduce((acc, proj) => acc + proj.total, 0)
 
+  // Consumable references that could not be priced from the catalog
+  const unresolvedConsumables = equipment.flatMap(eq =>
+    (costCalculator.calculateEquipmentCosts(eq, rates, consumables).details?.consumablesBreakdown || [])
+      .filter(line => !line.resolved)
+      .map(line => ({ equipment: eq.name, id: line.id }))
+  )
+
   return (
     <div className="space-y-6">
       {/* Summary Cards */}
@@ -62,7 +91,7 @@ export function CostCalculator() {
           <div className="flex items-center">
             <DollarSign className="h-10 w-10 text-blue-600" />
             <div className="ml-4">
-              <h3 className="text-lg font-medium text-gray-900">Total Projected Cost</h3>
+              <h3 className="text-lg font-medium text-gray-900">Total Projected Cost ({horizon} mo)</h3>
               <p className="text-3xl font-bold text-gray-900">
                 ${totalCost.toLocaleString(undefined, { maximumFractionDigits: 0 })}
               </p>
@@ -104,19 +133,72 @@ export function CostCalculator() {
         </div>
       </div>
 
+      {unresolvedConsumables.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex">
+          <AlertTriangle className="h-5 w-5 text-yellow-600 flex-shrink-0" />
+          <div className="ml-3">
+            <h3 className="text-sm font-medium text-yellow-800">
+              {unresolvedConsumables.length} consumable reference(s) not found in inventory
+            </h3>
+            <p className="mt-1 text-sm text-yellow-700">
+              These are excluded from cost totals:{' '}
+              {unresolvedConsumables.map(u => `${u.equipment} → ${u.id}`).join(', ')}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Controls */}
       <div className="bg-white rounded-lg shadow p-6">
         <div className="flex flex-wrap gap-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700">Timeframe</label>
+            <label className="block text-sm font-medium text-gray-700">Start</label>
+            <input
+              type="month"
+              value={startMonth}
+              onChange={(e) => setStartMonth(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Horizon</label>
+            <select
+              value={horizon}
+              onChange={(e) => setHorizon(parseInt(e.target.value))}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              {HORIZONS.map(months => (
+                <option key={months} value={months}>{months} months</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Group By</label>
             <select
               value={timeframe}
               onChange={(e) => setTimeframe(e.target.value as any)}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
             >
-              <option value="monthly">Monthly</option>
-              <option value="quarterly">Quarterly</option>
-              <option value="yearly">Yearly</option>
+              <option value="monthly">Month</option>
+              <option value="quarterly">Quarter</option>
+              <option value="yearly">Year</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Rate Profile</label>
+            <select
+              value={rates.id}
+              onChange={(e) => setRateProfileId(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              {rateProfiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
             </select>
           </div>
 
@@ -152,6 +234,25 @@ export function CostCalculator() {
             </label>
           </div>
         </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+          {ESCALATED_COSTS.map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-sm font-medium text-gray-700">{label} Inflation (%/yr)</label>
+              <input
+                type="number"
+                step="any"
+                value={inflation[key] !== undefined ? +(inflation[key]! * 100).toFixed(4) : ''}
+                placeholder="0"
+                onChange={(e) => setInflation({
+                  ...inflation,
+                  [key]: e.target.value === '' ? undefined : (parseFloat(e.target.value) || 0) / 100
+                })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          ))}
+        </div>
       </div>
 
       {/* Cost Chart */}
@@ -165,7 +266,7 @@ export function CostCalculator() {
               <YAxis />
               <Tooltip />
               <Legend />
-              <Line type="monotone" dataKey="equipmentCosts" name="Equipment" stroke="#3B82F6" />
+              <Line type="monotone" dataKey="depreciationCosts" name="Depreciation" stroke="#3B82F6" />
               {includeOperational && (
                 <Line type="monotone" dataKey="operationalCosts" name="Operational" stroke="#10B981" />
               )}
@@ -175,6 +276,7 @@ export function CostCalculator() {
               {includePersonnel && (
                 <Line type="monotone" dataKey="personnelCosts" name="Personnel" stroke="#8B5CF6" />
               )}
+              <Line type="monotone" dataKey="consumablesCosts" name="Consumables" stroke="#EC4899" />
               <Line type="monotone" dataKey="total" name="Total" stroke="#EF4444" strokeWidth={2} />
             </LineChart>
           </ResponsiveContainer>
@@ -0,0 +1,190 @@
+import { useMemo, useState } from 'react'
+import { TrendingDown } from 'lucide-react'
+import type { DepreciationMethod, LifecycleCost, LifecycleOptions } from '@/types/lifecycle'
+import { useEquipmentStore } from '@/stores/equipmentStore'
+import { useInventoryStore } from '@/stores/inventoryStore'
+import { useSettingsStore } from '@/stores/settingsStore'
+import { CostCalculatorService } from '@/services/costCalculator'
+import { DEFAULT_LIFECYCLE_OPTIONS, DEPRECIATION_METHODS } from '@/utils/depreciation'
+import { formatCurrency } from '@/utils/formatters'
+
+const costCalculator = CostCalculatorService.getInstance()
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500'
+
+// Percentages are edited as whole numbers and stored as fractions
+const PERCENT_FIELDS: { key: 'discountRate' | 'salvageRate' | 'disposalRate'; label: string }[] = [
+  { key: 'discountRate', label: 'Discount Rate (%/yr)' },
+  { key: 'salvageRate', label: 'Salvage (% of cost)' },
+  { key: 'disposalRate', label: 'Disposal (% of cost)' }
+]
+
+export function LifecycleCostCalculator() {
+  const equipment = useEquipmentStore(state => state.equipment)
+  const combinations = useEquipmentStore(state => state.combinations)
+  const consumables = useInventoryStore(state => state.consumables)
+  const activeRateProfileId = useSettingsStore(state => state.activeRateProfileId)
+  const getRateProfile = useSettingsStore(state => state.getRateProfile)
+  const rates = getRateProfile(activeRateProfileId)
+  const [subject, setSubject] = useState(equipment[0] ? `equipment:${equipment[0].id}` : '')
+  const [options, setOptions] = useState<LifecycleOptions>(DEFAULT_LIFECYCLE_OPTIONS)
+
+  const lifecycle = useMemo((): LifecycleCost | null => {
+    const [kind, id] = subject.split(':')
+    if (kind === 'equipment') {
+      const item = equipment.find(e => e.id === id)
+      return item ? costCalculator.calculateLifecycleCost(item, rates, consumables, options) : null
+    }
+    const combination = combinations.find(c => c.id === id)
+    if (!combination) return null
+    try {
+      return costCalculator.calculateCombinationLifecycleCost(combination, equipment, rates, consumables, options)
+    } catch {
+      return null  // A member has been removed from the library
+    }
+  }, [subject, equipment, combinations, consumables, rates, options])
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900">Lifecycle Cost</h3>
+        <p className="text-sm text-gray-500">
+          Total cost of owning one unit or one set from acquisition to disposal ({rates.name})
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-gray-700">Equipment or Combination</label>
+            <select value={subject} onChange={(e) => setSubject(e.target.value)} className={inputClass}>
+              <option value="">Select...</option>
+              <optgroup label="Equipment">
+                {equipment.map(item => (
+                  <option key={item.id} value={`equipment:${item.id}`}>{item.name}</option>
+                ))}
+              </optgroup>
+              <optgroup label="Combinations">
+                {combinations.map(combination => (
+                  <option key={combination.id} value={`combination:${combination.id}`}>{combination.name}</option>
+                ))}
+              </optgroup>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Service Life (years)</label>
+            <input
+              type="number"
+              min="1"
+              max="40"
+              value={options.serviceLifeYears}
+              onChange={(e) => setOptions({ ...options, serviceLifeYears: Math.max(1, parseInt(e.target.value) || 1) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Depreciation</label>
+            <select
+              value={options.depreciationMethod}
+              onChange={(e) => setOptions({ ...options, depreciationMethod: e.target.value as DepreciationMethod })}
+              className={inputClass}
+              title={DEPRECIATION_METHODS[options.depreciationMethod].description}
+            >
+              {Object.entries(DEPRECIATION_METHODS).map(([method, { label }]) => (
+                <option key={method} value={method}>{label}</option>
+              ))}
+            </select>
+          </div>
+          {PERCENT_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <label className="block text-sm font-medium text-gray-700">{label}</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={+(options[key] * 100).toFixed(4)}
+                onChange={(e) => setOptions({ ...options, [key]: (parseFloat(e.target.value) || 0) / 100 })}
+                className={inputClass}
+              />
+            </div>
+          ))}
+          {options.depreciationMethod === 'declining-balance' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Balance Factor</label>
+              <input
+                type="number"
+                min="1"
+                step="0.5"
+                value={options.decliningBalanceFactor}
+                onChange={(e) => setOptions({ ...options, decliningBalanceFactor: parseFloat(e.target.value) || 1 })}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+
+        {!lifecycle ? (
+          <div className="text-center text-gray-500 py-4">
+            <TrendingDown className="mx-auto h-8 w-8 text-gray-400" />
+            <p className="mt-2 text-sm">Select equipment or a combination to see its lifecycle cost</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Acquisition', value: lifecycle.acquisition },
+                { label: 'Total Cost of Ownership', value: lifecycle.totalCost },
+                { label: `Net Present Value at ${(options.discountRate * 100).toFixed(1)}%`, value: lifecycle.netPresentValue },
+                { label: 'Salvage less Disposal', value: lifecycle.salvageValue - lifecycle.disposalCost }
+              ].map(({ label, value }) => (
+                <div key={label} className="rounded-md bg-gray-50 p-4">
+                  <p className="text-sm text-gray-500">{label}</p>
+                  <p className="text-xl font-bold text-gray-900">{formatCurrency(Math.round(value))}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Year', 'Operations', 'Maintenance', 'Consumables', 'Personnel', 'Depreciation', 'Book Value', 'Cash Flow', 'Present Value'].map(heading => (
+                      <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {lifecycle.years.map(year => (
+                    <tr key={year.year}>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{year.year}</td>
+                      {[
+                        year.operational,
+                        year.maintenance,
+                        year.consumables,
+                        year.personnel,
+                        year.depreciation,
+                        year.bookValue,
+                        year.cashFlow,
+                        year.presentValue
+                      ].map((value, index) => (
+                        <td key={index} className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                          {formatCurrency(Math.round(value))}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-500">
+              Depreciation is a non-cash charge and is not part of the cash flow; the final year's cash flow
+              includes disposal cost less salvage value.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
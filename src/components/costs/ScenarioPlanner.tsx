@@ -0,0 +1,509 @@
+import { useMemo, useState } from 'react'
+import { AlertCircle, GitCompare, Pencil, Plus, Trash2 } from 'lucide-react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import type { CostBreakdown } from '@/types/reports'
+import type { CostScenario, DeploymentPeriod } from '@/types/scenarios'
+import { useEquipmentStore } from '@/stores/equipmentStore'
+import { useInventoryStore } from '@/stores/inventoryStore'
+import { useSettingsStore, useRateProfiles, useScenarios } from '@/stores/settingsStore'
+import { CostCalculatorService } from '@/services/costCalculator'
+import { DEFAULT_OPERATING_TEMPO } from '@/utils/tempo'
+import { formatCurrency } from '@/utils/formatters'
+
+const costCalculator = CostCalculatorService.getInstance()
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500'
+const rowInputClass = 'rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500'
+
+const HORIZONS = [12, 24, 36, 60]
+const LINE_COLORS = ['#6B7280', '#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EF4444']
+
+const CATEGORIES: { key: keyof Omit<CostBreakdown, 'details'>; label: string }[] = [
+  { key: 'acquisition', label: 'Acquisition' },
+  { key: 'depreciation', label: 'Depreciation' },
+  { key: 'operational', label: 'Operational' },
+  { key: 'maintenance', label: 'Maintenance' },
+  { key: 'personnel', label: 'Personnel' },
+  { key: 'consumables', label: 'Consumables' },
+  { key: 'total', label: 'Total' }
+]
+
+// Form state keeps numbers as strings so optional overrides can be left blank
+const emptyDraft = (rateProfileId: string) => ({
+  id: '',
+  name: '',
+  description: '',
+  rateProfileId,
+  personnelCostPerMonth: '',
+  overrideTempo: false,
+  tempo: DEFAULT_OPERATING_TEMPO,
+  inflationPercent: '0',
+  fleet: [] as CostScenario['fleet'],
+  deployments: [] as DeploymentPeriod[],
+  created: ''
+})
+
+type ScenarioDraft = ReturnType<typeof emptyDraft>
+
+const toDraft = (scenario: CostScenario): ScenarioDraft => ({
+  ...scenario,
+  personnelCostPerMonth: scenario.personnelCostPerMonth?.toString() ?? '',
+  overrideTempo: !!scenario.tempo,
+  tempo: scenario.tempo || DEFAULT_OPERATING_TEMPO,
+  inflationPercent: (scenario.inflationRate * 100).toString()
+})
+
+const formatDelta = (delta: number, base: number) => {
+  const sign = delta > 0 ? '+' : delta < 0 ? '-' : ''
+  const percent = base !== 0 ? ` (${sign}${Math.abs((delta / base) * 100).toFixed(1)}%)` : ''
+  return `${sign}${formatCurrency(Math.round(Math.abs(delta)))}${percent}`
+}
+
+export function ScenarioPlanner() {
+  const equipment = useEquipmentStore(state => state.equipment)
+  const consumables = useInventoryStore(state => state.consumables)
+  const rateProfiles = useRateProfiles()
+  const scenarios = useScenarios()
+  const activeRateProfileId = useSettingsStore(state => state.activeRateProfileId)
+  const getRateProfile = useSettingsStore(state => state.getRateProfile)
+  const addScenario = useSettingsStore(state => state.addScenario)
+  const updateScenario = useSettingsStore(state => state.updateScenario)
+  const removeScenario = useSettingsStore(state => state.removeScenario)
+  const error = useSettingsStore(state => state.error)
+  const [draft, setDraft] = useState<ScenarioDraft | null>(null)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [months, setMonths] = useState(24)
+
+  // The current fleet at the active rates, with no overrides, is what every scenario is measured against
+  const baseline: CostScenario = useMemo(() => ({
+    id: 'baseline',
+    name: 'Current plan',
+    description: '',
+    rateProfileId: activeRateProfileId,
+    fleet: [],
+    inflationRate: 0,
+    deployments: [],
+    created: '',
+    updated: ''
+  }), [activeRateProfileId])
+
+  const runs = useMemo(() =>
+    [baseline, ...scenarios.filter(s => compareIds.includes(s.id))].map(scenario => ({
+      scenario,
+      projection: costCalculator.projectScenario(
+        scenario,
+        equipment,
+        getRateProfile(scenario.rateProfileId),
+        months,
+        consumables
+      )
+    })),
+    [baseline, scenarios, compareIds, equipment, consumables, months, getRateProfile]
+  )
+
+  const chartData = runs[0].projection.projections.map((month, index) => ({
+    month: new Date(month.date).toLocaleString('default', { month: 'short', year: '2-digit' }),
+    ...Object.fromEntries(runs.map(run => [run.scenario.id, Math.round(run.projection.monthly[index].total)]))
+  }))
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(ids => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft) return
+
+    const now = new Date().toISOString()
+    const scenario: CostScenario = {
+      id: draft.id || crypto.randomUUID(),
+      name: draft.name,
+      description: draft.description,
+      rateProfileId: draft.rateProfileId,
+      personnelCostPerMonth: draft.personnelCostPerMonth.trim() === '' ? undefined : parseFloat(draft.personnelCostPerMonth),
+      tempo: draft.overrideTempo ? draft.tempo : undefined,
+      fleet: draft.fleet,
+      inflationRate: (parseFloat(draft.inflationPercent) || 0) / 100,
+      deployments: draft.deployments,
+      created: draft.created || now,
+      updated: now
+    }
+
+    if (draft.id) {
+      updateScenario(scenario)
+    } else {
+      addScenario(scenario)
+    }
+    if (!useSettingsStore.getState().error) {
+      setDraft(null)
+      setCompareIds(ids => (ids.includes(scenario.id) ? ids : [...ids, scenario.id]))
+    }
+  }
+
+  const updateFleet = (index: number, updates: Partial<CostScenario['fleet'][number]>) => {
+    setDraft(prev => prev && ({
+      ...prev,
+      fleet: prev.fleet.map((entry, i) => (i === index ? { ...entry, ...updates } : entry))
+    }))
+  }
+
+  const updateDeployment = (index: number, updates: Partial<DeploymentPeriod>) => {
+    setDraft(prev => prev && ({
+      ...prev,
+      deployments: prev.deployments.map((period, i) => (i === index ? { ...period, ...updates } : period))
+    }))
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Scenario Planning</h3>
+          <p className="text-sm text-gray-500">
+            Compare what-if changes to tempo, rates, fleet size, inflation and deployments against the current plan
+          </p>
+        </div>
+        <button
+          onClick={() => setDraft(draft ? null : emptyDraft(activeRateProfileId))}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="w-5 h-5 mr-2" />
+          New Scenario
+        </button>
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSubmit} className="p-6 border-b border-gray-200 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Surge for exercise season"
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Description</label>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Rate Profile</label>
+              <select
+                value={draft.rateProfileId}
+                onChange={(e) => setDraft({ ...draft, rateProfileId: e.target.value })}
+                className={inputClass}
+              >
+                {rateProfiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Personnel Cost / Month</label>
+              <input
+                type="number"
+                min="0"
+                value={draft.personnelCostPerMonth}
+                onChange={(e) => setDraft({ ...draft, personnelCostPerMonth: e.target.value })}
+                placeholder={`${getRateProfile(draft.rateProfileId).personnelCostPerMonth} (profile)`}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Inflation (%/yr)</label>
+              <input
+                type="number"
+                step="any"
+                value={draft.inflationPercent}
+                onChange={(e) => setDraft({ ...draft, inflationPercent: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={draft.overrideTempo}
+                onChange={(e) => setDraft({ ...draft, overrideTempo: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+              <span className="ml-2 text-sm text-gray-700">Override every item's operating tempo</span>
+            </label>
+            {draft.overrideTempo && (
+              <div className="grid grid-cols-3 gap-4">
+                {([
+                  ['usesPerDay', 'Uses / Day'],
+                  ['hoursPerDay', 'Hours / Day'],
+                  ['sortiesPerWeek', 'Sorties / Week']
+                ] as const).map(([field, label]) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700">{label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={draft.tempo[field]}
+                      onChange={(e) => setDraft({ ...draft, tempo: { ...draft.tempo, [field]: parseFloat(e.target.value) || 0 } })}
+                      className={inputClass}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="block text-sm font-medium text-gray-700">Fleet Size</label>
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, fleet: [...draft.fleet, { equipmentId: '', quantity: 1 }] })}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Change fleet size
+              </button>
+            </div>
+            {draft.fleet.map((entry, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <select
+                  value={entry.equipmentId}
+                  onChange={(e) => updateFleet(index, { equipmentId: e.target.value })}
+                  className={`block w-full ${rowInputClass}`}
+                  required
+                >
+                  <option value="">Select equipment</option>
+                  {equipment.map(eq => (
+                    <option key={eq.id} value={eq.id}>{eq.name} (currently {eq.quantity})</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  value={entry.quantity}
+                  onChange={(e) => updateFleet(index, { quantity: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className={`w-24 ${rowInputClass}`}
+                  title="Units"
+                />
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, fleet: draft.fleet.filter((_, i) => i !== index) })}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="block text-sm font-medium text-gray-700">Deployment Schedule</label>
+              <button
+                type="button"
+                onClick={() => setDraft({
+                  ...draft,
+                  deployments: [...draft.deployments, { startMonth: 0, months: 3, tempoFactor: 2 }]
+                })}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Add deployment
+              </button>
+            </div>
+            {draft.deployments.map((period, index) => (
+              <div key={index} className="flex items-center space-x-2 text-sm text-gray-700">
+                <span>From month</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={period.startMonth + 1}
+                  onChange={(e) => updateDeployment(index, { startMonth: Math.max(0, (parseInt(e.target.value) || 1) - 1) })}
+                  className={`w-20 ${rowInputClass}`}
+                />
+                <span>for</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={period.months}
+                  onChange={(e) => updateDeployment(index, { months: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className={`w-20 ${rowInputClass}`}
+                />
+                <span>months at</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={period.tempoFactor}
+                  onChange={(e) => updateDeployment(index, { tempoFactor: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className={`w-20 ${rowInputClass}`}
+                />
+                <span>× tempo</span>
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, deployments: draft.deployments.filter((_, i) => i !== index) })}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mr-2" />
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Save Scenario
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="p-6 space-y-6">
+        {scenarios.length === 0 ? (
+          <div className="text-center text-gray-500">
+            <GitCompare className="mx-auto h-12 w-12 text-gray-400" />
+            <p className="mt-2 text-sm">No scenarios yet; create one to compare it with the current plan</p>
+          </div>
+        ) : (
+          <div className="flex flex-wrap gap-3">
+            {scenarios.map(scenario => (
+              <div key={scenario.id} className="flex items-center rounded-md border border-gray-200 px-3 py-2">
+                <label className="flex items-center" title={scenario.description}>
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(scenario.id)}
+                    onChange={() => toggleCompare(scenario.id)}
+                    className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-900">{scenario.name}</span>
+                </label>
+                <button
+                  onClick={() => setDraft(toDraft(scenario))}
+                  className="ml-3 text-gray-400 hover:text-blue-600"
+                  title="Edit scenario"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    removeScenario(scenario.id)
+                    setCompareIds(ids => ids.filter(id => id !== scenario.id))
+                  }}
+                  className="ml-2 text-gray-400 hover:text-red-600"
+                  title="Delete scenario"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2 text-sm text-gray-700">
+          <span>Compare over</span>
+          <select
+            value={months}
+            onChange={(e) => setMonths(parseInt(e.target.value))}
+            className={rowInputClass}
+          >
+            {HORIZONS.map(horizon => (
+              <option key={horizon} value={horizon}>{horizon} months</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cost</th>
+                {runs.map(run => (
+                  <th key={run.scenario.id} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {run.scenario.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {CATEGORIES.map(({ key, label }) => {
+                const base = runs[0].projection.yearly[key]
+                return (
+                  <tr key={key} className={key === 'total' ? 'font-medium' : ''}>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{label}</td>
+                    {runs.map((run, index) => {
+                      const value = run.projection.yearly[key]
+                      const delta = value - base
+                      return (
+                        <td key={run.scenario.id} className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                          {formatCurrency(Math.round(value))}
+                          {index > 0 && (
+                            <div className={`text-xs ${delta > 0 ? 'text-red-600' : delta < 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                              {formatDelta(delta, base)}
+                            </div>
+                          )}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" />
+              <YAxis />
+              <Tooltip formatter={(value: number) => formatCurrency(value)} />
+              <Legend />
+              {runs.map((run, index) => (
+                <Line
+                  key={run.scenario.id}
+                  type="monotone"
+                  dataKey={run.scenario.id}
+                  name={run.scenario.name}
+                  stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                  strokeWidth={index === 0 ? 2 : 1}
+                  strokeDasharray={index === 0 ? '5 5' : undefined}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,19 @@
-import type { DegradationParams } from '@/types/equipment'
+import type { DegradationParams, DegradationType } from '@/types/equipment'
+import { getHealthPercent, getLifeLimits } from '@/utils/degradationModels'
 
 interface DegradationIndicatorProps {
   params: DegradationParams
 }
 
+const LIMIT_LABELS: Record<DegradationType, string> = {
+  cycles: 'Cycles',
+  hours: 'Operating hours',
+  time: 'Calendar age'
+}
+
 export function DegradationIndicator({ params }: DegradationIndicatorProps) {
-  const percentage = (params.currentValue / params.maxValue) * 100
+  const percentage = getHealthPercent(params)
+  const limits = getLifeLimits(params)
   const getColorClass = (percent: number) => {
     if (percent > 75) return 'bg-green-500'
     if (percent > 50) return 'bg-yellow-500'
@@ -19,16 +27,30 @@ export function DegradationIndicator({ params }: DegradationIndicatorProps) {
         <span className="text-gray-600">Equipment Condition</span>
         <span className="font-medium">{Math.round(percentage)}%</span>
       </div>
-      <div className="w-full h-2 bg-gray-200 rounded-full">
-        <div
-          className={`h-full rounded-full ${getColorClass(percentage)}`}
-          style={{ width: `${percentage}%` }}
-        />
-      </div>
+      {limits.map(limit => {
+        const limitPercent = (limit.currentValue / limit.maxValue) * 100
+        const limiting = limits.length > 1 && limitPercent === percentage
+        return (
+          <div key={limit.type} className="space-y-1">
+            {limits.length > 1 && (
+              <div className={`flex justify-between text-xs ${limiting ? 'font-medium text-gray-900' : 'text-gray-500'}`}>
+                <span>{LIMIT_LABELS[limit.type]}{limiting && ' (limiting)'}</span>
+                <span>{Math.round(limit.currentValue)} / {limit.maxValue}</span>
+              </div>
+            )}
+            <div className="w-full h-2 bg-gray-200 rounded-full">
+              <div
+                className={`h-full rounded-full ${getColorClass(limitPercent)}`}
+                style={{ width: `${Math.max(0, Math.min(100, limitPercent))}%` }}
+              />
+            </div>
+          </div>
+        )
+      })}
       <div className="flex justify-between text-xs text-gray-500">
-        <span>Type: {params.type}</span>
+        <span>Type: {limits.map(limit => limit.type).join(', ')}</span>
         <span>Last Updated: {new Date(params.lastUpdated).toLocaleDateString()}</span>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
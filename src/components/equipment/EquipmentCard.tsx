@@ -4,9 +4,10 @@ import { DegradationIndicator } from './DegradationIndicator'
 
 interface EquipmentCardProps {
   equipment: Equipment
+  onViewDetails?: () => void
 }
 
-export function EquipmentCard({ equipment }: EquipmentCardProps) {
+export function EquipmentCard({ equipment, onViewDetails }: EquipmentCardProps) {
   return (
     <div className="bg-white rounded-lg shadow p-6 space-y-4">
       <div className="flex justify-between items-start">
@@ -43,7 +44,7 @@ export function EquipmentCard({ equipment }: EquipmentCardProps) {
           <span className="text-sm font-medium text-gray-900">
             Cost: ${equipment.acquisitionCost.toLocaleString()}
           </span>
-          <button className="text-sm text-blue-600 hover:text-blue-800">
+          <button onClick={onViewDetails} className="text-sm text-blue-600 hover:text-blue-800">
             View Details
           </button>
         </div>
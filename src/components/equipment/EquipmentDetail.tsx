@@ -0,0 +1,256 @@
+import { useMemo, useState } from 'react'
+import { X, History } from 'lucide-react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import type { DegradationCause, DegradationType, Equipment } from '@/types/equipment'
+import { useEquipmentStore } from '@/stores/equipmentStore'
+import { useInventoryStore } from '@/stores/inventoryStore'
+import { DegradationTrackerService } from '@/services/degradationTracker'
+import { getHealthPercent, getLifeLimits } from '@/utils/degradationModels'
+import { formatDate } from '@/utils/formatters'
+import { DEFAULT_USAGE_LOOKBACK_DAYS } from '@/utils/usageRate'
+import { DegradationIndicator } from './DegradationIndicator'
+
+interface EquipmentDetailProps {
+  equipment: Equipment
+  onClose: () => void
+}
+
+interface ChartPoint {
+  time: number
+  recorded?: number
+  predicted?: number
+}
+
+const CAUSE_STYLES: Record<DegradationCause, string> = {
+  usage: 'bg-blue-100 text-blue-800',
+  maintenance: 'bg-green-100 text-green-800',
+  adjustment: 'bg-yellow-100 text-yellow-800'
+}
+
+const LOOKBACK_OPTIONS = [30, 90, 180, 365]
+
+const degradationTracker = DegradationTrackerService.getInstance()
+
+export function EquipmentDetail({ equipment, onClose }: EquipmentDetailProps) {
+  const adjustDegradation = useEquipmentStore(state => state.adjustDegradation)
+  const transactions = useInventoryStore(state => state.transactions)
+  const [serialNumber, setSerialNumber] = useState(equipment.units[0]?.serialNumber || '')
+  const [lookbackDays, setLookbackDays] = useState(DEFAULT_USAGE_LOOKBACK_DAYS)
+  const [adjustment, setAdjustment] = useState<Partial<Record<DegradationType, string>>>({})
+  const [notes, setNotes] = useState('')
+
+  const unit = equipment.units.find(u => u.serialNumber === serialNumber)
+  const unitEquipment = unit ? { ...equipment, degradation: unit.degradation } : equipment
+  const prediction = degradationTracker.predictReplacement(unitEquipment, transactions, { lookbackDays, serialNumber })
+
+  // Recorded health runs from acquisition through each logged change; the projection
+  // continues from today along the wear curve
+  const chartData = useMemo(() => {
+    if (!unit) return []
+    const log = unit.degradationLog
+    const recorded: ChartPoint[] = [
+      { time: new Date(unit.acquiredDate).getTime(), recorded: log[0]?.healthBefore ?? getHealthPercent(unit.degradation) },
+      ...log.map(record => ({ time: new Date(record.date).getTime(), recorded: record.healthAfter })),
+      { time: Date.now(), recorded: getHealthPercent(unit.degradation) }
+    ]
+    const predicted: ChartPoint[] = degradationTracker
+      .getHealthTrajectory({ ...equipment, degradation: unit.degradation }, 24, transactions, { lookbackDays, serialNumber })
+      .map(point => ({ time: new Date(point.date).getTime(), predicted: point.health }))
+    return [...recorded, ...predicted].sort((a, b) => a.time - b.time)
+  }, [equipment, unit, transactions, lookbackDays, serialNumber])
+
+  const handleAdjust = (e: React.FormEvent) => {
+    e.preventDefault()
+    const values = Object.fromEntries(
+      Object.entries(adjustment)
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([type, value]) => [type, parseFloat(value!)])
+    ) as Partial<Record<DegradationType, number>>
+    adjustDegradation(equipment.id, serialNumber, values, notes)
+    if (!useEquipmentStore.getState().error) {
+      setAdjustment({})
+      setNotes('')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">{equipment.name}</h3>
+          <p className="text-sm text-gray-500">{equipment.modelNumber} · {equipment.quantity} units</p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {equipment.units.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500">No units recorded for {equipment.name}</p>
+      ) : (
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-3 gap-4 items-start">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Unit</label>
+              <select
+                value={serialNumber}
+                onChange={(e) => setSerialNumber(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                {equipment.units.map(u => (
+                  <option key={u.serialNumber} value={u.serialNumber}>{u.serialNumber} ({u.status})</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              {unit && <DegradationIndicator params={unit.degradation} />}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-baseline mb-2">
+              <h4 className="text-sm font-medium text-gray-900">Health over time</h4>
+              <label className="text-sm text-gray-500">
+                Usage from the last{' '}
+                <select
+                  value={lookbackDays}
+                  onChange={(e) => setLookbackDays(parseInt(e.target.value))}
+                  className="rounded-md border-gray-300 text-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  {LOOKBACK_OPTIONS.map(days => (
+                    <option key={days} value={days}>{days} days</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="grid grid-cols-3 gap-4 mb-4">
+              {[
+                { label: 'Earliest', date: prediction.earliestReplacementDate },
+                { label: 'Likely', date: prediction.estimatedReplacementDate },
+                { label: 'Latest', date: prediction.latestReplacementDate }
+              ].map(({ label, date }) => (
+                <div key={label} className="rounded-md bg-gray-50 p-3">
+                  <p className="text-xs text-gray-500">{label} replacement</p>
+                  <p className="text-sm font-medium text-gray-900">{formatDate(date)}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-gray-500 mb-2">
+              {prediction.usageBasis === 'observed'
+                ? `Deployed ${(prediction.utilization * 100).toFixed(0)}% of the time over the last ${lookbackDays} days`
+                : `No deployments in the last ${lookbackDays} days; assuming the operating tempo every day`}
+              {' '}· {prediction.limitingType} limit runs out first
+            </p>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(time: number) => formatDate(new Date(time))}
+                  />
+                  <YAxis domain={[0, 100]} unit="%" />
+                  <Tooltip
+                    labelFormatter={(time: number) => formatDate(new Date(time))}
+                    formatter={(value: number) => `${value.toFixed(1)}%`}
+                  />
+                  <Legend />
+                  <Line type="stepAfter" dataKey="recorded" name="Recorded" stroke="#3B82F6" strokeWidth={2} connectNulls />
+                  <Line type="monotone" dataKey="predicted" name="Predicted" stroke="#EF4444" strokeDasharray="5 5" dot={false} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Degradation log</h4>
+            {!unit || unit.degradationLog.length === 0 ? (
+              <div className="text-center text-gray-500 py-4">
+                <History className="mx-auto h-8 w-8 text-gray-400" />
+                <p className="mt-2 text-sm">No degradation changes recorded for this unit</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {['Date', 'Cause', 'Health', 'Limits', 'Notes'].map(heading => (
+                        <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {[...unit.degradationLog].reverse().map((record, index) => (
+                      <tr key={`${record.date}-${index}`}>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{formatDate(record.date)}</td>
+                        <td className="px-6 py-3 whitespace-nowrap">
+                          <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${CAUSE_STYLES[record.cause]}`}>
+                            {record.cause}
+                          </span>
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">
+                          {record.healthBefore.toFixed(0)}% → {record.healthAfter.toFixed(0)}%
+                        </td>
+                        <td className="px-6 py-3 text-sm text-gray-500">
+                          {record.changes.map(change => `${change.type} ${change.before.toFixed(1)} → ${change.after.toFixed(1)}`).join(', ')}
+                        </td>
+                        <td className="px-6 py-3 text-sm text-gray-500">{record.notes || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {unit && unit.status !== 'disposed' && (
+            <form onSubmit={handleAdjust} className="space-y-3 pt-4 border-t border-gray-200">
+              <h4 className="text-sm font-medium text-gray-900">Manual adjustment</h4>
+              <div className="grid grid-cols-4 gap-4">
+                {getLifeLimits(unit.degradation).map(limit => (
+                  <div key={limit.type}>
+                    <label className="block text-sm font-medium text-gray-700">{limit.type} (of {limit.maxValue})</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max={limit.maxValue}
+                      step="any"
+                      placeholder={limit.currentValue.toFixed(1)}
+                      value={adjustment[limit.type] ?? ''}
+                      onChange={(e) => setAdjustment({ ...adjustment, [limit.type]: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                ))}
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700">Reason</label>
+                  <input
+                    type="text"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="e.g. Inspection found cracked housing"
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+                >
+                  Record Adjustment
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,24 @@
 import { useState } from 'react'
 import { useEquipmentStore } from '@/stores/equipmentStore'
-import type { Equipment, EquipmentCategory } from '@/types/equipment'
+import type {
+  Equipment,
+  EquipmentCategory,
+  OperatingTempo,
+  DegradationModel,
+  DegradationParams,
+  DegradationType,
+  LifeLimit
+} from '@/types/equipment'
+import { DEFAULT_OPERATING_TEMPO } from '@/utils/tempo'
+import { DEGRADATION_MODELS } from '@/utils/degradationModels'
 
 interface EquipmentFormProps {
   equipment?: Equipment
   onClose: () => void
 }
 
+const DEGRADATION_TYPES: DegradationType[] = ['cycles', 'hours', 'time']
+
 const initialState: Partial<Equipment> = {
   name: '',
   description: '',
@@ -16,6 +28,7 @@ const initialState: Partial<Equipment> = {
   acquisitionCost: 0,
   quantity: 0,
   personnelRequired: 0,
+  tempo: DEFAULT_OPERATING_TEMPO,
   degradation: {
     type: 'cycles',
     maxValue: 100,
@@ -57,6 +70,59 @@ export function EquipmentForm({ equipment, onClose }: EquipmentFormProps) {
     }))
   }
 
+  const handleTempoChange = (field: keyof OperatingTempo, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      tempo: {
+        ...(prev.tempo || DEFAULT_OPERATING_TEMPO),
+        [field]: Math.max(0, parseFloat(value) || 0)
+      }
+    }))
+  }
+
+  // Switching models resets the curve parameters to the new model's defaults
+  const handleModelChange = (model: DegradationModel) => {
+    setFormData(prev => ({
+      ...prev,
+      degradation: {
+        ...prev.degradation!,
+        model,
+        shape: undefined,
+        wearInShape: undefined,
+        wearInShare: undefined,
+        ...DEGRADATION_MODELS[model].defaults
+      }
+    }))
+  }
+
+  const handleCurveChange = (field: 'shape' | 'wearInShape' | 'wearInShare', value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      degradation: { ...prev.degradation!, [field]: parseFloat(value) || undefined }
+    }))
+  }
+
+  // A new item starts unworn, so the primary limit's current value follows its maximum
+  const handlePrimaryLimitChange = (updates: Partial<LifeLimit>) => {
+    setFormData(prev => {
+      const next = { ...prev.degradation!, ...updates }
+      return { ...prev, degradation: { ...next, currentValue: next.maxValue } }
+    })
+  }
+
+  const updateLimits = (update: (limits: LifeLimit[]) => LifeLimit[]) => {
+    setFormData(prev => ({
+      ...prev,
+      degradation: { ...prev.degradation!, limits: update(prev.degradation!.limits || []) }
+    }))
+  }
+
+  const tempo = formData.tempo || DEFAULT_OPERATING_TEMPO
+  const degradation = formData.degradation as DegradationParams
+  const model = degradation.model || 'linear'
+  const limits = degradation.limits || []
+  const unusedTypes = DEGRADATION_TYPES.filter(type => type !== degradation.type && !limits.some(l => l.type === type))
+
   return (
     <form onSubmit={handleSubmit} className="bg-white shadow-lg rounded-lg p-6 space-y-4">
       <div className="grid grid-cols-2 gap-4">
@@ -139,9 +205,15 @@ export function EquipmentForm({ equipment, onClose }: EquipmentFormProps) {
             name="quantity"
             value={formData.quantity}
             onChange={handleChange}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            disabled={!!equipment}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100"
             min="0"
           />
+          {equipment && (
+            <p className="mt-1 text-xs text-gray-500">
+              Record acquisitions and disposals in Inventory to change the unit count
+            </p>
+          )}
         </div>
         <div>
           <label className="block text-sm font-medium text-gray-700">Personnel Required</label>
@@ -156,6 +228,217 @@ export function EquipmentForm({ equipment, onClose }: EquipmentFormProps) {
         </div>
       </div>
 
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Uses per Day</label>
+          <input
+            type="number"
+            value={tempo.usesPerDay}
+            onChange={(e) => handleTempoChange('usesPerDay', e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            min="0"
+            step="0.1"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Hours per Day</label>
+          <input
+            type="number"
+            value={tempo.hoursPerDay}
+            onChange={(e) => handleTempoChange('hoursPerDay', e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            min="0"
+            max="24"
+            step="0.5"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Sorties per Week</label>
+          <input
+            type="number"
+            value={tempo.sortiesPerWeek}
+            onChange={(e) => handleTempoChange('sortiesPerWeek', e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            min="0"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <label className="block text-sm font-medium text-gray-700">Life Limits</label>
+          {unusedTypes.length > 0 && (
+            <button
+              type="button"
+              onClick={() => updateLimits(current => [
+                ...current,
+                { type: unusedTypes[0], maxValue: 100, currentValue: 100, degradationRate: 1 }
+              ])}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Add limit
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">
+          Each limit wears by its own usage (per cycle, operating hour or calendar day); the most-limiting sets health
+        </p>
+        <div className="grid grid-cols-4 gap-2 items-end">
+          <select
+            value={degradation.type}
+            onChange={(e) => handlePrimaryLimitChange({ type: e.target.value as DegradationType })}
+            disabled={!!equipment}
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100"
+          >
+            {DEGRADATION_TYPES.filter(type => type === degradation.type || !limits.some(l => l.type === type)).map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            value={degradation.maxValue}
+            onChange={(e) => handlePrimaryLimitChange({ maxValue: Math.max(1, parseFloat(e.target.value) || 1) })}
+            disabled={!!equipment}
+            title="Maximum value"
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100"
+            min="1"
+          />
+          <input
+            type="number"
+            value={degradation.degradationRate}
+            onChange={(e) => handlePrimaryLimitChange({ degradationRate: Math.max(0.001, parseFloat(e.target.value) || 0.001) })}
+            disabled={!!equipment}
+            title="Wear per unit of usage"
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-100"
+            min="0.001"
+            step="any"
+          />
+          <span className="text-xs text-gray-500 pb-2">Primary{equipment && ' (set when added)'}</span>
+        </div>
+        {limits.map((limit, index) => (
+          <div key={limit.type} className="grid grid-cols-4 gap-2 items-end">
+            <select
+              value={limit.type}
+              onChange={(e) => updateLimits(current => current.map((l, i) => (i === index ? { ...l, type: e.target.value as DegradationType } : l)))}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              {[limit.type, ...unusedTypes].map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={limit.maxValue}
+              onChange={(e) => {
+                const maxValue = Math.max(1, parseFloat(e.target.value) || 1)
+                // Limits not yet saved start unworn; units keep their own wear on saved ones
+                const saved = equipment?.degradation.limits?.some(l => l.type === limit.type)
+                updateLimits(current => current.map((l, i) => (i === index
+                  ? { ...l, maxValue, currentValue: saved ? Math.min(l.currentValue, maxValue) : maxValue }
+                  : l)))
+              }}
+              title="Maximum value"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              min="1"
+            />
+            <input
+              type="number"
+              value={limit.degradationRate}
+              onChange={(e) => {
+                const degradationRate = Math.max(0.001, parseFloat(e.target.value) || 0.001)
+                updateLimits(current => current.map((l, i) => (i === index ? { ...l, degradationRate } : l)))
+              }}
+              title="Wear per unit of usage"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              min="0.001"
+              step="any"
+            />
+            <div className="flex items-center space-x-2">
+              <select
+                value={limit.model || 'linear'}
+                onChange={(e) => {
+                  const limitModel = e.target.value as DegradationModel
+                  updateLimits(current => current.map((l, i) => (i === index
+                    ? { type: l.type, maxValue: l.maxValue, currentValue: l.currentValue, degradationRate: l.degradationRate, model: limitModel, ...DEGRADATION_MODELS[limitModel].defaults }
+                    : l)))
+                }}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                {(Object.keys(DEGRADATION_MODELS) as DegradationModel[]).map(key => (
+                  <option key={key} value={key}>{DEGRADATION_MODELS[key].label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => updateLimits(current => current.filter((_, i) => i !== index))}
+                className="text-sm text-gray-400 hover:text-red-600"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Primary Wear Model</label>
+          <select
+            value={model}
+            onChange={(e) => handleModelChange(e.target.value as DegradationModel)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {(Object.keys(DEGRADATION_MODELS) as DegradationModel[]).map(key => (
+              <option key={key} value={key}>{DEGRADATION_MODELS[key].label}</option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500">{DEGRADATION_MODELS[model].description}</p>
+        </div>
+        {model !== 'linear' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              {model === 'exponential' ? 'Growth' : model === 'bathtub' ? 'Wear-out Shape (β)' : 'Shape (β)'}
+            </label>
+            <input
+              type="number"
+              value={degradation.shape ?? ''}
+              onChange={(e) => handleCurveChange('shape', e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              min="0.1"
+              step="0.1"
+            />
+          </div>
+        )}
+        {model === 'bathtub' && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Early β</label>
+              <input
+                type="number"
+                value={degradation.wearInShape ?? ''}
+                onChange={(e) => handleCurveChange('wearInShape', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                min="0.05"
+                max="0.95"
+                step="0.05"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Early Share</label>
+              <input
+                type="number"
+                value={degradation.wearInShare ?? ''}
+                onChange={(e) => handleCurveChange('wearInShare', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                min="0.05"
+                max="0.95"
+                step="0.05"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
       <div className="flex justify-end space-x-3">
         <button
           type="button"
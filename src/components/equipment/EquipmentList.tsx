@@ -2,11 +2,14 @@ import { useState } from 'react'
 import { Plus } from 'lucide-react'
 import { EquipmentCard } from './EquipmentCard'
 import { EquipmentForm } from './EquipmentForm'
+import { EquipmentDetail } from './EquipmentDetail'
 import { useEquipmentStore } from '@/stores/equipmentStore'
 
 export function EquipmentList() {
   const [isAddingNew, setIsAddingNew] = useState(false)
+  const [detailId, setDetailId] = useState<string | null>(null)
   const equipment = useEquipmentStore(state => state.equipment)
+  const detailEquipment = equipment.find(item => item.id === detailId)
 
   return (
     <div className="space-y-4">
@@ -25,9 +28,17 @@ export function EquipmentList() {
         <EquipmentForm onClose={() => setIsAddingNew(false)} />
       )}
 
+      {detailEquipment && (
+        <EquipmentDetail
+          key={detailEquipment.id}
+          equipment={detailEquipment}
+          onClose={() => setDetailId(null)}
+        />
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {equipment.map((item) => (
-          <EquipmentCard key={item.id} equipment={item} />
+          <EquipmentCard key={item.id} equipment={item} onViewDetails={() => setDetailId(item.id)} />
         ))}
       </div>
     </div>
@@ -0,0 +1,354 @@
+import { useState, useRef } from 'react'
+import { FileSpreadsheet, CheckCircle, AlertCircle, Save, Trash2, ArrowLeft } from 'lucide-react'
+import { useEquipmentStore } from '@/stores/equipmentStore'
+import { useInventoryStore } from '@/stores/inventoryStore'
+import { useSettingsStore, useSavedMappings } from '@/stores/settingsStore'
+import { ImportService } from '@/services/importService'
+import { parseSpreadsheet } from '@/utils/spreadsheetParser'
+import { validateSpreadsheetFile } from '@/utils/validators'
+import type { Equipment, Consumable } from '@/types/equipment'
+import type { ImportTarget, ColumnMapping, SpreadsheetData, ImportRow } from '@/types/import'
+
+type WizardStep = 'upload' | 'map' | 'preview' | 'done'
+
+const importService = ImportService.getInstance()
+
+export function ImportWizard() {
+  const importEquipment = useEquipmentStore(state => state.importEquipment)
+  const importConsumables = useInventoryStore(state => state.importConsumables)
+  const consumables = useInventoryStore(state => state.consumables)
+  const savedMappings = useSavedMappings()
+  const { saveMapping, removeMapping, markMappingUsed } = useSettingsStore()
+
+  const [step, setStep] = useState<WizardStep>('upload')
+  const [target, setTarget] = useState<ImportTarget>('equipment')
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [mappingName, setMappingName] = useState('')
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [importedCount, setImportedCount] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const fields = importService.getFields(target)
+  const targetMappings = savedMappings.filter(m => m.target === target)
+  const missingFields = importService.getMissingRequiredFields(target, mapping)
+  const validRows = rows.filter(row => row.isValid)
+
+  const handleFile = async (file: File) => {
+    setError(null)
+    const validation = validateSpreadsheetFile(file)
+    if (!validation.isValid) {
+      setError(validation.errors.join(', '))
+      return
+    }
+
+    try {
+      const data = await parseSpreadsheet(file)
+      setSheet(data)
+      setMapping(importService.suggestMapping(target, data.headers))
+      setStep('map')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read spreadsheet')
+    }
+  }
+
+  const applySavedMapping = (id: string) => {
+    const saved = targetMappings.find(m => m.id === id)
+    if (!saved || !sheet) return
+    setMapping(importService.applyMapping(saved.mapping, sheet.headers))
+    setMappingName(saved.name)
+    markMappingUsed(saved.id)
+  }
+
+  const handleSaveMapping = () => {
+    if (!mappingName.trim()) return
+    saveMapping({
+      id: crypto.randomUUID(),
+      name: mappingName.trim(),
+      target,
+      mapping,
+      created: new Date().toISOString()
+    })
+  }
+
+  const handlePreview = () => {
+    if (!sheet) return
+    const existingIds = target === 'consumable' ? consumables.map(c => c.id) : []
+    setRows(importService.mapRows(target, sheet, mapping, existingIds))
+    setStep('preview')
+  }
+
+  const handleCommit = () => {
+    const data = validRows.map(row => row.data)
+    if (target === 'equipment') {
+      importEquipment(data as Equipment[])
+    } else {
+      importConsumables(data as Consumable[])
+    }
+    setImportedCount(data.length)
+    setStep('done')
+  }
+
+  const reset = () => {
+    setSheet(null)
+    setMapping({})
+    setMappingName('')
+    setRows([])
+    setError(null)
+    setStep('upload')
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const previewColumns = fields.filter(field => mapping[field.key]).slice(0, 4)
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div className="flex items-center">
+          <FileSpreadsheet className="h-6 w-6 text-blue-600" />
+          <div className="ml-3">
+            <h3 className="text-lg font-medium text-gray-900">Spreadsheet Import</h3>
+            <p className="text-sm text-gray-500">
+              {sheet ? `${sheet.fileName} · ${sheet.rows.length} rows` : 'CSV or Excel (.xlsx) files'}
+            </p>
+          </div>
+        </div>
+        {step !== 'upload' && (
+          <button
+            onClick={reset}
+            className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Start over
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="px-6 pt-4 flex items-center text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {step === 'upload' && (
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Import as</label>
+            <select
+              value={target}
+              onChange={(e) => setTarget(e.target.value as ImportTarget)}
+              className="mt-1 block w-64 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="equipment">Equipment</option>
+              <option value="consumable">Consumables</option>
+            </select>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+            className="block text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+          />
+        </div>
+      )}
+
+      {step === 'map' && sheet && (
+        <div className="p-6 space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            {targetMappings.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Saved mapping</label>
+                <select
+                  defaultValue=""
+                  onChange={(e) => applySavedMapping(e.target.value)}
+                  className="mt-1 block w-64 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="" disabled>Choose a saved mapping</option>
+                  {targetMappings.map(m => (
+                    <option key={m.id} value={m.id}>{m.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Save mapping as</label>
+              <input
+                type="text"
+                value={mappingName}
+                onChange={(e) => setMappingName(e.target.value)}
+                placeholder="e.g. Vendor price list"
+                className="mt-1 block w-64 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <button
+              onClick={handleSaveMapping}
+              disabled={!mappingName.trim()}
+              className="flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </button>
+          </div>
+
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Field
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Column
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  First Row
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {fields.map(field => (
+                <tr key={field.key}>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {field.label}
+                    {field.required && <span className="text-red-500"> *</span>}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm">
+                    <select
+                      value={mapping[field.key] || ''}
+                      onChange={(e) => setMapping(prev => {
+                        const next = { ...prev }
+                        if (e.target.value) next[field.key] = e.target.value
+                        else delete next[field.key]
+                        return next
+                      })}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    >
+                      <option value="">— Not mapped —</option>
+                      {sheet.headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                    {mapping[field.key] ? sheet.rows[0]?.[mapping[field.key]] || '—' : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {targetMappings.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {targetMappings.map(m => (
+                <span key={m.id} className="inline-flex items-center px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700">
+                  {m.name}
+                  <button
+                    onClick={() => removeMapping(m.id)}
+                    className="ml-1 text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-between items-center">
+            <p className="text-sm text-red-600">
+              {missingFields.length > 0 &&
+                `Map required fields: ${missingFields.map(f => f.label).join(', ')}`}
+            </p>
+            <button
+              onClick={handlePreview}
+              disabled={missingFields.length > 0}
+              className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Preview rows
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'preview' && (
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-700">
+            {validRows.length} of {rows.length} rows are valid.
+            {rows.length > validRows.length && ' Rows with errors will be skipped.'}
+          </p>
+
+          <div className="overflow-x-auto max-h-96">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Row
+                  </th>
+                  {previewColumns.map(field => (
+                    <th key={field.key} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {field.label}
+                    </th>
+                  ))}
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.map(row => (
+                  <tr key={row.index} className={row.isValid ? '' : 'bg-red-50'}>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-500">{row.index}</td>
+                    {previewColumns.map(field => (
+                      <td key={field.key} className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                        {sheet?.rows[row.index - 1]?.[mapping[field.key]] || '—'}
+                      </td>
+                    ))}
+                    <td className="px-4 py-2 text-sm">
+                      {row.isValid ? (
+                        <CheckCircle className="w-4 h-4 text-green-500" />
+                      ) : (
+                        <span className="text-red-600">{row.errors.join('; ')}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setStep('map')}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Back to mapping
+            </button>
+            <button
+              onClick={handleCommit}
+              disabled={validRows.length === 0}
+              className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Import {validRows.length} valid {validRows.length === 1 ? 'row' : 'rows'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'done' && (
+        <div className="p-6 flex items-center justify-between">
+          <div className="flex items-center text-sm text-gray-700">
+            <CheckCircle className="w-5 h-5 mr-2 text-green-500" />
+            Imported {importedCount} {target === 'equipment' ? 'equipment items' : 'consumables'}
+          </div>
+          <button
+            onClick={reset}
+            className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+          >
+            Import another file
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
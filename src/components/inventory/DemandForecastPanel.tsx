@@ -0,0 +1,233 @@
+import { useMemo, useState } from 'react'
+import { TrendingUp } from 'lucide-react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import type { ForecastSelection, ForecastSettings } from '@/types/forecast'
+import { useEquipmentStore } from '@/stores/equipmentStore'
+import { useInventoryStore } from '@/stores/inventoryStore'
+import { useMaintenanceStore } from '@/stores/maintenanceStore'
+import { useScenarios } from '@/stores/settingsStore'
+import { formatDate, formatPercentage } from '@/utils/formatters'
+import {
+  FORECAST_METHODS,
+  forecastAllMethods,
+  getDaysUntilDepletion,
+  getForecastContext
+} from '@/utils/forecasting'
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500'
+const headingClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider'
+
+const formatUnits = (value: number) => value.toFixed(1)
+
+export function DemandForecastPanel() {
+  const consumables = useInventoryStore(state => state.consumables)
+  const transactions = useInventoryStore(state => state.transactions)
+  const updateConsumable = useInventoryStore(state => state.updateConsumable)
+  const equipment = useEquipmentStore(state => state.equipment)
+  const workOrders = useMaintenanceStore(state => state.workOrders)
+  const scenarios = useScenarios()
+  const [selectedId, setSelectedId] = useState<string>('')
+
+  const consumable = consumables.find(c => c.id === selectedId) || consumables[0]
+
+  const forecasts = useMemo(() => {
+    if (!consumable) return []
+    return forecastAllMethods(
+      consumable,
+      getForecastContext(consumable, transactions, equipment, workOrders, scenarios)
+    )
+  }, [consumable, transactions, equipment, workOrders, scenarios])
+
+  if (!consumable) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+        Add consumables to forecast their demand
+      </div>
+    )
+  }
+
+  const selected = forecasts[0]
+  const settings: ForecastSettings = consumable.forecast || { method: 'auto' }
+  const daysUntilDepletion = getDaysUntilDepletion(consumable.stockLevel, selected)
+
+  const saveSettings = (changes: Partial<ForecastSettings>) => {
+    updateConsumable({ ...consumable, forecast: { ...settings, ...changes } })
+  }
+
+  const chartData = [
+    ...selected.history.map(period => ({
+      time: new Date(period.start).getTime(),
+      actual: period.actual
+    })),
+    ...selected.points.map(point => ({
+      time: new Date(point.start).getTime(),
+      forecast: point.forecast,
+      lower: point.lower,
+      upper: point.upper
+    }))
+  ]
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div className="flex items-center">
+          <TrendingUp className="w-5 h-5 mr-2 text-gray-500" />
+          <h2 className="text-lg font-semibold">Demand Forecast</h2>
+        </div>
+        <div className="text-sm text-gray-500">
+          {selected.points.length} periods of {selected.periodDays} days ahead,
+          {' '}{formatPercentage(selected.confidence * 100)} prediction interval
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Consumable</label>
+            <select
+              value={consumable.id}
+              onChange={(e) => setSelectedId(e.target.value)}
+              className={inputClass}
+            >
+              {consumables.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Forecast Method</label>
+            <select
+              value={settings.method}
+              onChange={(e) => saveSettings({ method: e.target.value as ForecastSelection })}
+              className={inputClass}
+            >
+              <option value="auto">Auto (best backtest)</option>
+              {Object.entries(FORECAST_METHODS).map(([method, { label }]) => (
+                <option key={method} value={method}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Deployment Schedule</label>
+            <select
+              value={settings.scenarioId || ''}
+              onChange={(e) => saveSettings({ scenarioId: e.target.value || undefined })}
+              className={inputClass}
+            >
+              <option value="">Current plan (no deployments)</option>
+              {scenarios.map(scenario => (
+                <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <div className="text-sm text-gray-500">Forecast Demand</div>
+            <div className="text-xl font-semibold">
+              {Math.round(selected.total.forecast)} {consumable.unit}
+            </div>
+            <div className="text-xs text-gray-500">
+              {Math.round(selected.total.lower)}–{Math.round(selected.total.upper)} {consumable.unit}
+            </div>
+          </div>
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <div className="text-sm text-gray-500">Daily Usage</div>
+            <div className="text-xl font-semibold">{formatUnits(selected.dailyRate)} {consumable.unit}</div>
+            <div className="text-xs text-gray-500">{FORECAST_METHODS[selected.method].label}</div>
+          </div>
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <div className="text-sm text-gray-500">Stock Runs Out</div>
+            <div className="text-xl font-semibold">
+              {Number.isFinite(daysUntilDepletion)
+                ? formatDate(new Date(Date.now() + daysUntilDepletion * 24 * 60 * 60 * 1000))
+                : 'Not forecast'}
+            </div>
+            <div className="text-xs text-gray-500">{consumable.stockLevel} {consumable.unit} in stock</div>
+          </div>
+        </div>
+
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(time: number) => formatDate(new Date(time))}
+              />
+              <YAxis />
+              <Tooltip
+                labelFormatter={(time: number) => formatDate(new Date(time))}
+                formatter={(value: number) => formatUnits(value)}
+              />
+              <Legend />
+              <Line type="stepAfter" dataKey="actual" name="Actual" stroke="#3B82F6" strokeWidth={2} connectNulls />
+              <Line type="monotone" dataKey="forecast" name="Forecast" stroke="#EF4444" strokeWidth={2} dot={false} connectNulls />
+              <Line type="monotone" dataKey="upper" name="Upper bound" stroke="#FCA5A5" strokeDasharray="5 5" dot={false} connectNulls />
+              <Line type="monotone" dataKey="lower" name="Lower bound" stroke="#FCA5A5" strokeDasharray="5 5" dot={false} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headingClass}>Method</th>
+                <th className={headingClass}>Forecast</th>
+                <th className={headingClass}>Per Day</th>
+                <th className={headingClass}>Accuracy</th>
+                <th className={headingClass}>Mean Error</th>
+                <th className={headingClass}>Bias</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {forecasts.map(forecast => (
+                <tr key={forecast.method} className={forecast === selected ? 'bg-blue-50' : undefined}>
+                  <td className="px-6 py-4 text-sm">
+                    <div className="font-medium text-gray-900">
+                      {FORECAST_METHODS[forecast.method].label}
+                      {forecast === selected && <span className="ml-2 text-xs text-blue-600">In use</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">{FORECAST_METHODS[forecast.method].description}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {Math.round(forecast.total.forecast)}
+                    <span className="text-gray-500">
+                      {' '}({Math.round(forecast.total.lower)}–{Math.round(forecast.total.upper)})
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatUnits(forecast.dailyRate)}
+                  </td>
+                  {forecast.accuracy ? (
+                    <>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatPercentage(Math.max(0, 100 - forecast.accuracy.wape * 100))}
+                        <span className="text-gray-500"> over {forecast.accuracy.periods} periods</span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatUnits(forecast.accuracy.mae)} per period
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {forecast.accuracy.bias > 0 ? '+' : ''}{formatUnits(forecast.accuracy.bias)}
+                      </td>
+                    </>
+                  ) : (
+                    <td colSpan={3} className="px-6 py-4 text-sm text-gray-500">
+                      Not enough history to backtest
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,45 +1,107 @@
 import { useState } from 'react'
 import { useEquipmentStore } from '@/stores/equipmentStore'
-import { Package, AlertTriangle, TrendingUp, ArrowUpDown } from 'lucide-react'
-import type { InventoryTransaction } from '@/types/inventory'
-import type { Equipment } from '@/types/equipment'
+import { useInventoryStore } from '@/stores/inventoryStore'
+import { useMaintenanceStore } from '@/stores/maintenanceStore'
+import { Package, AlertTriangle, TrendingUp, ArrowUpDown, CheckCircle, AlertCircle } from 'lucide-react'
+import type { InventoryTransaction, TransactionResult } from '@/types/inventory'
+import type { Equipment, EquipmentUnit } from '@/types/equipment'
+import { InventoryManagerService } from '@/services/inventoryManager'
+import { getHealthPercent } from '@/utils/degradationModels'
+import { UnitList } from './UnitList'
+
+type TransactionType = InventoryTransaction['type']
+
+const inventoryManager = InventoryManagerService.getInstance()
+
+// Which units each transaction type can act on
+const isEligibleUnit = (type: TransactionType, unit: EquipmentUnit): boolean => {
+  switch (type) {
+    case 'deployment':
+      return unit.status === 'available'
+    case 'return':
+      return unit.status === 'deployed'
+    case 'disposal':
+      return unit.status === 'available' || unit.status === 'maintenance'
+    default:
+      return false
+  }
+}
 
 export function InventoryManager() {
   const equipment = useEquipmentStore(state => state.equipment)
+  const processTransaction = useInventoryStore(state => state.processTransaction)
+  const workOrders = useMaintenanceStore(state => state.workOrders)
   const [selectedEquipment, setSelectedEquipment] = useState<string | null>(null)
-  const [transactionType, setTransactionType] = useState<'acquisition' | 'deployment' | 'return' | 'disposal'>('acquisition')
+  const [transactionType, setTransactionType] = useState<TransactionType>('acquisition')
   const [quantity, setQuantity] = useState(1)
+  const [selectedSerials, setSelectedSerials] = useState<string[]>([])
+  const [newSerials, setNewSerials] = useState('')
+  const [location, setLocation] = useState('')
   const [notes, setNotes] = useState('')
+  const [cost, setCost] = useState('')
+  const [expandedEquipment, setExpandedEquipment] = useState<string | null>(null)
+  const [result, setResult] = useState<TransactionResult | null>(null)
+  const [processing, setProcessing] = useState(false)
   
-  const handleTransaction = () => {
+  const handleTransaction = async () => {
     if (!selectedEquipment) return
 
+    const isAcquisition = transactionType === 'acquisition'
+    const serialNumbers = isAcquisition
+      ? newSerials.split(/[\s,]+/).filter(Boolean)
+      : selectedSerials
     const transaction: InventoryTransaction = {
       id: crypto.randomUUID(),
       equipmentId: selectedEquipment,
       type: transactionType,
-      quantity: quantity,
+      quantity: isAcquisition ? quantity : selectedSerials.length,
+      serialNumbers,
+      location: location.trim() || undefined,
       date: new Date().toISOString(),
-      notes: notes
+      notes: notes,
+      cost: cost.trim() === '' ? undefined : parseFloat(cost)
     }
 
-    // In a real app, this would be handled by your inventory store
-    console.log('Processing transaction:', transaction)
+    setProcessing(true)
+    const outcome = await processTransaction(transaction)
+    setProcessing(false)
+
+    const name = equipment.find(eq => eq.id === transaction.equipmentId)?.name
+    setResult(outcome.success ? { ...outcome, message: `${name}: ${outcome.message}` } : outcome)
+
+    // Keep the form filled in on failure so the user can correct it
+    if (outcome.success) {
+      setSelectedEquipment(null)
+      setQuantity(1)
+      setSelectedSerials([])
+      setNewSerials('')
+      setLocation('')
+      setNotes('')
+      setCost('')
+    }
+  }
 
-    // Reset form
-    setSelectedEquipment(null)
-    setQuantity(1)
-    setNotes('')
+  const toggleSerial = (serialNumber: string) => {
+    setSelectedSerials(prev => prev.includes(serialNumber)
+      ? prev.filter(serial => serial !== serialNumber)
+      : [...prev, serialNumber])
   }
 
   const getEquipmentAvailability = (equipment: Equipment) => {
+    const status = inventoryManager.getInventoryStatus(equipment, workOrders)
     return {
-      available: equipment.quantity - equipment.inUse,
-      deployed: equipment.inUse,
+      available: status.available,
+      deployed: status.deployed,
+      maintenance: status.maintenance,
       total: equipment.quantity
     }
   }
 
+  const currentEquipment = equipment.find(eq => eq.id === selectedEquipment)
+  const eligibleUnits = currentEquipment
+    ? currentEquipment.units.filter(unit => isEligibleUnit(transactionType, unit))
+    : []
+
   return (
     <div className="space-y-6">
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -96,12 +158,25 @@ export function InventoryManager() {
           <div className="bg-white rounded-lg shadow">
             <div className="p-6">
               <h3 className="text-lg font-medium text-gray-900 mb-4">New Transaction</h3>
+              {result && (
+                <div className={`mb-4 flex items-center text-sm ${
+                  result.success ? 'text-green-700' : 'text-red-600'
+                }`}>
+                  {result.success
+                    ? <CheckCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+                    : <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />}
+                  {result.message}
+                </div>
+              )}
               <form onSubmit={(e) => { e.preventDefault(); handleTransaction(); }} className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Equipment</label>
                   <select
                     value={selectedEquipment || ''}
-                    onChange={(e) => setSelectedEquipment(e.target.value)}
+                    onChange={(e) => {
+                      setSelectedEquipment(e.target.value)
+                      setSelectedSerials([])
+                    }}
                     className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
                     required
                   >
@@ -118,7 +193,10 @@ export function InventoryManager() {
                   <label className="block text-sm font-medium text-gray-700">Transaction Type</label>
                   <select
                     value={transactionType}
-                    onChange={(e) => setTransactionType(e.target.value as any)}
+                    onChange={(e) => {
+                      setTransactionType(e.target.value as TransactionType)
+                      setSelectedSerials([])
+                    }}
                     className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
                   >
                     <option value="acquisition">Acquisition</option>
@@ -128,15 +206,84 @@ export function InventoryManager() {
                   </select>
                 </div>
 
+                {transactionType === 'acquisition' ? (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Quantity</label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={quantity}
+                        onChange={(e) => setQuantity(parseInt(e.target.value))}
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700">Serial Numbers</label>
+                      <input
+                        type="text"
+                        value={newSerials}
+                        onChange={(e) => setNewSerials(e.target.value)}
+                        placeholder="Leave blank to number automatically"
+                        className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Units ({selectedSerials.length} selected)
+                    </label>
+                    {eligibleUnits.length === 0 ? (
+                      <p className="mt-1 text-sm text-gray-500">
+                        {currentEquipment ? `No units can take a ${transactionType}` : 'Select equipment first'}
+                      </p>
+                    ) : (
+                      <div className="mt-1 max-h-40 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-100">
+                        {eligibleUnits.map(unit => (
+                          <label key={unit.serialNumber} className="flex items-center justify-between px-3 py-2 text-sm">
+                            <span className="flex items-center">
+                              <input
+                                type="checkbox"
+                                checked={selectedSerials.includes(unit.serialNumber)}
+                                onChange={() => toggleSerial(unit.serialNumber)}
+                                className="mr-2"
+                              />
+                              {unit.serialNumber}
+                            </span>
+                            <span className="text-gray-500">
+                              {unit.location} · {Math.round(getHealthPercent(unit.degradation))}%
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div>
-                  <label className="block text-sm font-medium text-gray-700">Quantity</label>
+                  <label className="block text-sm font-medium text-gray-700">Location</label>
+                  <input
+                    type="text"
+                    value={location}
+                    onChange={(e) => setLocation(e.target.value)}
+                    placeholder={transactionType === 'return' ? 'Depot' : 'Unchanged'}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Cost</label>
                   <input
                     type="number"
-                    min="1"
-                    value={quantity}
-                    onChange={(e) => setQuantity(parseInt(e.target.value))}
+                    min="0"
+                    step="any"
+                    value={cost}
+                    onChange={(e) => setCost(e.target.value)}
+                    placeholder="Total spent, if any"
                     className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-                    required
                   />
                 </div>
 
@@ -152,9 +299,10 @@ export function InventoryManager() {
 
                 <button
                   type="submit"
-                  className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  disabled={processing}
+                  className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
                 >
-                  Process Transaction
+                  {processing ? 'Processing...' : 'Process Transaction'}
                 </button>
               </form>
             </div>
@@ -179,6 +327,9 @@ export function InventoryManager() {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Deployed
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Maintenance
+                      </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Total
                       </th>
@@ -188,7 +339,11 @@ export function InventoryManager() {
                     {equipment.map((eq) => {
                       const availability = getEquipmentAvailability(eq)
                       return (
-                        <tr key={eq.id}>
+                        <tr
+                          key={eq.id}
+                          onClick={() => setExpandedEquipment(expandedEquipment === eq.id ? null : eq.id)}
+                          className={`cursor-pointer hover:bg-gray-50 ${expandedEquipment === eq.id ? 'bg-blue-50' : ''}`}
+                        >
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="text-sm font-medium text-gray-900">{eq.name}</div>
                             <div className="text-sm text-gray-500">{eq.category}</div>
@@ -203,6 +358,9 @@ export function InventoryManager() {
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                             {availability.deployed}
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {availability.maintenance}
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                             {availability.total}
                           </td>
@@ -214,6 +372,19 @@ export function InventoryManager() {
               </div>
             </div>
           </div>
+
+          {expandedEquipment && equipment.some(eq => eq.id === expandedEquipment) && (
+            <div className="mt-6 bg-white rounded-lg shadow">
+              <div className="p-6">
+                <h3 className="text-lg font-medium text-gray-900 mb-4">
+                  Units — {equipment.find(eq => eq.id === expandedEquipment)!.name}
+                </h3>
+                <div className="overflow-x-auto">
+                  <UnitList equipment={equipment.find(eq => eq.id === expandedEquipment)!} />
+                </div>
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,310 @@
+import { useState } from 'react'
+import { AlertCircle, CheckCircle, Pencil, RefreshCw } from 'lucide-react'
+import type { Consumable } from '@/types/equipment'
+import type { PolicyLevels, PolicyProposal } from '@/types/policy'
+import { useInventoryStore } from '@/stores/inventoryStore'
+import { FORECAST_METHODS } from '@/utils/forecasting'
+import { formatCurrency } from '@/utils/formatters'
+import { getInventoryPolicy } from '@/utils/inventoryPolicy'
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500'
+const headingClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider'
+
+const toDraft = (consumable: Consumable) => {
+  const policy = getInventoryPolicy(consumable)
+  return {
+    id: consumable.id,
+    serviceLevel: policy.serviceLevel.toString(),
+    leadTimeDays: policy.leadTimeDays.toString(),
+    leadTimeStdDevDays: policy.leadTimeStdDevDays.toString(),
+    orderCost: policy.orderCost.toString(),
+    holdingRate: policy.holdingRate.toString(),
+    shelfLifeDays: policy.shelfLifeDays?.toString() ?? ''
+  }
+}
+
+const LEVELS: { key: keyof PolicyLevels; label: string }[] = [
+  { key: 'minimumStock', label: 'Minimum' },
+  { key: 'reorderPoint', label: 'Reorder Point' },
+  { key: 'orderQuantity', label: 'Order Qty' }
+]
+
+export function InventoryPolicies() {
+  const consumables = useInventoryStore(state => state.consumables)
+  const updateConsumablePolicy = useInventoryStore(state => state.updateConsumablePolicy)
+  const recalculatePolicies = useInventoryStore(state => state.recalculatePolicies)
+  const applyPolicyProposals = useInventoryStore(state => state.applyPolicyProposals)
+  const error = useInventoryStore(state => state.error)
+  const [draft, setDraft] = useState<ReturnType<typeof toDraft> | null>(null)
+  const [proposals, setProposals] = useState<PolicyProposal[] | null>(null)
+  const [accepted, setAccepted] = useState<Set<string>>(new Set())
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  const getName = (id: string) => consumables.find(c => c.id === id)?.name || 'Removed item'
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft) return
+
+    updateConsumablePolicy(draft.id, {
+      serviceLevel: parseFloat(draft.serviceLevel),
+      leadTimeDays: parseInt(draft.leadTimeDays),
+      leadTimeStdDevDays: parseFloat(draft.leadTimeStdDevDays) || 0,
+      orderCost: parseFloat(draft.orderCost),
+      holdingRate: parseFloat(draft.holdingRate),
+      shelfLifeDays: draft.shelfLifeDays === '' ? undefined : parseInt(draft.shelfLifeDays)
+    })
+    if (!useInventoryStore.getState().error) {
+      setDraft(null)
+    }
+  }
+
+  const handleRecalculate = () => {
+    const next = recalculatePolicies()
+    setProposals(next)
+    // Only proposals that change something are accepted by default
+    setAccepted(new Set(next
+      .filter(p => LEVELS.some(({ key }) => p.current[key] !== p.proposed[key]))
+      .map(p => p.consumableId)))
+    setResult(next.length === 0
+      ? { success: false, message: 'No consumable has forecast demand to size a policy from' }
+      : null)
+  }
+
+  const handleApply = () => {
+    if (!proposals) return
+    const selected = proposals.filter(p => accepted.has(p.consumableId))
+    applyPolicyProposals(selected)
+    const applyError = useInventoryStore.getState().error
+    setResult(applyError
+      ? { success: false, message: applyError }
+      : { success: true, message: `Applied new levels to ${selected.length} ${selected.length === 1 ? 'consumable' : 'consumables'}` })
+    if (!applyError) {
+      setProposals(null)
+    }
+  }
+
+  const toggle = (id: string) => {
+    const next = new Set(accepted)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setAccepted(next)
+  }
+
+  const field = (key: Exclude<keyof ReturnType<typeof toDraft>, 'id'>, label: string, required = true) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">{label}</label>
+      <input
+        type="number"
+        min="0"
+        step="any"
+        value={draft?.[key] ?? ''}
+        onChange={(e) => draft && setDraft({ ...draft, [key]: e.target.value })}
+        className={inputClass}
+        required={required}
+      />
+    </div>
+  )
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Inventory Policies</h3>
+          <p className="text-sm text-gray-500">
+            Safety stock, reorder points and order quantities sized from each item's forecast and policy
+          </p>
+        </div>
+        <button
+          onClick={handleRecalculate}
+          disabled={consumables.length === 0}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          <RefreshCw className="w-5 h-5 mr-2" />
+          Recalculate Policies
+        </button>
+      </div>
+
+      {result && (
+        <div className={`px-6 pt-4 flex items-center text-sm ${result.success ? 'text-green-700' : 'text-red-600'}`}>
+          {result.success
+            ? <CheckCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+            : <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />}
+          {result.message}
+        </div>
+      )}
+
+      {proposals && proposals.length > 0 && (
+        <div className="p-6 border-b border-gray-200 space-y-4">
+          <h4 className="text-sm font-medium text-gray-900">Proposed Levels</h4>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headingClass}>Apply</th>
+                  <th className={headingClass}>Consumable</th>
+                  {LEVELS.map(({ key, label }) => (
+                    <th key={key} className={headingClass}>{label}</th>
+                  ))}
+                  <th className={headingClass}>Demand / Day</th>
+                  <th className={headingClass}>Annual Cost</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {proposals.map(proposal => (
+                  <tr key={proposal.consumableId}>
+                    <td className="px-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={accepted.has(proposal.consumableId)}
+                        onChange={() => toggle(proposal.consumableId)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                    </td>
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                      {getName(proposal.consumableId)}
+                      {proposal.limitedByShelfLife && (
+                        <div className="text-xs text-yellow-700">Order size limited by shelf life</div>
+                      )}
+                    </td>
+                    {LEVELS.map(({ key }) => {
+                      const current = proposal.current[key]
+                      const proposed = proposal.proposed[key]
+                      return (
+                        <td key={key} className="px-6 py-4 whitespace-nowrap text-sm">
+                          <span className="text-gray-500">{current ?? '—'}</span>
+                          <span className="text-gray-400"> → </span>
+                          <span className={current === proposed ? 'text-gray-900' : 'font-medium text-blue-700'}>
+                            {proposed}
+                          </span>
+                        </td>
+                      )
+                    })}
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {proposal.dailyDemand.toFixed(1)}
+                      <div className="text-xs text-gray-500">{FORECAST_METHODS[proposal.forecastMethod].label}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(proposal.annualCost)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setProposals(null)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Discard
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={accepted.size === 0}
+              className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Apply Selected
+            </button>
+          </div>
+        </div>
+      )}
+
+      {draft && (
+        <form onSubmit={handleSubmit} className="p-6 border-b border-gray-200 space-y-4">
+          <h4 className="text-sm font-medium text-gray-900">Policy for {getName(draft.id)}</h4>
+          <div className="grid grid-cols-3 gap-4">
+            {field('serviceLevel', 'Service Level (%)')}
+            {field('leadTimeDays', 'Lead Time (days)')}
+            {field('leadTimeStdDevDays', 'Lead Time Std Dev (days)')}
+            {field('orderCost', 'Order Cost')}
+            {field('holdingRate', 'Holding Rate (% per year)')}
+            {field('shelfLifeDays', 'Shelf Life (days)', false)}
+          </div>
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mr-2" />
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Save Policy
+            </button>
+          </div>
+        </form>
+      )}
+
+      {consumables.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No consumables in inventory</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headingClass}>Consumable</th>
+                <th className={headingClass}>Service Level</th>
+                <th className={headingClass}>Lead Time</th>
+                <th className={headingClass}>Order Cost</th>
+                <th className={headingClass}>Holding</th>
+                <th className={headingClass}>Shelf Life</th>
+                <th className={headingClass}>Min / Reorder / Order Qty</th>
+                <th className={headingClass}></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {consumables.map(consumable => {
+                const policy = getInventoryPolicy(consumable)
+                return (
+                  <tr key={consumable.id}>
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                      {consumable.name}
+                      {!consumable.policy && <div className="text-xs text-gray-500">Default policy</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{policy.serviceLevel}%</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {policy.leadTimeDays} days
+                      {policy.leadTimeStdDevDays > 0 && ` ± ${policy.leadTimeStdDevDays}`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(policy.orderCost)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{policy.holdingRate}% / yr</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {policy.shelfLifeDays !== undefined ? `${policy.shelfLifeDays} days` : '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {consumable.minimumStock} / {consumable.reorderPoint} / {consumable.orderQuantity ?? '—'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <button
+                        onClick={() => setDraft(toDraft(consumable))}
+                        className="text-blue-600 hover:text-blue-900"
+                        title="Edit policy"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
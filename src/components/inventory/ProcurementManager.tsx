@@ -0,0 +1,518 @@
+import { useState } from 'react'
+import { AlertCircle, CheckCircle, ClipboardList, Truck } from 'lucide-react'
+import type { ProcurementNeed, TransactionResult } from '@/types/inventory'
+import type { ProcurementStatus, PurchaseOrder, PurchaseOrderStatus } from '@/types/procurement'
+import { useEquipmentStore } from '@/stores/equipmentStore'
+import { useInventoryStore, usePurchaseOrders } from '@/stores/inventoryStore'
+import { useApprovers, useVendors } from '@/stores/settingsStore'
+import { ProcurementManagerService } from '@/services/procurementManager'
+import { formatCurrency, formatDate } from '@/utils/formatters'
+
+const procurementManager = ProcurementManagerService.getInstance()
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500'
+const rowInputClass = 'rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500'
+const headingClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider'
+
+const STATUS_STYLES: Record<ProcurementStatus | PurchaseOrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  ordered: 'bg-indigo-100 text-indigo-800',
+  open: 'bg-indigo-100 text-indigo-800',
+  'partially-received': 'bg-purple-100 text-purple-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+}
+
+type NeedFilter = 'open' | ProcurementStatus
+
+const isOpen = (need: ProcurementNeed) => need.status !== 'received' && need.status !== 'cancelled'
+
+const StatusBadge = ({ status }: { status: ProcurementStatus | PurchaseOrderStatus }) => (
+  <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[status]}`}>
+    {status}
+  </span>
+)
+
+export function ProcurementManager() {
+  const equipment = useEquipmentStore(state => state.equipment)
+  const consumables = useInventoryStore(state => state.consumables)
+  const procurementNeeds = useInventoryStore(state => state.procurementNeeds)
+  const approveProcurement = useInventoryStore(state => state.approveProcurement)
+  const cancelProcurement = useInventoryStore(state => state.cancelProcurement)
+  const createPurchaseOrder = useInventoryStore(state => state.createPurchaseOrder)
+  const receivePurchaseOrder = useInventoryStore(state => state.receivePurchaseOrder)
+  const purchaseOrders = usePurchaseOrders()
+  const approvers = useApprovers()
+  const vendors = useVendors()
+  const [filter, setFilter] = useState<NeedFilter>('open')
+  const [result, setResult] = useState<TransactionResult | null>(null)
+  const [reviewing, setReviewing] = useState<{ needId: string; approverId: string; note: string } | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [order, setOrder] = useState({ vendorId: '', vendor: '', expectedDate: '', notes: '' })
+  const [receiving, setReceiving] = useState<{
+    orderId: string
+    lines: Record<string, { quantity: string; cost: string }>
+  } | null>(null)
+
+  const needs = procurementNeeds.filter(need => (filter === 'open' ? isOpen(need) : need.status === filter))
+  const leadTimes = procurementManager.getVendorLeadTimes(purchaseOrders)
+  const getItemName = (itemId: string) =>
+    equipment.find(eq => eq.id === itemId)?.name || consumables.find(c => c.id === itemId)?.name || itemId
+
+  const report = (outcome: TransactionResult) => {
+    setResult(outcome)
+    return outcome.success
+  }
+
+  const handleReview = (action: 'approve' | 'cancel') => {
+    if (!reviewing) return
+    const succeeded = report(action === 'approve'
+      ? approveProcurement(reviewing.needId, reviewing.approverId, reviewing.note)
+      : cancelProcurement(reviewing.needId, reviewing.note))
+    if (succeeded) setReviewing(null)
+  }
+
+  const handleCreateOrder = (e: React.FormEvent) => {
+    e.preventDefault()
+    const succeeded = report(createPurchaseOrder(selectedIds, order.vendor, {
+      expectedDate: order.expectedDate || undefined,
+      notes: order.notes,
+      vendorId: order.vendorId || undefined
+    }))
+    if (succeeded) {
+      setSelectedIds([])
+      setOrder({ vendorId: '', vendor: '', expectedDate: '', notes: '' })
+    }
+  }
+
+  // A catalog vendor fills in its name and expected delivery from its lead time
+  const selectVendor = (vendorId: string) => {
+    const vendor = vendors.find(v => v.id === vendorId)
+    if (!vendor) {
+      setOrder(current => ({ ...current, vendorId: '', vendor: '' }))
+      return
+    }
+    const expected = new Date()
+    expected.setDate(expected.getDate() + vendor.leadTimeDays)
+    setOrder(current => ({
+      ...current,
+      vendorId,
+      vendor: vendor.name,
+      expectedDate: expected.toISOString().split('T')[0]
+    }))
+  }
+
+  // Each line defaults to its outstanding quantity at the estimated unit cost
+  const startReceiving = (purchaseOrder: PurchaseOrder) => {
+    const lines = Object.fromEntries(purchaseOrder.needIds.flatMap(id => {
+      const need = procurementNeeds.find(n => n.id === id)
+      if (!need) return []
+      const outstanding = procurementManager.getOutstanding(need)
+      return [[id, {
+        quantity: outstanding.toString(),
+        cost: ((need.estimatedCost / need.quantity) * outstanding).toFixed(2)
+      }]]
+    }))
+    setReceiving({ orderId: purchaseOrder.id, lines })
+  }
+
+  const handleReceive = () => {
+    if (!receiving) return
+    const succeeded = report(receivePurchaseOrder(
+      receiving.orderId,
+      Object.entries(receiving.lines).map(([needId, line]) => ({
+        needId,
+        quantity: parseInt(line.quantity) || 0,
+        cost: parseFloat(line.cost) || 0
+      }))
+    ))
+    if (succeeded) setReceiving(null)
+  }
+
+  // The first need picked suggests the vendor its quote came from
+  const toggleSelected = (id: string) => {
+    const quotedVendorId = procurementNeeds.find(n => n.id === id)?.vendorId
+    if (selectedIds.length === 0 && quotedVendorId) {
+      selectVendor(quotedVendorId)
+    }
+    setSelectedIds(ids => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]))
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Procurement</h3>
+          <p className="text-sm text-gray-500">
+            Approve needs, group them into purchase orders per vendor and receive deliveries into stock
+          </p>
+        </div>
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as NeedFilter)}
+          className={rowInputClass}
+        >
+          <option value="open">Open</option>
+          <option value="pending">Pending</option>
+          <option value="approved">Approved</option>
+          <option value="ordered">Ordered</option>
+          <option value="received">Received</option>
+          <option value="cancelled">Cancelled</option>
+        </select>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {result && (
+          <div className={`flex items-center text-sm ${result.success ? 'text-green-700' : 'text-red-600'}`}>
+            {result.success
+              ? <CheckCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+              : <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />}
+            {result.message}
+          </div>
+        )}
+
+        {needs.length === 0 ? (
+          <div className="text-center text-gray-500">
+            <ClipboardList className="mx-auto h-12 w-12 text-gray-400" />
+            <p className="mt-2 text-sm">No {filter} procurement needs</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['', 'Item', 'Quantity', 'Estimated Cost', 'Vendor', 'Priority', 'Status', 'Reason', ''].map((heading, index) => (
+                    <th key={index} className={headingClass}>{heading}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {needs.map(need => (
+                  <tr key={need.id}>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      {need.status === 'approved' && (
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(need.id)}
+                          onChange={() => toggleSelected(need.id)}
+                          className="rounded border-gray-300 text-blue-600 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          title="Add to purchase order"
+                        />
+                      )}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{getItemName(need.itemId)}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {need.quantityReceived ? `${need.quantityReceived}/${need.quantity}` : need.quantity}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{formatCurrency(need.estimatedCost)}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {need.vendorId ? (
+                        <>
+                          {vendors.find(v => v.id === need.vendorId)?.name || 'Removed vendor'}
+                          <div className={`text-xs ${
+                            need.requiredWithinDays !== undefined && (need.leadTimeDays || 0) > need.requiredWithinDays
+                              ? 'text-red-600'
+                              : 'text-gray-400'
+                          }`}>
+                            {need.leadTimeDays} day lead time
+                            {need.requiredWithinDays !== undefined && `, needed in ${need.requiredWithinDays}`}
+                          </div>
+                        </>
+                      ) : 'List price'}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{need.priority}</td>
+                    <td className="px-6 py-3 whitespace-nowrap"><StatusBadge status={need.status} /></td>
+                    <td className="px-6 py-3 text-sm text-gray-500">
+                      {need.reason}
+                      {need.justification && <div className="text-xs text-gray-400">Approved: {need.justification}</div>}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap text-right">
+                      {procurementManager.canTransition(need.status, 'cancelled') && (
+                        <button
+                          onClick={() => setReviewing({ needId: need.id, approverId: approvers[0]?.id || '', note: '' })}
+                          className="text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          Review
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {reviewing && (
+          <div className="rounded-md border border-gray-200 p-4 space-y-4">
+            <h4 className="text-sm font-medium text-gray-900">
+              Review {getItemName(procurementNeeds.find(n => n.id === reviewing.needId)?.itemId || '')}
+            </h4>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Approver</label>
+                <select
+                  value={reviewing.approverId}
+                  onChange={(e) => setReviewing({ ...reviewing, approverId: e.target.value })}
+                  className={inputClass}
+                >
+                  {approvers.length === 0 && <option value="">Add an approver in Settings</option>}
+                  {approvers.map(approver => (
+                    <option key={approver.id} value={approver.id}>
+                      {approver.name} (up to {formatCurrency(approver.approvalLimit)})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700">Justification or Reason</label>
+                <input
+                  type="text"
+                  value={reviewing.note}
+                  onChange={(e) => setReviewing({ ...reviewing, note: e.target.value })}
+                  placeholder="Required to approve or cancel"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setReviewing(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Close
+              </button>
+              <button
+                onClick={() => handleReview('cancel')}
+                className="px-4 py-2 border border-red-300 rounded-md text-sm font-medium text-red-700 hover:bg-red-50"
+              >
+                Cancel Need
+              </button>
+              {procurementManager.canTransition(
+                procurementNeeds.find(n => n.id === reviewing.needId)?.status || 'cancelled',
+                'approved'
+              ) && (
+                <button
+                  onClick={() => handleReview('approve')}
+                  className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+                >
+                  Approve
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {selectedIds.length > 0 && (
+          <form onSubmit={handleCreateOrder} className="rounded-md border border-gray-200 p-4 space-y-4">
+            <h4 className="text-sm font-medium text-gray-900">
+              Purchase order for {selectedIds.length} approved need{selectedIds.length === 1 ? '' : 's'}
+            </h4>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Vendor</label>
+                <select
+                  value={order.vendorId}
+                  onChange={(e) => selectVendor(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Other vendor</option>
+                  {vendors.map(vendor => (
+                    <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                  ))}
+                </select>
+                {!order.vendorId && (
+                  <input
+                    type="text"
+                    value={order.vendor}
+                    onChange={(e) => setOrder({ ...order, vendor: e.target.value })}
+                    placeholder="Vendor name"
+                    className={inputClass}
+                    required
+                  />
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Expected Delivery</label>
+                <input
+                  type="date"
+                  value={order.expectedDate}
+                  onChange={(e) => setOrder({ ...order, expectedDate: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Notes</label>
+                <input
+                  type="text"
+                  value={order.notes}
+                  onChange={(e) => setOrder({ ...order, notes: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+              >
+                Raise Purchase Order
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Purchase Orders</h4>
+          {purchaseOrders.length === 0 ? (
+            <div className="text-center text-gray-500">
+              <Truck className="mx-auto h-8 w-8 text-gray-400" />
+              <p className="mt-2 text-sm">No purchase orders yet; select approved needs to raise one</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Order', 'Vendor', 'Ordered', 'Expected', 'Lines', 'Status', 'Lead Time', ''].map((heading, index) => (
+                      <th key={index} className={headingClass}>{heading}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {[...purchaseOrders].reverse().map(purchaseOrder => {
+                    const leadTime = procurementManager.getLeadTimeDays(purchaseOrder)
+                    const overdue = purchaseOrder.status !== 'received' &&
+                      !!purchaseOrder.expectedDate && new Date(purchaseOrder.expectedDate) < new Date()
+                    return (
+                      <tr key={purchaseOrder.id}>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{purchaseOrder.number}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{purchaseOrder.vendor}</td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{formatDate(purchaseOrder.orderedDate)}</td>
+                        <td className={`px-6 py-3 whitespace-nowrap text-sm ${overdue ? 'text-red-600' : 'text-gray-500'}`}>
+                          {purchaseOrder.expectedDate ? formatDate(purchaseOrder.expectedDate) : '-'}
+                        </td>
+                        <td className="px-6 py-3 text-sm text-gray-500">
+                          {purchaseOrder.needIds.map(id => {
+                            const need = procurementNeeds.find(n => n.id === id)
+                            return need ? `${getItemName(need.itemId)} × ${need.quantity}` : id
+                          }).join(', ')}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap"><StatusBadge status={purchaseOrder.status} /></td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                          {leadTime !== null ? `${Math.round(leadTime)} days` : '-'}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-right">
+                          {purchaseOrder.status !== 'received' && (
+                            <button
+                              onClick={() => startReceiving(purchaseOrder)}
+                              className="text-sm text-blue-600 hover:text-blue-800"
+                            >
+                              Receive
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {receiving && (
+          <div className="rounded-md border border-gray-200 p-4 space-y-4">
+            <h4 className="text-sm font-medium text-gray-900">
+              Receive against {purchaseOrders.find(o => o.id === receiving.orderId)?.number}
+            </h4>
+            {Object.entries(receiving.lines).map(([needId, line]) => {
+              const need = procurementNeeds.find(n => n.id === needId)!
+              const outstanding = procurementManager.getOutstanding(need)
+              return (
+                <div key={needId} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span className="w-48 truncate">{getItemName(need.itemId)}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    max={outstanding}
+                    value={line.quantity}
+                    onChange={(e) => setReceiving({
+                      ...receiving,
+                      lines: { ...receiving.lines, [needId]: { ...line, quantity: e.target.value } }
+                    })}
+                    className={`w-24 ${rowInputClass}`}
+                    disabled={outstanding === 0}
+                  />
+                  <span>of {outstanding} outstanding, costing</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={line.cost}
+                    onChange={(e) => setReceiving({
+                      ...receiving,
+                      lines: { ...receiving.lines, [needId]: { ...line, cost: e.target.value } }
+                    })}
+                    className={`w-32 ${rowInputClass}`}
+                    disabled={outstanding === 0}
+                  />
+                </div>
+              )
+            })}
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setReceiving(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Close
+              </button>
+              <button
+                onClick={handleReceive}
+                className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+              >
+                Post Receipt
+              </button>
+            </div>
+          </div>
+        )}
+
+        {leadTimes.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Vendor Lead Times</h4>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Vendor', 'Orders Received', 'Average', 'Longest', 'Open', 'Overdue'].map(heading => (
+                      <th key={heading} className={headingClass}>{heading}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {leadTimes.map(vendor => (
+                    <tr key={vendor.vendor}>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{vendor.vendor}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{vendor.orders}</td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {vendor.orders > 0 ? `${vendor.averageDays.toFixed(1)} days` : '-'}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                        {vendor.orders > 0 ? `${Math.round(vendor.maxDays)} days` : '-'}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{vendor.openOrders}</td>
+                      <td className={`px-6 py-3 whitespace-nowrap text-sm ${vendor.overdueOrders > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                        {vendor.overdueOrders}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
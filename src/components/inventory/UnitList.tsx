@@ -0,0 +1,67 @@
+import type { Equipment, UnitStatus } from '@/types/equipment'
+import { formatDate } from '@/utils/formatters'
+import { getHealthPercent } from '@/utils/degradationModels'
+
+interface UnitListProps {
+  equipment: Equipment
+}
+
+const STATUS_STYLES: Record<UnitStatus, string> = {
+  available: 'bg-green-100 text-green-800',
+  deployed: 'bg-blue-100 text-blue-800',
+  maintenance: 'bg-yellow-100 text-yellow-800',
+  disposed: 'bg-gray-100 text-gray-600'
+}
+
+export function UnitList({ equipment }: UnitListProps) {
+  if (equipment.units.length === 0) {
+    return <p className="text-sm text-gray-500">No units recorded for {equipment.name}</p>
+  }
+
+  return (
+    <table className="min-w-full divide-y divide-gray-200">
+      <thead className="bg-gray-50">
+        <tr>
+          {['Serial', 'Status', 'Location', 'Life remaining', 'Last event'].map(heading => (
+            <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {heading}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="bg-white divide-y divide-gray-200">
+        {equipment.units.map(unit => {
+          const life = getHealthPercent(unit.degradation)
+          const lastEvent = unit.history[unit.history.length - 1]
+          return (
+            <tr key={unit.serialNumber}>
+              <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                {unit.serialNumber}
+              </td>
+              <td className="px-6 py-3 whitespace-nowrap">
+                <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[unit.status]}`}>
+                  {unit.status}
+                </span>
+              </td>
+              <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{unit.location}</td>
+              <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                <div className="flex items-center">
+                  <div className="w-24 bg-gray-200 rounded-full h-2 mr-2">
+                    <div
+                      className={`h-2 rounded-full ${life > 75 ? 'bg-green-500' : life > 50 ? 'bg-yellow-500' : life > 25 ? 'bg-orange-500' : 'bg-red-500'}`}
+                      style={{ width: `${Math.max(0, Math.min(100, life))}%` }}
+                    />
+                  </div>
+                  {life.toFixed(0)}%
+                </div>
+              </td>
+              <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                {lastEvent ? `${lastEvent.type} ${formatDate(lastEvent.date)}` : '—'}
+              </td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+}
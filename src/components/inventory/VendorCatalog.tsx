@@ -0,0 +1,545 @@
+import { useState } from 'react'
+import { AlertCircle, Pencil, Plus, Store, Trash2 } from 'lucide-react'
+import type { PriceQuote, Vendor } from '@/types/vendors'
+import { useEquipmentStore } from '@/stores/equipmentStore'
+import { useInventoryStore } from '@/stores/inventoryStore'
+import { useSettingsStore, usePriceQuotes, useVendors } from '@/stores/settingsStore'
+import { formatCurrency, formatDate } from '@/utils/formatters'
+import { isQuoteValid } from '@/utils/vendors'
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500'
+const rowInputClass = 'rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500'
+const headingClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider'
+
+const emptyVendor = {
+  name: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  leadTimeDays: '14',
+  minimumOrder: '0',
+  terms: 'Net 30',
+  notes: ''
+}
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const emptyQuote = () => {
+  const expiry = new Date()
+  expiry.setDate(expiry.getDate() + 30)
+  return {
+    item: '',
+    breaks: [{ minQuantity: '1', unitPrice: '' }],
+    validFrom: today(),
+    validUntil: expiry.toISOString().split('T')[0],
+    leadTimeDays: '',
+    reference: ''
+  }
+}
+
+const getQuoteState = (quote: PriceQuote): { label: string; className: string } => {
+  if (isQuoteValid(quote)) return { label: 'Valid', className: 'text-green-700' }
+  return new Date(quote.validFrom) > new Date()
+    ? { label: 'Upcoming', className: 'text-gray-500' }
+    : { label: 'Expired', className: 'text-red-600' }
+}
+
+export function VendorCatalog() {
+  const equipment = useEquipmentStore(state => state.equipment)
+  const consumables = useInventoryStore(state => state.consumables)
+  const vendors = useVendors()
+  const priceQuotes = usePriceQuotes()
+  const addVendor = useSettingsStore(state => state.addVendor)
+  const updateVendor = useSettingsStore(state => state.updateVendor)
+  const removeVendor = useSettingsStore(state => state.removeVendor)
+  const addPriceQuote = useSettingsStore(state => state.addPriceQuote)
+  const removePriceQuote = useSettingsStore(state => state.removePriceQuote)
+  const error = useSettingsStore(state => state.error)
+  const [vendorDraft, setVendorDraft] = useState<(typeof emptyVendor & { id?: string }) | null>(null)
+  const [selectedVendorId, setSelectedVendorId] = useState<string | null>(null)
+  const [quoteDraft, setQuoteDraft] = useState<ReturnType<typeof emptyQuote> | null>(null)
+
+  const selectedVendor = vendors.find(v => v.id === selectedVendorId)
+  const vendorQuotes = priceQuotes.filter(q => q.vendorId === selectedVendorId)
+  const getItemName = (quote: PriceQuote) =>
+    (quote.itemType === 'equipment'
+      ? equipment.find(eq => eq.id === quote.itemId)?.name
+      : consumables.find(c => c.id === quote.itemId)?.name) || 'Removed item'
+
+  const editVendor = (vendor: Vendor) => {
+    setVendorDraft({
+      id: vendor.id,
+      name: vendor.name,
+      contactName: vendor.contact.name,
+      email: vendor.contact.email,
+      phone: vendor.contact.phone,
+      leadTimeDays: vendor.leadTimeDays.toString(),
+      minimumOrder: vendor.minimumOrder.toString(),
+      terms: vendor.terms,
+      notes: vendor.notes
+    })
+  }
+
+  const handleVendorSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!vendorDraft) return
+
+    const existing = vendors.find(v => v.id === vendorDraft.id)
+    const now = new Date().toISOString()
+    const vendor: Vendor = {
+      id: existing?.id || crypto.randomUUID(),
+      name: vendorDraft.name.trim(),
+      contact: {
+        name: vendorDraft.contactName.trim(),
+        email: vendorDraft.email.trim(),
+        phone: vendorDraft.phone.trim()
+      },
+      leadTimeDays: parseInt(vendorDraft.leadTimeDays),
+      minimumOrder: parseFloat(vendorDraft.minimumOrder) || 0,
+      terms: vendorDraft.terms.trim(),
+      notes: vendorDraft.notes,
+      created: existing?.created || now,
+      updated: now
+    }
+    if (existing) {
+      updateVendor(vendor)
+    } else {
+      addVendor(vendor)
+    }
+    if (!useSettingsStore.getState().error) {
+      setVendorDraft(null)
+    }
+  }
+
+  const handleQuoteSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!quoteDraft || !selectedVendorId) return
+
+    const [itemType, itemId] = quoteDraft.item.split(':') as [PriceQuote['itemType'], string]
+    addPriceQuote({
+      id: crypto.randomUUID(),
+      vendorId: selectedVendorId,
+      itemType,
+      itemId,
+      priceBreaks: quoteDraft.breaks
+        .filter(b => b.minQuantity !== '' || b.unitPrice !== '')
+        .map(b => ({ minQuantity: parseInt(b.minQuantity), unitPrice: parseFloat(b.unitPrice) }))
+        .sort((a, b) => a.minQuantity - b.minQuantity),
+      validFrom: quoteDraft.validFrom,
+      validUntil: quoteDraft.validUntil,
+      leadTimeDays: quoteDraft.leadTimeDays === '' ? undefined : parseInt(quoteDraft.leadTimeDays),
+      reference: quoteDraft.reference.trim(),
+      source: 'manual',
+      created: new Date().toISOString()
+    })
+    if (!useSettingsStore.getState().error) {
+      setQuoteDraft(null)
+    }
+  }
+
+  const updateBreak = (index: number, field: 'minQuantity' | 'unitPrice', value: string) => {
+    if (!quoteDraft) return
+    setQuoteDraft({
+      ...quoteDraft,
+      breaks: quoteDraft.breaks.map((b, i) => (i === index ? { ...b, [field]: value } : b))
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Vendor Catalog</h3>
+          <p className="text-sm text-gray-500">
+            Procurement needs are priced from the cheapest valid quote that can arrive in time
+          </p>
+        </div>
+        <button
+          onClick={() => setVendorDraft(vendorDraft ? null : emptyVendor)}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="w-5 h-5 mr-2" />
+          New Vendor
+        </button>
+      </div>
+
+      {vendorDraft && (
+        <form onSubmit={handleVendorSubmit} className="p-6 border-b border-gray-200 space-y-4">
+          <div className="grid grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                value={vendorDraft.name}
+                onChange={(e) => setVendorDraft({ ...vendorDraft, name: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Contact</label>
+              <input
+                type="text"
+                value={vendorDraft.contactName}
+                onChange={(e) => setVendorDraft({ ...vendorDraft, contactName: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Email</label>
+              <input
+                type="email"
+                value={vendorDraft.email}
+                onChange={(e) => setVendorDraft({ ...vendorDraft, email: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Phone</label>
+              <input
+                type="tel"
+                value={vendorDraft.phone}
+                onChange={(e) => setVendorDraft({ ...vendorDraft, phone: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Lead Time (days)</label>
+              <input
+                type="number"
+                min="0"
+                value={vendorDraft.leadTimeDays}
+                onChange={(e) => setVendorDraft({ ...vendorDraft, leadTimeDays: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Minimum Order</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={vendorDraft.minimumOrder}
+                onChange={(e) => setVendorDraft({ ...vendorDraft, minimumOrder: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Terms</label>
+              <input
+                type="text"
+                value={vendorDraft.terms}
+                onChange={(e) => setVendorDraft({ ...vendorDraft, terms: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Notes</label>
+              <input
+                type="text"
+                value={vendorDraft.notes}
+                onChange={(e) => setVendorDraft({ ...vendorDraft, notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mr-2" />
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setVendorDraft(null)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Save Vendor
+            </button>
+          </div>
+        </form>
+      )}
+
+      {vendors.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">
+          <Store className="mx-auto h-12 w-12 text-gray-400" />
+          <p className="mt-2 text-sm">No vendors yet; needs are priced at list price until quotes are added</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Vendor', 'Contact', 'Lead Time', 'Minimum Order', 'Terms', 'Valid Quotes', ''].map((heading, index) => (
+                  <th key={index} className={headingClass}>{heading}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {vendors.map(vendor => (
+                <tr key={vendor.id} className={vendor.id === selectedVendorId ? 'bg-blue-50' : ''}>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{vendor.name}</td>
+                  <td className="px-6 py-3 text-sm text-gray-500">
+                    {vendor.contact.name || '-'}
+                    {(vendor.contact.email || vendor.contact.phone) && (
+                      <div className="text-xs text-gray-400">
+                        {[vendor.contact.email, vendor.contact.phone].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{vendor.leadTimeDays} days</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{formatCurrency(vendor.minimumOrder)}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{vendor.terms || '-'}</td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                    {priceQuotes.filter(q => q.vendorId === vendor.id && isQuoteValid(q)).length}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-right space-x-3">
+                    <button
+                      onClick={() => {
+                        setSelectedVendorId(vendor.id === selectedVendorId ? null : vendor.id)
+                        setQuoteDraft(null)
+                      }}
+                      className="text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      Quotes
+                    </button>
+                    <button
+                      onClick={() => editVendor(vendor)}
+                      className="text-gray-400 hover:text-blue-600"
+                      title="Edit vendor"
+                    >
+                      <Pencil className="w-4 h-4 inline" />
+                    </button>
+                    <button
+                      onClick={() => removeVendor(vendor.id)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Remove vendor and its quotes"
+                    >
+                      <Trash2 className="w-4 h-4 inline" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selectedVendor && (
+        <div className="p-6 border-t border-gray-200 space-y-4">
+          <div className="flex justify-between items-center">
+            <h4 className="text-sm font-medium text-gray-900">Quotes from {selectedVendor.name}</h4>
+            <button
+              onClick={() => setQuoteDraft(quoteDraft ? null : emptyQuote())}
+              className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Quote
+            </button>
+          </div>
+
+          {quoteDraft && (
+            <form onSubmit={handleQuoteSubmit} className="rounded-md border border-gray-200 p-4 space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Item</label>
+                  <select
+                    value={quoteDraft.item}
+                    onChange={(e) => setQuoteDraft({ ...quoteDraft, item: e.target.value })}
+                    className={inputClass}
+                    required
+                  >
+                    <option value="">Select an item</option>
+                    <optgroup label="Equipment">
+                      {equipment.map(eq => (
+                        <option key={eq.id} value={`equipment:${eq.id}`}>{eq.name}</option>
+                      ))}
+                    </optgroup>
+                    <optgroup label="Consumables">
+                      {consumables.map(c => (
+                        <option key={c.id} value={`consumable:${c.id}`}>{c.name}</option>
+                      ))}
+                    </optgroup>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Quote Reference</label>
+                  <input
+                    type="text"
+                    value={quoteDraft.reference}
+                    onChange={(e) => setQuoteDraft({ ...quoteDraft, reference: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Lead Time (days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={quoteDraft.leadTimeDays}
+                    onChange={(e) => setQuoteDraft({ ...quoteDraft, leadTimeDays: e.target.value })}
+                    placeholder={`Vendor default (${selectedVendor.leadTimeDays})`}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Valid From</label>
+                  <input
+                    type="date"
+                    value={quoteDraft.validFrom}
+                    onChange={(e) => setQuoteDraft({ ...quoteDraft, validFrom: e.target.value })}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Valid Until</label>
+                  <input
+                    type="date"
+                    value={quoteDraft.validUntil}
+                    onChange={(e) => setQuoteDraft({ ...quoteDraft, validUntil: e.target.value })}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-700">Price Breaks</label>
+                {quoteDraft.breaks.map((priceBreak, index) => (
+                  <div key={index} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span>From</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={priceBreak.minQuantity}
+                      onChange={(e) => updateBreak(index, 'minQuantity', e.target.value)}
+                      className={`w-24 ${rowInputClass}`}
+                    />
+                    <span>units at</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={priceBreak.unitPrice}
+                      onChange={(e) => updateBreak(index, 'unitPrice', e.target.value)}
+                      className={`w-32 ${rowInputClass}`}
+                    />
+                    <span>each</span>
+                    {quoteDraft.breaks.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setQuoteDraft({
+                          ...quoteDraft,
+                          breaks: quoteDraft.breaks.filter((_, i) => i !== index)
+                        })}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove price break"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setQuoteDraft({
+                    ...quoteDraft,
+                    breaks: [...quoteDraft.breaks, { minQuantity: '', unitPrice: '' }]
+                  })}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Add price break
+                </button>
+              </div>
+
+              {error && (
+                <div className="flex items-center text-sm text-red-600">
+                  <AlertCircle className="w-4 h-4 mr-2" />
+                  {error}
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setQuoteDraft(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+                >
+                  Save Quote
+                </button>
+              </div>
+            </form>
+          )}
+
+          {vendorQuotes.length === 0 ? (
+            <p className="text-sm text-gray-500">No quotes from this vendor yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Item', 'Price Breaks', 'Lead Time', 'Valid', 'Reference', ''].map((heading, index) => (
+                      <th key={index} className={headingClass}>{heading}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {vendorQuotes.map(quote => {
+                    const state = getQuoteState(quote)
+                    return (
+                      <tr key={quote.id}>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-900">{getItemName(quote)}</td>
+                        <td className="px-6 py-3 text-sm text-gray-500">
+                          {quote.priceBreaks
+                            .map(b => `${b.minQuantity}+ at ${formatCurrency(b.unitPrice)}`)
+                            .join(', ')}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                          {quote.leadTimeDays ?? selectedVendor.leadTimeDays} days
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                          {formatDate(quote.validFrom)} – {formatDate(quote.validUntil)}
+                          <div className={`text-xs ${state.className}`}>{state.label}</div>
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                          {quote.reference || '-'}
+                          {quote.source === 'pdf' && <div className="text-xs text-gray-400">Imported from PDF</div>}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap text-right">
+                          <button
+                            onClick={() => removePriceQuote(quote.id)}
+                            className="text-gray-400 hover:text-red-600"
+                            title="Remove quote"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react'
+import { CalendarDays, ChevronLeft, ChevronRight, AlertTriangle, CheckCircle } from 'lucide-react'
+import { useEquipmentStore } from '@/stores/equipmentStore'
+import { useMaintenanceStore } from '@/stores/maintenanceStore'
+import type { MaintenanceDue } from '@/types/maintenance'
+import { formatDate } from '@/utils/formatters'
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const GENERATE_HORIZON_DAYS = 14
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+export function MaintenanceCalendar() {
+  const equipment = useEquipmentStore(state => state.equipment)
+  const maintenancePlans = useMaintenanceStore(state => state.maintenancePlans)
+  const workOrders = useMaintenanceStore(state => state.workOrders)
+  const getMaintenanceDue = useMaintenanceStore(state => state.getMaintenanceDue)
+  const generateScheduledWorkOrders = useMaintenanceStore(state => state.generateScheduledWorkOrders)
+  const [month, setMonth] = useState(() => {
+    const today = new Date()
+    return new Date(today.getFullYear(), today.getMonth(), 1)
+  })
+  const [generated, setGenerated] = useState<number | null>(null)
+
+  // The store query reads equipment, plans and work orders itself; they are listed so edits recompute it
+  const due = useMemo(() => getMaintenanceDue(), [equipment, maintenancePlans, workOrders, getMaintenanceDue])
+  const overdue = due.filter(item => item.overdue)
+
+  const dueByDay = useMemo(() => {
+    const map = new Map<string, MaintenanceDue[]>()
+    due.forEach(item => {
+      const key = dayKey(new Date(item.dueDate))
+      map.set(key, [...(map.get(key) || []), item])
+    })
+    return map
+  }, [due])
+
+  // Leading blanks pad the first week so the grid starts on Sunday
+  const cells = useMemo(() => {
+    const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate()
+    return [
+      ...Array.from({ length: month.getDay() }, () => null),
+      ...Array.from({ length: daysInMonth }, (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1))
+    ]
+  }, [month])
+
+  const equipmentName = (id: string) => equipment.find(eq => eq.id === id)?.name || 'Unknown equipment'
+  const todayKey = dayKey(new Date())
+
+  const shiftMonth = (delta: number) => {
+    setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + delta, 1))
+  }
+
+  if (maintenancePlans.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+        <CalendarDays className="mx-auto h-12 w-12 text-gray-400" />
+        <p className="mt-2 text-sm">Add a preventive maintenance plan to see upcoming maintenance</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Maintenance Calendar</h3>
+          <p className="text-sm text-gray-500">
+            Due dates project each unit's usage since its last plan service at the equipment's tempo
+          </p>
+        </div>
+        <button
+          onClick={() => setGenerated(generateScheduledWorkOrders(GENERATE_HORIZON_DAYS))}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          Generate Work Orders
+        </button>
+      </div>
+
+      {generated !== null && (
+        <div className="px-6 pt-4 flex items-center text-sm text-green-700">
+          <CheckCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+          {generated === 0
+            ? `Nothing new is due in the next ${GENERATE_HORIZON_DAYS} days`
+            : `Scheduled ${generated} work order${generated > 1 ? 's' : ''} due in the next ${GENERATE_HORIZON_DAYS} days`}
+        </div>
+      )}
+
+      {overdue.length > 0 && (
+        <div className="m-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-center text-sm font-medium text-red-800">
+            <AlertTriangle className="w-4 h-4 mr-2" />
+            {overdue.length} overdue
+          </div>
+          <ul className="mt-2 space-y-1 text-sm text-red-700">
+            {overdue.map(item => (
+              <li key={`${item.planId}-${item.serialNumber}`}>
+                {item.planName}: {equipmentName(item.equipmentId)} {item.serialNumber}, due {formatDate(item.dueDate)} ({item.trigger})
+                {item.workOrderId && <span className="text-red-500"> · work order open</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="p-6">
+        <div className="flex justify-between items-center mb-4">
+          <button onClick={() => shiftMonth(-1)} className="p-1 text-gray-500 hover:text-gray-900" title="Previous month">
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <span className="text-sm font-medium text-gray-900">
+            {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+          </span>
+          <button onClick={() => shiftMonth(1)} className="p-1 text-gray-500 hover:text-gray-900" title="Next month">
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-lg overflow-hidden">
+          {WEEKDAYS.map(day => (
+            <div key={day} className="bg-gray-50 py-2 text-center text-xs font-medium text-gray-500 uppercase">
+              {day}
+            </div>
+          ))}
+          {cells.map((date, index) => {
+            if (!date) return <div key={`blank-${index}`} className="bg-white min-h-[5rem]" />
+            const key = dayKey(date)
+            const items = dueByDay.get(key) || []
+            return (
+              <div key={key} className={`bg-white min-h-[5rem] p-1 ${key === todayKey ? 'ring-2 ring-inset ring-blue-500' : ''}`}>
+                <div className="text-xs text-gray-500">{date.getDate()}</div>
+                {items.map(item => (
+                  <div
+                    key={`${item.planId}-${item.serialNumber}`}
+                    title={`${item.planName} (${item.trigger})`}
+                    className={`mt-1 px-1 text-xs rounded truncate ${
+                      item.overdue
+                        ? 'bg-red-100 text-red-800'
+                        : item.workOrderId
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-blue-100 text-blue-800'
+                    }`}
+                  >
+                    {item.serialNumber}
+                  </div>
+                ))}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
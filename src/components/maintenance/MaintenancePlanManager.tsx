@@ -0,0 +1,269 @@
+import { useState } from 'react'
+import { ClipboardList, Plus, Trash2 } from 'lucide-react'
+import { useEquipmentStore } from '@/stores/equipmentStore'
+import { useInventoryStore } from '@/stores/inventoryStore'
+import { useMaintenanceStore } from '@/stores/maintenanceStore'
+import type { MaintenancePlan, WorkOrderPart } from '@/types/maintenance'
+
+const emptyDraft = () => ({
+  equipmentId: '',
+  name: '',
+  intervalCycles: '',
+  intervalHours: '',
+  intervalDays: '',
+  laborHours: 0,
+  restorationPercent: 100,
+  parts: [] as WorkOrderPart[]
+})
+
+// Blank interval fields mean the plan does not use that trigger
+const parseInterval = (value: string) => (value.trim() === '' ? undefined : parseFloat(value))
+
+const describeIntervals = (plan: MaintenancePlan) =>
+  [
+    plan.intervalCycles && `${plan.intervalCycles} cycles`,
+    plan.intervalHours && `${plan.intervalHours} hours`,
+    plan.intervalDays && `${plan.intervalDays} days`
+  ]
+    .filter(Boolean)
+    .join(' or ')
+
+export function MaintenancePlanManager() {
+  const equipment = useEquipmentStore(state => state.equipment)
+  const consumables = useInventoryStore(state => state.consumables)
+  const maintenancePlans = useMaintenanceStore(state => state.maintenancePlans)
+  const addMaintenancePlan = useMaintenanceStore(state => state.addMaintenancePlan)
+  const removeMaintenancePlan = useMaintenanceStore(state => state.removeMaintenancePlan)
+  const [draft, setDraft] = useState(emptyDraft)
+  const [showForm, setShowForm] = useState(false)
+
+  const equipmentName = (id: string) => equipment.find(eq => eq.id === id)?.name || 'Unknown equipment'
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    addMaintenancePlan({
+      id: crypto.randomUUID(),
+      equipmentId: draft.equipmentId,
+      name: draft.name,
+      intervalCycles: parseInterval(draft.intervalCycles),
+      intervalHours: parseInterval(draft.intervalHours),
+      intervalDays: parseInterval(draft.intervalDays),
+      laborHours: draft.laborHours,
+      restorationPercent: draft.restorationPercent,
+      parts: draft.parts,
+      created: new Date().toISOString()
+    })
+
+    if (!useMaintenanceStore.getState().error) {
+      setDraft(emptyDraft())
+      setShowForm(false)
+    }
+  }
+
+  const updatePart = (index: number, updates: Partial<WorkOrderPart>) => {
+    setDraft(prev => ({
+      ...prev,
+      parts: prev.parts.map((part, i) => (i === index ? { ...part, ...updates } : part))
+    }))
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Preventive Maintenance Plans</h3>
+          <p className="text-sm text-gray-500">
+            Each plan applies to every unit of an equipment type; whichever interval is reached first makes it due
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="w-5 h-5 mr-2" />
+          New Plan
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="p-6 border-b border-gray-200 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Equipment</label>
+              <select
+                value={draft.equipmentId}
+                onChange={(e) => setDraft({ ...draft, equipmentId: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                required
+              >
+                <option value="">Select equipment</option>
+                {equipment.map(eq => (
+                  <option key={eq.id} value={eq.id}>{eq.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. 100-cycle inspection"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            {([
+              ['intervalCycles', 'Every N Cycles'],
+              ['intervalHours', 'Every N Hours'],
+              ['intervalDays', 'Every N Days']
+            ] as const).map(([field, label]) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700">{label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={draft[field]}
+                  onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Labor Hours</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={draft.laborHours}
+                onChange={(e) => setDraft({ ...draft, laborHours: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Health Restored (% of max)</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={draft.restorationPercent}
+                onChange={(e) => setDraft({ ...draft, restorationPercent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="block text-sm font-medium text-gray-700">Parts</label>
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, parts: [...draft.parts, { consumableId: '', quantity: 1 }] })}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Add part
+              </button>
+            </div>
+            {draft.parts.map((part, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <select
+                  value={part.consumableId}
+                  onChange={(e) => updatePart(index, { consumableId: e.target.value })}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                >
+                  <option value="">Select consumable</option>
+                  {consumables.map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="1"
+                  value={part.quantity}
+                  onChange={(e) => updatePart(index, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="w-24 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, parts: draft.parts.filter((_, i) => i !== index) })}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Save Plan
+            </button>
+          </div>
+        </form>
+      )}
+
+      {maintenancePlans.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">
+          <ClipboardList className="mx-auto h-12 w-12 text-gray-400" />
+          <p className="mt-2 text-sm">No maintenance plans yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Plan', 'Interval', 'Labor', 'Health', ''].map(heading => (
+                  <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {maintenancePlans.map(plan => (
+                <tr key={plan.id}>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{plan.name}</div>
+                    <div className="text-sm text-gray-500">{equipmentName(plan.equipmentId)}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">Every {describeIntervals(plan)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {plan.laborHours} h{plan.parts.length > 0 && `, ${plan.parts.length} part${plan.parts.length > 1 ? 's' : ''}`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">+{plan.restorationPercent}%</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    <button
+                      onClick={() => removeMaintenancePlan(plan.id)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete plan"
+                    >
+                      <Trash2 className="w-4 h-4 inline" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,340 @@
+import { useState } from 'react'
+import { Wrench, Plus, Trash2, Play, CheckCircle, AlertCircle } from 'lucide-react'
+import { useEquipmentStore } from '@/stores/equipmentStore'
+import { useInventoryStore } from '@/stores/inventoryStore'
+import { useMaintenanceStore } from '@/stores/maintenanceStore'
+import { useActiveRateProfile } from '@/stores/settingsStore'
+import type { WorkOrder, WorkOrderPart, WorkOrderStatus } from '@/types/maintenance'
+import type { TransactionResult } from '@/types/inventory'
+import { getLaborRate } from '@/utils/rateProfiles'
+import { getHealthPercent } from '@/utils/degradationModels'
+import { formatCurrency, formatDate } from '@/utils/formatters'
+
+const STATUS_STYLES: Record<WorkOrderStatus, string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  'in-progress': 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800'
+}
+
+const emptyDraft = () => ({
+  equipmentId: '',
+  serialNumber: '',
+  title: '',
+  description: '',
+  scheduledDate: new Date().toISOString().slice(0, 10),
+  laborHours: 0,
+  restorationPercent: 100,
+  parts: [] as WorkOrderPart[]
+})
+
+export function WorkOrderManager() {
+  const equipment = useEquipmentStore(state => state.equipment)
+  const consumables = useInventoryStore(state => state.consumables)
+  const workOrders = useMaintenanceStore(state => state.workOrders)
+  const addWorkOrder = useMaintenanceStore(state => state.addWorkOrder)
+  const removeWorkOrder = useMaintenanceStore(state => state.removeWorkOrder)
+  const startWorkOrder = useMaintenanceStore(state => state.startWorkOrder)
+  const completeWorkOrder = useMaintenanceStore(state => state.completeWorkOrder)
+  const rates = useActiveRateProfile()
+  const [draft, setDraft] = useState(emptyDraft)
+  const [showForm, setShowForm] = useState(false)
+  const [result, setResult] = useState<TransactionResult | null>(null)
+
+  const draftEquipment = equipment.find(eq => eq.id === draft.equipmentId)
+  const equipmentName = (id: string) => equipment.find(eq => eq.id === id)?.name || 'Unknown equipment'
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const order: WorkOrder = {
+      ...draft,
+      id: crypto.randomUUID(),
+      status: 'scheduled',
+      scheduledDate: new Date(draft.scheduledDate).toISOString(),
+      created: new Date().toISOString()
+    }
+    addWorkOrder(order)
+
+    const error = useMaintenanceStore.getState().error
+    setResult(error ? { success: false, message: error } : { success: true, message: `Scheduled "${order.title}"` })
+    if (!error) {
+      setDraft(emptyDraft())
+      setShowForm(false)
+    }
+  }
+
+  const updatePart = (index: number, updates: Partial<WorkOrderPart>) => {
+    setDraft(prev => ({
+      ...prev,
+      parts: prev.parts.map((part, i) => (i === index ? { ...part, ...updates } : part))
+    }))
+  }
+
+  const sortedOrders = [...workOrders].sort((a, b) => {
+    // Open work first, soonest due at the top; completed work after, most recent first
+    if ((a.status === 'completed') !== (b.status === 'completed')) {
+      return a.status === 'completed' ? 1 : -1
+    }
+    return a.status === 'completed'
+      ? (b.completedDate || '').localeCompare(a.completedDate || '')
+      : a.scheduledDate.localeCompare(b.scheduledDate)
+  })
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Work Orders</h3>
+          <p className="text-sm text-gray-500">
+            Labor is costed at {formatCurrency(getLaborRate(rates))}/hour from the {rates.name} profile
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="w-5 h-5 mr-2" />
+          New Work Order
+        </button>
+      </div>
+
+      {result && (
+        <div className={`px-6 pt-4 flex items-center text-sm ${result.success ? 'text-green-700' : 'text-red-600'}`}>
+          {result.success
+            ? <CheckCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+            : <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />}
+          {result.message}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="p-6 border-b border-gray-200 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Equipment</label>
+              <select
+                value={draft.equipmentId}
+                onChange={(e) => setDraft({ ...draft, equipmentId: e.target.value, serialNumber: '' })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                required
+              >
+                <option value="">Select equipment</option>
+                {equipment.map(eq => (
+                  <option key={eq.id} value={eq.id}>{eq.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Unit</label>
+              <select
+                value={draft.serialNumber}
+                onChange={(e) => setDraft({ ...draft, serialNumber: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                required
+              >
+                <option value="">Select unit</option>
+                {draftEquipment?.units.filter(unit => unit.status !== 'disposed').map(unit => (
+                  <option key={unit.serialNumber} value={unit.serialNumber}>
+                    {unit.serialNumber} ({unit.status}, {Math.round(getHealthPercent(unit.degradation))}%)
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Title</label>
+              <input
+                type="text"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Scheduled Date</label>
+              <input
+                type="date"
+                value={draft.scheduledDate}
+                onChange={(e) => setDraft({ ...draft, scheduledDate: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Labor Hours</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={draft.laborHours}
+                onChange={(e) => setDraft({ ...draft, laborHours: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Health Restored (% of max)</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={draft.restorationPercent}
+                onChange={(e) => setDraft({ ...draft, restorationPercent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Description</label>
+            <textarea
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              rows={2}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="block text-sm font-medium text-gray-700">Parts</label>
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, parts: [...draft.parts, { consumableId: '', quantity: 1 }] })}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Add part
+              </button>
+            </div>
+            {draft.parts.map((part, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <select
+                  value={part.consumableId}
+                  onChange={(e) => updatePart(index, { consumableId: e.target.value })}
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                >
+                  <option value="">Select consumable</option>
+                  {consumables.map(c => (
+                    <option key={c.id} value={c.id}>{c.name} ({c.stockLevel} {c.unit} on hand)</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="1"
+                  value={part.quantity}
+                  onChange={(e) => updatePart(index, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className="w-24 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, parts: draft.parts.filter((_, i) => i !== index) })}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Schedule
+            </button>
+          </div>
+        </form>
+      )}
+
+      {sortedOrders.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">
+          <Wrench className="mx-auto h-12 w-12 text-gray-400" />
+          <p className="mt-2 text-sm">No work orders yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Work order', 'Unit', 'Status', 'Scheduled', 'Labor', 'Health', 'Cost', ''].map(heading => (
+                  <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sortedOrders.map(order => (
+                <tr key={order.id}>
+                  <td className="px-6 py-4">
+                    <div className="text-sm font-medium text-gray-900">{order.title}</div>
+                    <div className="text-sm text-gray-500">{equipmentName(order.equipmentId)}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{order.serialNumber}</td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[order.status]}`}>
+                      {order.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatDate(order.scheduledDate)}
+                    {order.completedDate && (
+                      <div className="text-xs">done {formatDate(order.completedDate)}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {order.laborHours} h{order.parts.length > 0 && `, ${order.parts.length} part${order.parts.length > 1 ? 's' : ''}`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {order.status === 'completed' && order.healthBefore !== undefined && order.healthAfter !== undefined
+                      ? `${order.healthBefore.toFixed(0)}% → ${order.healthAfter.toFixed(0)}%`
+                      : `+${order.restorationPercent}%`}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {order.actualCost !== undefined ? formatCurrency(order.actualCost) : '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-3">
+                    {order.status === 'scheduled' && (
+                      <>
+                        <button
+                          onClick={() => setResult(startWorkOrder(order.id))}
+                          className="text-blue-600 hover:text-blue-800"
+                          title="Start"
+                        >
+                          <Play className="w-4 h-4 inline" />
+                        </button>
+                        <button
+                          onClick={() => removeWorkOrder(order.id)}
+                          className="text-gray-400 hover:text-red-600"
+                          title="Cancel"
+                        >
+                          <Trash2 className="w-4 h-4 inline" />
+                        </button>
+                      </>
+                    )}
+                    {order.status !== 'completed' && (
+                      <button
+                        onClick={() => setResult(completeWorkOrder(order.id))}
+                        className="text-green-600 hover:text-green-800"
+                        title="Complete"
+                      >
+                        <CheckCircle className="w-4 h-4 inline" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
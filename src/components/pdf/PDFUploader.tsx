@@ -1,15 +1,19 @@
 import { useState, useRef } from 'react'
 import { Upload, File, CheckCircle, AlertCircle, X } from 'lucide-react'
 import { PDFViewer } from './PDFViewer'
+import { QuoteImport } from './QuoteImport'
+import { PDFParserService, type PDFExtractedData } from '@/services/pdfParser'
 
 interface UploadedFile {
   id: string
   name: string
   status: 'processing' | 'success' | 'error'
   message?: string
-  data?: any
+  data?: PDFExtractedData
 }
 
+const pdfParser = PDFParserService.getInstance()
+
 export function PDFUploader() {
   const [files, setFiles] = useState<UploadedFile[]>([])
   const [isDragging, setIsDragging] = useState(false)
@@ -37,19 +41,32 @@ export function PDFUploader() {
     }])
 
     try {
-      // Here you would implement the actual PDF parsing logic
-      // For now, we'll simulate processing with a timeout
-      await new Promise(resolve => setTimeout(resolve, 1500))
+      const validation = await pdfParser.validatePDF(file)
+      if (!validation.isValid) {
+        throw new Error(validation.issues?.join(', ') || 'Invalid PDF file')
+      }
+
+      const data = await pdfParser.parsePDF(file)
+      const tableCount = data.tables?.length || 0
 
       setFiles(prev => prev.map(f => 
         f.id === id
-          ? { ...f, status: 'success', message: 'File processed successfully' }
+          ? {
+              ...f,
+              status: 'success',
+              message: `Extracted ${tableCount} ${tableCount === 1 ? 'table' : 'tables'} from ${data.pageCount} ${data.pageCount === 1 ? 'page' : 'pages'}`,
+              data
+            }
           : f
       ))
     } catch (error) {
       setFiles(prev => prev.map(f => 
         f.id === id
-          ? { ...f, status: 'error', message: 'Failed to process file' }
+          ? {
+              ...f,
+              status: 'error',
+              message: error instanceof Error ? error.message : 'Failed to process file'
+            }
           : f
       ))
     }
@@ -178,8 +195,11 @@ export function PDFUploader() {
       )}
 
       {selectedFile && (
-        <div className="bg-white rounded-lg shadow p-4">
+        <div className="bg-white rounded-lg shadow p-4 space-y-4">
           <PDFViewer file={selectedFile} />
+          {selectedFile.data?.quote && selectedFile.data.quote.lines.length > 0 && (
+            <QuoteImport key={selectedFile.id} quote={selectedFile.data.quote} />
+          )}
         </div>
       )}
     </div>
@@ -1,11 +1,12 @@
 import { useState, useEffect } from 'react'
 import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut, RotateCw } from 'lucide-react'
+import type { PDFExtractedData } from '@/services/pdfParser'
 
 interface PDFViewerProps {
   file: {
     id: string
     name: string
-    data?: any
+    data?: PDFExtractedData
   }
 }
 
@@ -18,12 +19,16 @@ export function PDFViewer({ file }: PDFViewerProps) {
   useEffect(() => {
     // In a real implementation, you would load and render the PDF here
     // using a library like pdf.js
-    setTotalPages(1)
+    setTotalPages(file.data?.pageCount || 1)
     setCurrentPage(1)
     setScale(1)
     setRotation(0)
   }, [file])
 
+  const pageTables = (file.data?.tables || []).filter(
+    table => table.page === undefined || table.page === currentPage
+  )
+
   const nextPage = () => {
     if (currentPage < totalPages) {
       setCurrentPage(prev => prev + 1)
@@ -106,9 +111,45 @@ export function PDFViewer({ file }: PDFViewerProps) {
 
       <div className="bg-gray-100 p-4 rounded-lg">
         <h4 className="text-sm font-medium text-gray-900">Extracted Information</h4>
-        <p className="text-sm text-gray-500 mt-1">
-          No information has been extracted from this PDF yet.
-        </p>
+        {pageTables.length === 0 ? (
+          <p className="text-sm text-gray-500 mt-1">
+            No tables were found on this page.
+          </p>
+        ) : (
+          <div className="mt-2 space-y-4">
+            {pageTables.map((table, index) => (
+              <div key={index} className="overflow-x-auto bg-white rounded-md">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {table.headers.map((header, i) => (
+                        <th key={i} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {header}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {table.rows.map((row, rowIndex) => (
+                      <tr key={rowIndex}>
+                        {row.map((cell, i) => (
+                          <td key={i} className="px-3 py-2 whitespace-nowrap text-gray-700">
+                            {cell}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        )}
+        {file.data?.equipment && file.data.equipment.length > 0 && (
+          <p className="text-sm text-gray-500 mt-2">
+            Identified {file.data.equipment.length} equipment items
+          </p>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,138 @@
+import { useState } from 'react'
+import { AlertCircle, CheckCircle } from 'lucide-react'
+import type { ExtractedQuote } from '@/types/vendors'
+import { useEquipmentStore } from '@/stores/equipmentStore'
+import { useInventoryStore } from '@/stores/inventoryStore'
+import { useSettingsStore, useVendors } from '@/stores/settingsStore'
+import { PDFParserService } from '@/services/pdfParser'
+import { formatCurrency, formatDate } from '@/utils/formatters'
+
+const pdfParser = PDFParserService.getInstance()
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500'
+const NEW_VENDOR = 'new'
+
+interface QuoteImportProps {
+  quote: ExtractedQuote
+}
+
+// Lands the priced lines of a quote document in the vendor catalog
+export function QuoteImport({ quote }: QuoteImportProps) {
+  const equipment = useEquipmentStore(state => state.equipment)
+  const consumables = useInventoryStore(state => state.consumables)
+  const vendors = useVendors()
+  const addVendor = useSettingsStore(state => state.addVendor)
+  const importPriceQuotes = useSettingsStore(state => state.importPriceQuotes)
+  const detected = vendors.find(v => v.name.toLowerCase() === quote.vendorName?.toLowerCase())
+  const [vendorId, setVendorId] = useState(detected?.id || (vendors[0]?.id ?? NEW_VENDOR))
+  const [vendorName, setVendorName] = useState(quote.vendorName || '')
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  const handleImport = () => {
+    let targetId = vendorId
+    if (vendorId === NEW_VENDOR) {
+      const now = new Date().toISOString()
+      targetId = crypto.randomUUID()
+      addVendor({
+        id: targetId,
+        name: vendorName.trim(),
+        contact: { name: '', email: '', phone: '' },
+        leadTimeDays: quote.leadTimeDays ?? 0,
+        minimumOrder: 0,
+        terms: '',
+        notes: 'Added from an imported quote',
+        created: now,
+        updated: now
+      })
+      const error = useSettingsStore.getState().error
+      if (error) {
+        setResult({ success: false, message: error })
+        return
+      }
+      setVendorId(targetId)
+    }
+
+    const { quotes, unmatched } = pdfParser.toPriceQuotes(quote, targetId, equipment, consumables)
+    if (quotes.length === 0) {
+      setResult({ success: false, message: 'No quoted line matches an equipment or consumable name' })
+      return
+    }
+    importPriceQuotes(quotes)
+    const error = useSettingsStore.getState().error
+    setResult(error
+      ? { success: false, message: error }
+      : {
+          success: true,
+          message: `Added ${quotes.length} ${quotes.length === 1 ? 'quote' : 'quotes'} to the catalog` +
+            (unmatched.length > 0 ? `; no catalog item for ${unmatched.join(', ')}` : '')
+        })
+  }
+
+  return (
+    <div className="bg-gray-100 p-4 rounded-lg space-y-4">
+      <div>
+        <h4 className="text-sm font-medium text-gray-900">Vendor Quote</h4>
+        <p className="text-sm text-gray-500">
+          {quote.lines.length} priced {quote.lines.length === 1 ? 'line' : 'lines'}
+          {quote.reference && ` · ${quote.reference}`}
+          {quote.validUntil && ` · valid until ${formatDate(quote.validUntil)}`}
+          {quote.leadTimeDays !== undefined && ` · ${quote.leadTimeDays} day lead time`}
+        </p>
+      </div>
+
+      <ul className="text-sm text-gray-700 bg-white rounded-md divide-y divide-gray-200">
+        {quote.lines.map((line, index) => (
+          <li key={index} className="px-3 py-2 flex justify-between">
+            <span>{line.description}</span>
+            <span className="text-gray-500">{line.minQuantity}+ at {formatCurrency(line.unitPrice)}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Vendor</label>
+          <select
+            value={vendorId}
+            onChange={(e) => setVendorId(e.target.value)}
+            className={inputClass}
+          >
+            {vendors.map(vendor => (
+              <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+            ))}
+            <option value={NEW_VENDOR}>New vendor</option>
+          </select>
+        </div>
+        {vendorId === NEW_VENDOR && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Vendor Name</label>
+            <input
+              type="text"
+              value={vendorName}
+              onChange={(e) => setVendorName(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      {result && (
+        <div className={`flex items-center text-sm ${result.success ? 'text-green-700' : 'text-red-600'}`}>
+          {result.success
+            ? <CheckCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+            : <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />}
+          {result.message}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleImport}
+          className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+        >
+          Import to Vendor Catalog
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react'
+import { AlertCircle, Plus, ShieldCheck, Trash2 } from 'lucide-react'
+import { useSettingsStore, useApprovers } from '@/stores/settingsStore'
+import { formatCurrency } from '@/utils/formatters'
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500'
+
+const emptyDraft = { name: '', role: '', approvalLimit: '' }
+
+export function ApproverManager() {
+  const approvers = useApprovers()
+  const addApprover = useSettingsStore(state => state.addApprover)
+  const removeApprover = useSettingsStore(state => state.removeApprover)
+  const error = useSettingsStore(state => state.error)
+  const [draft, setDraft] = useState<typeof emptyDraft | null>(null)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft) return
+
+    addApprover({
+      id: crypto.randomUUID(),
+      name: draft.name,
+      role: draft.role,
+      approvalLimit: parseFloat(draft.approvalLimit)
+    })
+    if (!useSettingsStore.getState().error) {
+      setDraft(null)
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Procurement Approvers</h3>
+          <p className="text-sm text-gray-500">Who may approve procurement, and up to what cost per need</p>
+        </div>
+        <button
+          onClick={() => setDraft(draft ? null : emptyDraft)}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="w-5 h-5 mr-2" />
+          New Approver
+        </button>
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSubmit} className="p-6 border-b border-gray-200 space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Role</label>
+              <input
+                type="text"
+                value={draft.role}
+                onChange={(e) => setDraft({ ...draft, role: e.target.value })}
+                placeholder="e.g. Supply officer"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Approval Limit</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={draft.approvalLimit}
+                onChange={(e) => setDraft({ ...draft, approvalLimit: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex items-center text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mr-2" />
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Save Approver
+            </button>
+          </div>
+        </form>
+      )}
+
+      {approvers.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">
+          <ShieldCheck className="mx-auto h-12 w-12 text-gray-400" />
+          <p className="mt-2 text-sm">No approvers yet; procurement cannot be approved until one is added</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {approvers.map(approver => (
+            <li key={approver.id} className="px-6 py-4 flex justify-between items-center">
+              <div>
+                <h4 className="text-sm font-medium text-gray-900">{approver.name}</h4>
+                <p className="text-sm text-gray-500">
+                  {approver.role && `${approver.role} · `}Up to {formatCurrency(approver.approvalLimit)}
+                </p>
+              </div>
+              <button
+                onClick={() => removeApprover(approver.id)}
+                className="text-gray-400 hover:text-red-600"
+                title="Remove approver"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import { useState } from 'react'
+import { Plus, Trash2, Save, CheckCircle } from 'lucide-react'
+import { useSettingsStore, useRateProfiles, useSettingsError } from '@/stores/settingsStore'
+import type { CostRateProfile } from '@/types/rates'
+import { formatCurrency, formatPercentage } from '@/utils/formatters'
+
+export function RateProfileManager() {
+  const rateProfiles = useRateProfiles()
+  const error = useSettingsError()
+  const {
+    activeRateProfileId,
+    addRateProfile,
+    updateRateProfile,
+    removeRateProfile,
+    setActiveRateProfile
+  } = useSettingsStore()
+  const [editing, setEditing] = useState<CostRateProfile | null>(null)
+  const isNew = editing !== null && !rateProfiles.some(p => p.id === editing.id)
+
+  const startNewProfile = () => {
+    const base = rateProfiles.find(p => p.id === activeRateProfileId) || rateProfiles[0]
+    const now = new Date().toISOString()
+    setEditing({
+      ...base,
+      id: crypto.randomUUID(),
+      name: `${base.name} (copy)`,
+      created: now,
+      updated: now
+    })
+  }
+
+  const handleSave = () => {
+    if (!editing) return
+    if (isNew) {
+      addRateProfile(editing)
+    } else {
+      updateRateProfile(editing)
+    }
+    setEditing(null)
+  }
+
+  const handleNumberChange = (field: keyof CostRateProfile, value: string, percent = false) => {
+    if (!editing) return
+    const parsed = parseFloat(value) || 0
+    setEditing({ ...editing, [field]: percent ? parsed / 100 : parsed })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Cost Rate Profiles</h3>
+          <p className="text-sm text-gray-500">Rates used by cost calculations and reports</p>
+        </div>
+        <button
+          onClick={startNewProfile}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+        >
+          <Plus className="w-5 h-5 mr-2" />
+          New Profile
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-6 pt-4 text-sm text-red-600">{error}</div>
+      )}
+
+      <ul className="divide-y divide-gray-200">
+        {rateProfiles.map(profile => (
+          <li key={profile.id} className="p-6 flex justify-between items-center">
+            <div>
+              <div className="flex items-center">
+                <h4 className="text-sm font-medium text-gray-900">{profile.name}</h4>
+                {profile.id === activeRateProfileId && (
+                  <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                    Default
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-gray-500">{profile.description}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                Personnel {formatCurrency(profile.personnelCostPerMonth)}/mo ·
+                Operations {formatPercentage(profile.operationalRate * 100)} ·
+                Maintenance {formatPercentage(profile.maintenanceRate * 100)}
+              </p>
+            </div>
+            <div className="flex items-center space-x-4">
+              {profile.id !== activeRateProfileId && (
+                <button
+                  onClick={() => setActiveRateProfile(profile.id)}
+                  className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+                >
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Make default
+                </button>
+              )}
+              <button
+                onClick={() => setEditing(profile)}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => removeRateProfile(profile.id)}
+                disabled={rateProfiles.length === 1}
+                className="p-2 text-red-600 hover:text-red-800 rounded-full hover:bg-red-50 disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {editing && (
+        <form
+          onSubmit={(e) => { e.preventDefault(); handleSave() }}
+          className="p-6 border-t border-gray-200 space-y-4"
+        >
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Description</label>
+              <input
+                type="text"
+                value={editing.description}
+                onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Personnel ($/person/month)</label>
+              <input
+                type="number"
+                min="0"
+                value={editing.personnelCostPerMonth}
+                onChange={(e) => handleNumberChange('personnelCostPerMonth', e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Operations (% of acquisition)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={editing.operationalRate * 100}
+                onChange={(e) => handleNumberChange('operationalRate', e.target.value, true)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Maintenance (% of acquisition)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={editing.maintenanceRate * 100}
+                onChange={(e) => handleNumberChange('maintenanceRate', e.target.value, true)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex items-center px-4 py-2 bg-blue-600 border border-transparent rounded-md text-sm font-medium text-white hover:bg-blue-700"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {isNew ? 'Add' : 'Update'} Profile
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react'
+import { Database, RefreshCw, CheckCircle, AlertCircle } from 'lucide-react'
+import { PersistenceService, type StorageHealth as StorageHealthData } from '@/services/persistence'
+import { SCHEMA_VERSION } from '@/stores/migrations'
+import { formatDate, formatFileSize } from '@/utils/formatters'
+
+const persistence = PersistenceService.getInstance()
+
+export function StorageHealth() {
+  const [health, setHealth] = useState<StorageHealthData | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const refresh = async () => {
+    setLoading(true)
+    try {
+      setHealth(await persistence.getHealth())
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div className="flex items-center">
+          <Database className="h-6 w-6 text-blue-600" />
+          <div className="ml-3">
+            <h3 className="text-lg font-medium text-gray-900">Storage Health</h3>
+            <p className="text-sm text-gray-500">
+              Local IndexedDB storage, schema v{SCHEMA_VERSION}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={refresh}
+          disabled={loading}
+          className="flex items-center px-4 py-2 text-gray-600 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-5 h-5 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {health && (
+        <div className="p-6 space-y-4">
+          <div className="flex items-center text-sm">
+            {health.available ? (
+              <CheckCircle className="w-4 h-4 mr-2 text-green-500" />
+            ) : (
+              <AlertCircle className="w-4 h-4 mr-2 text-red-500" />
+            )}
+            <span className={health.available ? 'text-gray-700' : 'text-red-600'}>
+              {health.available
+                ? `Storage available. Last saved ${health.lastSaved ? formatDate(health.lastSaved, 'long') : 'never'}`
+                : health.error}
+            </span>
+          </div>
+
+          {health.writeError && (
+            <div className="flex items-center text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mr-2" />
+              {health.writeError}
+            </div>
+          )}
+
+          {health.stores.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Store
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Schema
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Records
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Size
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Last Saved
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {health.stores.map((store) => (
+                    <tr key={store.name}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {store.name}
+                      </td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm ${
+                        store.version === SCHEMA_VERSION ? 'text-gray-500' : 'text-yellow-600'
+                      }`}>
+                        v{store.version}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {Object.entries(store.records)
+                          .map(([key, count]) => `${key}: ${count}`)
+                          .join(', ') || '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatFileSize(store.size)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDate(store.lastSaved, 'long')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+import { useState, useRef } from 'react'
+import { Download, Upload, AlertCircle, CheckCircle } from 'lucide-react'
+import {
+  exportWorkspace,
+  serializeWorkspace,
+  parseWorkspace,
+  validateWorkspace,
+  diffWorkspace,
+  importWorkspace
+} from '@/stores/workspace'
+import type {
+  WorkspaceBundle,
+  WorkspaceCollection,
+  WorkspaceDiff,
+  WorkspaceImportMode
+} from '@/types/workspace'
+import { formatDate } from '@/utils/formatters'
+
+const COLLECTION_LABELS: Record<WorkspaceCollection, string> = {
+  equipment: 'Equipment',
+  combinations: 'Combinations',
+  consumables: 'Consumables',
+  transactions: 'Transactions',
+  procurementNeeds: 'Procurement needs',
+  purchaseOrders: 'Purchase orders',
+  workOrders: 'Work orders',
+  maintenancePlans: 'Maintenance plans',
+  reports: 'Reports',
+  rateProfiles: 'Rate profiles',
+  savedMappings: 'Import mappings',
+  scenarios: 'Cost scenarios',
+  budgets: 'Budgets',
+  approvers: 'Approvers',
+  vendors: 'Vendors',
+  priceQuotes: 'Price quotes'
+}
+
+export function WorkspaceTransfer() {
+  const [bundle, setBundle] = useState<WorkspaceBundle | null>(null)
+  const [diff, setDiff] = useState<WorkspaceDiff | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+  const [mode, setMode] = useState<WorkspaceImportMode>('merge')
+  const [message, setMessage] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleExport = () => {
+    const blob = serializeWorkspace(exportWorkspace())
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `workspace-${new Date().toISOString().slice(0, 10)}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleFile = async (file: File) => {
+    setMessage(null)
+    try {
+      const parsed = parseWorkspace(await file.text())
+      setBundle(parsed)
+      setErrors(validateWorkspace(parsed))
+      setDiff(diffWorkspace(parsed))
+    } catch (error) {
+      setBundle(null)
+      setDiff(null)
+      setErrors([error instanceof Error ? error.message : 'Failed to read workspace file'])
+    }
+  }
+
+  const handleImport = () => {
+    if (!bundle) return
+    try {
+      importWorkspace(bundle, mode)
+      setMessage(`Workspace ${mode === 'merge' ? 'merged' : 'replaced'} from export of ${formatDate(bundle.exportedAt, 'long')}`)
+      setBundle(null)
+      setDiff(null)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to import workspace'])
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Workspace</h3>
+          <p className="text-sm text-gray-500">
+            Move all equipment, inventory, reports and settings between machines
+          </p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={handleExport}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            <Download className="w-5 h-5 mr-2" />
+            Export
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+          >
+            <Upload className="w-5 h-5 mr-2" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          />
+        </div>
+      </div>
+
+      {message && (
+        <div className="px-6 pt-4 flex items-center text-sm text-green-700">
+          <CheckCircle className="w-4 h-4 mr-2" />
+          {message}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="px-6 pt-4 space-y-1">
+          {errors.slice(0, 10).map((error, index) => (
+            <div key={index} className="flex items-center text-sm text-red-600">
+              <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+              {error}
+            </div>
+          ))}
+          {errors.length > 10 && (
+            <p className="text-sm text-red-600">…and {errors.length - 10} more</p>
+          )}
+        </div>
+      )}
+
+      {bundle && diff && (
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-700">
+            Export from {formatDate(bundle.exportedAt, 'long')}
+          </p>
+
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Collection', 'New', 'Changed', 'Unchanged', 'Only here'].map(heading => (
+                  <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {(Object.keys(COLLECTION_LABELS) as WorkspaceCollection[]).map(collection => (
+                <tr key={collection}>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {COLLECTION_LABELS[collection]}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-green-700">
+                    {diff[collection].added.length}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-yellow-700">
+                    {diff[collection].updated.length}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                    {diff[collection].unchanged.length}
+                  </td>
+                  <td className={`px-6 py-3 whitespace-nowrap text-sm ${
+                    mode === 'replace' && diff[collection].missing.length > 0 ? 'text-red-600' : 'text-gray-500'
+                  }`}>
+                    {diff[collection].missing.length}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-6">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={mode === 'merge'}
+                  onChange={() => setMode('merge')}
+                  className="mr-2"
+                />
+                Merge (keep records only on this machine)
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  checked={mode === 'replace'}
+                  onChange={() => setMode('replace')}
+                  className="mr-2"
+                />
+                Replace (remove records not in the export)
+              </label>
+            </div>
+            <button
+              onClick={handleImport}
+              disabled={errors.length > 0}
+              className="px-4 py-2 bg-blue-600 rounded-md text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Apply import
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
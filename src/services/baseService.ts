@@ -0,0 +1,125 @@
+import type { ValidationResult } from '@/utils/validators'
+
+export class ServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly service: string,
+    public readonly operation: string,
+    public readonly details: string[] = []
+  ) {
+    super(message)
+    this.name = 'ServiceError'
+  }
+}
+
+// Every service can emit errors; subclasses add their own events on top
+export interface BaseServiceEvents {
+  error: ServiceError
+}
+
+type Listener<T> = (payload: T) => void
+type Validator = (input: unknown) => ValidationResult
+
+export abstract class BaseService<TEvents extends object = {}> {
+  private static instances = new Map<Function, BaseService<object>>()
+
+  private listeners = new Map<PropertyKey, Set<Listener<unknown>>>()
+  private initialization: Promise<void> | null = null
+  protected validators: Record<string, Validator> = {}
+
+  protected constructor() {}
+
+  // One instance per subclass, typed as that subclass. Subclass constructors are public so the
+  // class satisfies `new () => T`; get instances through here, not `new`
+  static getInstance<T extends BaseService<object>>(this: new () => T): T {
+    let instance = BaseService.instances.get(this) as T | undefined
+    if (!instance) {
+      instance = new this()
+      BaseService.instances.set(this, instance)
+      // Failures reach `error` listeners and anyone awaiting ready()
+      instance.ready().catch(() => {})
+    }
+    return instance
+  }
+
+  // Resolves once initializeService has run; safe to call repeatedly
+  ready(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.initializeService().catch((error) => {
+        this.initialization = null
+        this.handleError(error, 'initializeService')
+      })
+    }
+    return this.initialization
+  }
+
+  on<K extends keyof (TEvents & BaseServiceEvents)>(
+    event: K,
+    listener: Listener<(TEvents & BaseServiceEvents)[K]>
+  ): () => void {
+    const listeners = this.listeners.get(event) || new Set()
+    listeners.add(listener as Listener<unknown>)
+    this.listeners.set(event, listeners)
+    return () => this.off(event, listener)
+  }
+
+  off<K extends keyof (TEvents & BaseServiceEvents)>(
+    event: K,
+    listener: Listener<(TEvents & BaseServiceEvents)[K]>
+  ): void {
+    this.listeners.get(event)?.delete(listener as Listener<unknown>)
+  }
+
+  protected emit<K extends keyof (TEvents & BaseServiceEvents)>(
+    event: K,
+    payload: (TEvents & BaseServiceEvents)[K]
+  ): void {
+    this.dispatch(event, payload)
+  }
+
+  private dispatch(event: PropertyKey, payload: unknown): void {
+    // One failing listener must not stop the others
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        listener(payload)
+      } catch (error) {
+        console.error(`${this.constructor.name}: listener for "${String(event)}" failed`, error)
+      }
+    })
+  }
+
+  protected validateInput(input: unknown, type: string): void {
+    if (input === null || typeof input !== 'object') {
+      throw new ServiceError(`Invalid ${type}: expected an object`, this.constructor.name, 'validateInput')
+    }
+
+    const validator = this.validators[type]
+    if (!validator) return
+
+    const result = validator(input)
+    if (!result.isValid) {
+      throw new ServiceError(
+        `Invalid ${type}: ${result.errors.join(', ')}`,
+        this.constructor.name,
+        'validateInput',
+        result.errors
+      )
+    }
+  }
+
+  // Normalizes the error, notifies `error` listeners and rethrows
+  protected handleError(error: unknown, operation: string): never {
+    const serviceError = error instanceof ServiceError
+      ? error
+      : new ServiceError(
+          error instanceof Error ? error.message : String(error),
+          this.constructor.name,
+          operation
+        )
+
+    this.dispatch('error', serviceError)
+    throw serviceError
+  }
+
+  protected async initializeService(): Promise<void> {}
+}
@@ -1,36 +1,34 @@
-import type { Equipment, EquipmentCombination } from '@/types/equipment'
+import type { Equipment, EquipmentCombination, Consumable, OperatingTempo } from '@/types/equipment'
+import type { CostBreakdown } from '@/types/reports'
+import type { CostRateProfile } from '@/types/rates'
+import type { LifecycleCost, LifecycleCostYear, LifecycleOptions } from '@/types/lifecycle'
+import type { CostScenario, EscalatedCost, ProjectionOverrides } from '@/types/scenarios'
 import { DegradationTrackerService } from './degradationTracker'
+import { DEFAULT_RATE_PROFILE } from '@/utils/rateProfiles'
+import { getEffectiveUnitPrice } from '@/utils/helpers'
+import {
+  DAYS_PER_MONTH,
+  resolveTempo,
+  getUsesPerMonth,
+  getUsageForPeriod,
+  getTempoCostFactor,
+  scaleTempo
+} from '@/utils/tempo'
+import {
+  applyUsageToLimits,
+  getHealthPercent,
+  getLimitingRemainingLife,
+  restoreLimits
+} from '@/utils/degradationModels'
+import { DEFAULT_LIFECYCLE_OPTIONS, getDepreciationSchedule, getDiscountFactor } from '@/utils/depreciation'
 
-interface CostBreakdown {
-  acquisition: number
-  operational: number
-  maintenance: number
-  personnel: number
-  consumables: number
-  total: number
-  details?: {
-    itemizedCosts: Array<{
-      name: string
-      category: string
-      cost: number
-    }>
-    personnelBreakdown: {
-      count: number
-      costPerPerson: number
-    }
-    consumablesBreakdown: Array<{
-      id: string
-      units: number
-      costPerUnit: number
-      totalCost: number
-    }>
-  }
-}
+type ConsumableCostLine = NonNullable<CostBreakdown['details']>['consumablesBreakdown'][number]
 
 interface ProjectedCosts {
   monthly: CostBreakdown[]
   quarterly: CostBreakdown[]
-  yearly: CostBreakdown
+  annual: CostBreakdown[]
+  yearly: CostBreakdown  // The whole horizon, which is a year for a 12-month projection
   projections: Array<{
     date: string
     costs: CostBreakdown
@@ -40,8 +38,6 @@ interface ProjectedCosts {
 export class CostCalculatorService {
   private static instance: CostCalculatorService
   private degradationTracker: DegradationTrackerService
-  private readonly PERSONNEL_COST_PER_MONTH = 5000 // $5000 per person per month
-  private readonly CONSUMABLE_BASE_COST = 100 // $100 per unit base cost
 
   private constructor() {
     this.degradationTracker = DegradationTrackerService.getInstance()
@@ -54,20 +50,34 @@ export class CostCalculatorService {
     return CostCalculatorService.instance
   }
 
-  calculateEquipmentCosts(equipment: Equipment): CostBreakdown {
-    const maintenanceCosts = this.degradationTracker.calculateMaintenanceCosts(equipment)
-    const operationalCost = this.calculateOperationalCost(equipment)
-    const personnelCost = this.calculatePersonnelCost(equipment)
-    const consumablesCost = this.calculateConsumablesCost(equipment)
+  calculateEquipmentCosts(
+    equipment: Equipment,
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE,
+    consumables: Consumable[] = [],
+    date: Date = new Date(),
+    tempo: OperatingTempo = resolveTempo(equipment),
+    lifecycle: LifecycleOptions = DEFAULT_LIFECYCLE_OPTIONS
+  ): CostBreakdown {
+    const maintenanceCosts = this.degradationTracker.calculateMaintenanceCosts(equipment, rates)
+    const depreciation = this.getMonthlyDepreciation(equipment, date, lifecycle, tempo)
+    const operationalCost = this.calculateOperationalCost(equipment, rates, tempo)
+    const personnelCost = this.calculatePersonnelCost(equipment, rates)
+    const usesPerMonth = getUsesPerMonth(tempo)
+    const consumablesBreakdown = this.priceConsumables(
+      equipment.consumables.map(c => ({ id: c.id, units: c.unitsPerUse * usesPerMonth })),
+      consumables,
+      date
+    )
+    const consumablesCost = this.sumConsumables(consumablesBreakdown)
 
     return {
       acquisition: equipment.acquisitionCost,
+      depreciation,
       operational: operationalCost,
       maintenance: maintenanceCosts.monthly,
       personnel: personnelCost,
       consumables: consumablesCost,
-      total: equipment.acquisitionCost + operationalCost + maintenanceCosts.monthly + 
-             personnelCost + consumablesCost,
+      total: depreciation + operationalCost + maintenanceCosts.monthly + personnelCost + consumablesCost,
       details: {
         itemizedCosts: [{
           name: equipment.name,
@@ -76,26 +86,34 @@ export class CostCalculatorService {
         }],
         personnelBreakdown: {
           count: equipment.personnelRequired,
-          costPerPerson: this.PERSONNEL_COST_PER_MONTH
+          costPerPerson: rates.personnelCostPerMonth
         },
-        consumablesBreakdown: equipment.consumables.map(consumable => ({
-          id: consumable.id,
-          units: consumable.unitsPerUse,
-          costPerUnit: this.CONSUMABLE_BASE_COST,
-          totalCost: consumable.unitsPerUse * this.CONSUMABLE_BASE_COST
-        }))
+        consumablesBreakdown
       }
     }
   }
 
-  calculateCombinationCosts(combination: EquipmentCombination, equipment: Equipment[]): CostBreakdown {
+  calculateCombinationCosts(
+    combination: EquipmentCombination,
+    equipment: Equipment[],
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE,
+    consumables: Consumable[] = [],
+    date: Date = new Date()
+  ): CostBreakdown {
     const itemizedCosts = combination.equipment.map(item => {
       const equipmentItem = equipment.find(e => e.id === item.id)
       if (!equipmentItem) throw new Error(`Equipment ${item.id} not found`)
       
-      const costs = this.calculateEquipmentCosts(equipmentItem)
+      const costs = this.calculateEquipmentCosts(
+        equipmentItem,
+        rates,
+        consumables,
+        date,
+        resolveTempo(equipmentItem, combination)
+      )
       return {
         ...costs,
+        id: item.id,
         quantity: item.quantity,
         total: costs.total * item.quantity
       }
@@ -103,6 +121,7 @@ export class CostCalculatorService {
 
     const totalCosts = itemizedCosts.reduce((totals, item) => ({
       acquisition: totals.acquisition + (item.acquisition * item.quantity),
+      depreciation: totals.depreciation + (item.depreciation * item.quantity),
       operational: totals.operational + (item.operational * item.quantity),
       maintenance: totals.maintenance + (item.maintenance * item.quantity),
       personnel: totals.personnel + (item.personnel * item.quantity),
@@ -110,6 +129,7 @@ export class CostCalculatorService {
       total: totals.total + item.total
     }), {
       acquisition: 0,
+      depreciation: 0,
       operational: 0,
       maintenance: 0,
       personnel: 0,
@@ -130,33 +150,88 @@ export class CostCalculatorService {
             const equipmentItem = equipment.find(e => e.id === item.id)
             return total + (equipmentItem?.personnelRequired || 0) * item.quantity
           }, 0),
-          costPerPerson: this.PERSONNEL_COST_PER_MONTH
+          costPerPerson: rates.personnelCostPerMonth
         },
-        consumablesBreakdown: this.calculateCombinationConsumables(combination, equipment)
+        consumablesBreakdown: this.calculateCombinationConsumables(
+          combination,
+          equipment,
+          consumables,
+          date
+        )
       }
     }
   }
 
-  projectCosts(equipment: Equipment[], months: number): ProjectedCosts {
+  // Months run from the first of the start date's month. Wear continues from each item's
+  // current degradation, including the usage between today and a later start
+  projectCosts(
+    equipment: Equipment[],
+    months: number,
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE,
+    consumables: Consumable[] = [],
+    lifecycle: LifecycleOptions = DEFAULT_LIFECYCLE_OPTIONS,
+    overrides: ProjectionOverrides = {},
+    start: Date = new Date()
+  ): ProjectedCosts {
+    const { fleet = {}, inflation = {}, deployments = [] } = overrides
+    // Overlapping deployments run at the highest of their tempo factors
+    const tempoFactors = Array.from({ length: months }, (_, index) =>
+      deployments.reduce((factor, period) =>
+        index >= period.startMonth && index < period.startMonth + period.months
+          ? Math.max(factor, period.tempoFactor)
+          : factor,
+        1
+      )
+    )
+    const now = new Date()
+    const leadMonths = Math.max(
+      0,
+      (start.getFullYear() - now.getFullYear()) * 12 + start.getMonth() - now.getMonth()
+    )
+
     const monthlyProjections = Array.from({ length: months }, (_, index) => {
-      const date = new Date()
-      date.setMonth(date.getMonth() + index)
+      const date = new Date(start.getFullYear(), start.getMonth() + index, 1)
+      const escalation = (category: EscalatedCost) => Math.pow(1 + (inflation[category] || 0), index / 12)
+      const monthsOfUse = leadMonths + tempoFactors.slice(0, index).reduce((total, factor) => total + factor, 0)
 
       const monthlyCosts = equipment.reduce((total, item) => {
-        const costs = this.calculateEquipmentCosts(item)
-        const degradation = this.degradationTracker.calculateDegradation(item, { days: 30 * index })
-        const degradationFactor = degradation.currentValue / degradation.maxValue
+        const baseTempo = overrides.tempo || resolveTempo(item)
+        const units = fleet[item.id] ?? item.quantity
+        // Consumables are priced at the unit price in effect for the projected month, and
+        // depreciation follows the schedule for the item's age in that month
+        const costs = this.calculateEquipmentCosts(
+          item,
+          rates,
+          consumables,
+          date,
+          scaleTempo(baseTempo, tempoFactors[index]),
+          lifecycle
+        )
+        // Each life limit wears by its own measure: cycles and hours follow the tempo of the
+        // months already projected, calendar age follows the months themselves
+        const degradation = this.degradationTracker.calculateDegradation(item, {
+          ...getUsageForPeriod(baseTempo, DAYS_PER_MONTH * monthsOfUse),
+          days: DAYS_PER_MONTH * (leadMonths + index)
+        })
+        const degradationFactor = getHealthPercent(degradation) / 100
 
         return {
-          acquisition: total.acquisition + (costs.acquisition / 12),
-          operational: total.operational + (costs.operational * degradationFactor),
-          maintenance: total.maintenance + (costs.maintenance * (2 - degradationFactor)),
-          personnel: total.personnel + costs.personnel,
-          consumables: total.consumables + costs.consumables,
-          total: 0 // Calculated below
+          // Equipment already held is not bought again; its capital cost appears as depreciation.
+          // Units a scenario adds beyond current holdings are bought in the first projected month
+          acquisition: total.acquisition +
+            (index === 0 ? Math.max(0, units - item.quantity) * item.acquisitionCost : 0),
+          depreciation: total.depreciation + costs.depreciation * units,
+          operational: total.operational +
+            costs.operational * degradationFactor * escalation('operational') * units,
+          maintenance: total.maintenance +
+            costs.maintenance * (2 - degradationFactor) * escalation('maintenance') * units,
+          personnel: total.personnel + costs.personnel * escalation('personnel') * units,
+          consumables: total.consumables + costs.consumables * escalation('consumables') * units,
+          total: 0
         }
       }, {
         acquisition: 0,
+        depreciation: 0,
         operational: 0,
         maintenance: 0,
         personnel: 0,
@@ -164,7 +239,8 @@ export class CostCalculatorService {
         total: 0
       })
 
-      monthlyCosts.total = Object.values(monthlyCosts).reduce((sum, value) => sum + value, 0) - monthlyCosts.total
+      monthlyCosts.total = monthlyCosts.depreciation + monthlyCosts.operational + monthlyCosts.maintenance +
+        monthlyCosts.personnel + monthlyCosts.consumables
       return { date: date.toISOString(), costs: monthlyCosts }
     })
 
@@ -173,16 +249,207 @@ export class CostCalculatorService {
       return this.aggregateCosts(quarterMonths.map(m => m.costs))
     })
 
+    const annualProjections = Array.from({ length: Math.ceil(months / 12) }, (_, index) => {
+      const yearMonths = monthlyProjections.slice(index * 12, (index + 1) * 12)
+      return this.aggregateCosts(yearMonths.map(m => m.costs))
+    })
+
     return {
       monthly: monthlyProjections.map(p => p.costs),
       quarterly: quarterlyProjections,
+      annual: annualProjections,
       yearly: this.aggregateCosts(monthlyProjections.map(p => p.costs)),
       projections: monthlyProjections
     }
   }
 
-  private calculateOperationalCost(equipment: Equipment): number {
-    const baseCost = equipment.acquisitionCost * 0.1 // 10% of acquisition cost
+  // A scenario's rate, fleet and tempo overrides applied to the current equipment library
+  projectScenario(
+    scenario: CostScenario,
+    equipment: Equipment[],
+    rates: CostRateProfile,
+    months: number,
+    consumables: Consumable[] = []
+  ): ProjectedCosts {
+    const fleet = Object.fromEntries(scenario.fleet.map(entry => [entry.equipmentId, entry.quantity]))
+    const scenarioRates = scenario.personnelCostPerMonth !== undefined
+      ? { ...rates, personnelCostPerMonth: scenario.personnelCostPerMonth }
+      : rates
+
+    return this.projectCosts(equipment, months, scenarioRates, consumables, DEFAULT_LIFECYCLE_OPTIONS, {
+      tempo: scenario.tempo,
+      fleet,
+      inflation: {
+        operational: scenario.inflationRate,
+        maintenance: scenario.inflationRate,
+        personnel: scenario.inflationRate,
+        consumables: scenario.inflationRate
+      },
+      deployments: scenario.deployments
+    })
+  }
+
+  // Cost of owning one new unit over the service life, from acquisition through disposal, at the
+  // given tempo; running costs for each year follow the unit's projected health at mid-year
+  calculateLifecycleCost(
+    equipment: Equipment,
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE,
+    consumables: Consumable[] = [],
+    options: LifecycleOptions = DEFAULT_LIFECYCLE_OPTIONS,
+    tempo: OperatingTempo = resolveTempo(equipment),
+    start: Date = new Date()
+  ): LifecycleCost {
+    const acquisition = equipment.acquisitionCost
+    const salvageValue = acquisition * options.salvageRate
+    const disposalCost = acquisition * options.disposalRate
+    const newUnit = restoreLimits(equipment.degradation, 100)
+    const schedule = getDepreciationSchedule(
+      acquisition,
+      options,
+      this.getWearByYear(equipment, tempo, options.serviceLifeYears)
+    )
+
+    const years = schedule.map(({ depreciation, bookValue }, index): LifecycleCostYear => {
+      const date = new Date(start)
+      date.setFullYear(date.getFullYear() + index)
+      const midYear = new Date(date)
+      midYear.setMonth(midYear.getMonth() + 6)
+
+      const degradation = applyUsageToLimits(newUnit, getUsageForPeriod(tempo, DAYS_PER_MONTH * (index * 12 + 6)))
+      const monthly = this.calculateEquipmentCosts({ ...equipment, degradation }, rates, consumables, midYear, tempo, options)
+      const running = (monthly.operational + monthly.maintenance + monthly.consumables + monthly.personnel) * 12
+      const cashFlow = running + (index === schedule.length - 1 ? disposalCost - salvageValue : 0)
+
+      return {
+        year: index + 1,
+        date: date.toISOString(),
+        operational: monthly.operational * 12,
+        maintenance: monthly.maintenance * 12,
+        consumables: monthly.consumables * 12,
+        personnel: monthly.personnel * 12,
+        depreciation,
+        bookValue,
+        cashFlow,
+        presentValue: cashFlow * getDiscountFactor(options.discountRate, index + 1)
+      }
+    })
+
+    const sum = (key: 'operational' | 'maintenance' | 'consumables' | 'personnel' | 'cashFlow' | 'presentValue') =>
+      years.reduce((total, year) => total + year[key], 0)
+
+    return {
+      options,
+      acquisition,
+      operational: sum('operational'),
+      maintenance: sum('maintenance'),
+      consumables: sum('consumables'),
+      personnel: sum('personnel'),
+      disposalCost,
+      salvageValue,
+      totalCost: acquisition + sum('cashFlow'),
+      netPresentValue: acquisition + sum('presentValue'),
+      years
+    }
+  }
+
+  // Each member's lifecycle cost at the combination's tempo, times its quantity
+  calculateCombinationLifecycleCost(
+    combination: EquipmentCombination,
+    equipment: Equipment[],
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE,
+    consumables: Consumable[] = [],
+    options: LifecycleOptions = DEFAULT_LIFECYCLE_OPTIONS,
+    start: Date = new Date()
+  ): LifecycleCost {
+    const members = combination.equipment.map(item => {
+      const equipmentItem = equipment.find(e => e.id === item.id)
+      if (!equipmentItem) throw new Error(`Equipment ${item.id} not found`)
+
+      return {
+        quantity: item.quantity,
+        cost: this.calculateLifecycleCost(
+          equipmentItem,
+          rates,
+          consumables,
+          options,
+          resolveTempo(equipmentItem, combination),
+          start
+        )
+      }
+    })
+
+    const sumMembers = (value: (cost: LifecycleCost) => number) =>
+      members.reduce((total, { quantity, cost }) => total + value(cost) * quantity, 0)
+    const years = (members[0]?.cost.years || []).map((first, index): LifecycleCostYear => {
+      const sumYear = (key: Exclude<keyof LifecycleCostYear, 'year' | 'date'>) =>
+        sumMembers(cost => cost.years[index][key])
+      return {
+        year: first.year,
+        date: first.date,
+        operational: sumYear('operational'),
+        maintenance: sumYear('maintenance'),
+        consumables: sumYear('consumables'),
+        personnel: sumYear('personnel'),
+        depreciation: sumYear('depreciation'),
+        bookValue: sumYear('bookValue'),
+        cashFlow: sumYear('cashFlow'),
+        presentValue: sumYear('presentValue')
+      }
+    })
+
+    return {
+      options,
+      acquisition: sumMembers(cost => cost.acquisition),
+      operational: sumMembers(cost => cost.operational),
+      maintenance: sumMembers(cost => cost.maintenance),
+      consumables: sumMembers(cost => cost.consumables),
+      personnel: sumMembers(cost => cost.personnel),
+      disposalCost: sumMembers(cost => cost.disposalCost),
+      salvageValue: sumMembers(cost => cost.salvageValue),
+      totalCost: sumMembers(cost => cost.totalCost),
+      netPresentValue: sumMembers(cost => cost.netPresentValue),
+      years
+    }
+  }
+
+  // Depreciation charged in the month containing the given date, by the item's age since it was added
+  private getMonthlyDepreciation(
+    equipment: Equipment,
+    date: Date,
+    options: LifecycleOptions,
+    tempo: OperatingTempo
+  ): number {
+    const added = new Date(equipment.dateAdded)
+    const ageMonths = (date.getFullYear() - added.getFullYear()) * 12 + date.getMonth() - added.getMonth()
+    if (isNaN(ageMonths) || ageMonths < 0) return 0
+
+    const schedule = getDepreciationSchedule(
+      equipment.acquisitionCost,
+      options,
+      options.depreciationMethod === 'units-of-production'
+        ? this.getWearByYear(equipment, tempo, options.serviceLifeYears)
+        : []
+    )
+    return (schedule[Math.floor(ageMonths / 12)]?.depreciation || 0) / 12
+  }
+
+  // Share of a new unit's life consumed in each year of service at the tempo, by the most-limiting limit
+  private getWearByYear(equipment: Equipment, tempo: OperatingTempo, years: number): number[] {
+    const newUnit = restoreLimits(equipment.degradation, 100)
+    const remainingAfter = (months: number) =>
+      getLimitingRemainingLife(applyUsageToLimits(newUnit, getUsageForPeriod(tempo, DAYS_PER_MONTH * months)))
+
+    return Array.from({ length: Math.max(1, Math.round(years)) }, (_, index) =>
+      remainingAfter(index * 12) - remainingAfter((index + 1) * 12)
+    )
+  }
+
+  private calculateOperationalCost(
+    equipment: Equipment,
+    rates: CostRateProfile,
+    tempo: OperatingTempo
+  ): number {
+    const baseCost = equipment.acquisitionCost * rates.operationalRate * getTempoCostFactor(tempo)
     const degradation = this.degradationTracker.getHealthStatus(equipment)
     
     // Increase operational costs based on equipment health
@@ -193,52 +460,78 @@ export class CostCalculatorService {
     return baseCost * healthFactor
   }
 
-  private calculatePersonnelCost(equipment: Equipment): number {
-    return equipment.personnelRequired * this.PERSONNEL_COST_PER_MONTH
+  private calculatePersonnelCost(equipment: Equipment, rates: CostRateProfile): number {
+    return equipment.personnelRequired * rates.personnelCostPerMonth
+  }
+
+  private priceConsumables(
+    usage: Array<{ id: string; units: number }>,
+    consumables: Consumable[],
+    date: Date
+  ): ConsumableCostLine[] {
+    return usage.map(({ id, units }) => {
+      const consumable = consumables.find(c => c.id === id)
+
+      // Unknown references are flagged rather than priced with a guess
+      if (!consumable) {
+        return {
+          id,
+          name: 'Unknown consumable',
+          units,
+          costPerUnit: 0,
+          totalCost: 0,
+          resolved: false
+        }
+      }
+
+      const costPerUnit = getEffectiveUnitPrice(consumable, date)
+      return {
+        id,
+        name: consumable.name,
+        units,
+        costPerUnit,
+        totalCost: units * costPerUnit,
+        resolved: true
+      }
+    })
   }
 
-  private calculateConsumablesCost(equipment: Equipment): number {
-    return equipment.consumables.reduce((total, consumable) => {
-      return total + (consumable.unitsPerUse * this.CONSUMABLE_BASE_COST)
-    }, 0)
+  private sumConsumables(lines: ConsumableCostLine[]): number {
+    return lines.reduce((total, line) => total + line.totalCost, 0)
   }
 
   private calculateCombinationConsumables(
     combination: EquipmentCombination,
-    equipment: Equipment[]
-  ): Array<{ id: string; units: number; costPerUnit: number; totalCost: number }> {
-    const consumables = new Map<string, { units: number; costPerUnit: number }>()
+    equipment: Equipment[],
+    consumables: Consumable[],
+    date: Date
+  ): ConsumableCostLine[] {
+    const units = new Map<string, number>()
 
     combination.equipment.forEach(item => {
       const equipmentItem = equipment.find(e => e.id === item.id)
       if (!equipmentItem) return
 
+      const usesPerMonth = getUsesPerMonth(resolveTempo(equipmentItem, combination))
       equipmentItem.consumables.forEach(consumable => {
-        const existing = consumables.get(consumable.id)
-        const units = consumable.unitsPerUse * item.quantity
-
-        if (existing) {
-          existing.units += units
-        } else {
-          consumables.set(consumable.id, {
-            units,
-            costPerUnit: this.CONSUMABLE_BASE_COST
-          })
-        }
+        units.set(
+          consumable.id,
+          (units.get(consumable.id) || 0) + consumable.unitsPerUse * usesPerMonth * item.quantity
+        )
       })
     })
 
-    return Array.from(consumables.entries()).map(([id, data]) => ({
-      id,
-      units: data.units,
-      costPerUnit: data.costPerUnit,
-      totalCost: data.units * data.costPerUnit
-    }))
+    return this.priceConsumables(
+      Array.from(units.entries()).map(([id, total]) => ({ id, units: total })),
+      consumables,
+      date
+    )
   }
 
   private aggregateCosts(costs: CostBreakdown[]): CostBreakdown {
     return costs.reduce((total, current) => ({
       acquisition: total.acquisition + current.acquisition,
+      depreciation: total.depreciation + current.depreciation,
       operational: total.operational + current.operational,
       maintenance: total.maintenance + current.maintenance,
       personnel: total.personnel + current.personnel,
@@ -246,6 +539,7 @@ export class CostCalculatorService {
       total: total.total + current.total
     }), {
       acquisition: 0,
+      depreciation: 0,
       operational: 0,
       maintenance: 0,
       personnel: 0,
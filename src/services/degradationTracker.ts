@@ -1,4 +1,39 @@
-import type { Equipment, DegradationParams } from '@/types/equipment'
+import type {
+  Equipment,
+  DegradationParams,
+  DegradationType,
+  OperatingTempo,
+  UsageBasis,
+  UsageRateOptions
+} from '@/types/equipment'
+import type { InventoryTransaction, ConsumableTransaction } from '@/types/inventory'
+import type { CostRateProfile } from '@/types/rates'
+import type { WorkOrder, MaintenancePlan } from '@/types/maintenance'
+import { MaintenanceManagerService } from './maintenanceManager'
+import { DEFAULT_RATE_PROFILE } from '@/utils/rateProfiles'
+import { resolveTempo, getUsageForPeriod } from '@/utils/tempo'
+import {
+  applyUsageToLimits,
+  getHealthPercent,
+  getLifeLimits,
+  getLimitingRemainingLife,
+  getUsageUntilRemainingLife
+} from '@/utils/degradationModels'
+import { getObservedUtilization } from '@/utils/usageRate'
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+const addDays = (days: number): string => {
+  const date = new Date()
+  date.setDate(date.getDate() + days)
+  return date.toISOString()
+}
+
+// Cycles and hours accrue only on the share of days deployed; calendar age runs regardless
+const getDailyUsageAt = (tempo: OperatingTempo, type: DegradationType, utilization: number): number => {
+  const usage = getUsageForPeriod(tempo, utilization)
+  return type === 'cycles' ? usage.cycles : type === 'hours' ? usage.hours : 1
+}
 
 export class DegradationTrackerService {
   private static instance: DegradationTrackerService
@@ -12,112 +47,152 @@ export class DegradationTrackerService {
     return DegradationTrackerService.instance
   }
 
+  // Usage advances each life limit along its wear curve; a limit only counts usage of its own type
   calculateDegradation(equipment: Equipment, usage: {
     cycles?: number;
     hours?: number;
     days?: number;
   }): DegradationParams {
-    const { degradation } = equipment
-    const newDegradation = { ...degradation }
-
-    switch (degradation.type) {
-      case 'cycles':
-        if (usage.cycles) {
-          newDegradation.currentValue = Math.max(
-            0,
-            degradation.currentValue - (usage.cycles * degradation.degradationRate)
-          )
-        }
-        break
-
-      case 'hours':
-        if (usage.hours) {
-          newDegradation.currentValue = Math.max(
-            0,
-            degradation.currentValue - (usage.hours * degradation.degradationRate)
-          )
-        }
-        break
-
-      case 'time':
-        if (usage.days) {
-          newDegradation.currentValue = Math.max(
-            0,
-            degradation.currentValue - (usage.days * degradation.degradationRate)
-          )
-        }
-        break
+    return {
+      ...applyUsageToLimits(equipment.degradation, usage),
+      lastUpdated: new Date().toISOString()
     }
-
-    newDegradation.lastUpdated = new Date().toISOString()
-    return newDegradation
   }
 
-  predictReplacement(equipment: Equipment): {
+  // Wear follows the usage rate observed in deployment/return history; the band spans the busiest
+  // and quietest stretches of the lookback window
+  predictReplacement(
+    equipment: Equipment,
+    transactions: (InventoryTransaction | ConsumableTransaction)[] = [],
+    options: UsageRateOptions = {}
+  ): {
     daysUntilReplacement: number;
-    estimatedReplacementDate: string;
+    estimatedReplacementDate: string;  // Likely date, at the average observed utilization
+    earliestReplacementDate: string;
+    latestReplacementDate: string;
     currentHealthPercentage: number;
+    remainingLifePercentage: number;
+    limitingType: DegradationType;  // The life limit that runs out first
+    usageBasis: UsageBasis;
+    utilization: number;  // Share of days deployed; 1 when falling back to the tempo
   } {
     const { degradation } = equipment
-    const currentHealth = (degradation.currentValue / degradation.maxValue) * 100
-
-    // Calculate daily degradation rate
-    let dailyRate: number
-    switch (degradation.type) {
-      case 'cycles':
-        dailyRate = degradation.degradationRate * 1 // Assume 1 cycle per day
-        break
-      case 'hours':
-        dailyRate = degradation.degradationRate * 24 // Convert to daily rate
-        break
-      case 'time':
-        dailyRate = degradation.degradationRate
-        break
-    }
-
-    const daysRemaining = Math.floor(degradation.currentValue / dailyRate)
-    const replacementDate = new Date()
-    replacementDate.setDate(replacementDate.getDate() + daysRemaining)
+    const utilization = getObservedUtilization(equipment, transactions, options)
+    const likely = this.getLimitingDays(degradation, utilization.tempo, utilization.likely, 0)
+    const earliest = this.getLimitingDays(degradation, utilization.tempo, utilization.high, 0)
+    const latest = this.getLimitingDays(degradation, utilization.tempo, utilization.low, 0)
 
     return {
-      daysUntilReplacement: daysRemaining,
-      estimatedReplacementDate: replacementDate.toISOString(),
-      currentHealthPercentage: currentHealth
+      daysUntilReplacement: likely.days,
+      estimatedReplacementDate: addDays(likely.days),
+      earliestReplacementDate: addDays(earliest.days),
+      latestReplacementDate: addDays(latest.days),
+      currentHealthPercentage: getHealthPercent(degradation),
+      remainingLifePercentage: getLimitingRemainingLife(degradation),
+      limitingType: likely.type,
+      usageBasis: utilization.basis,
+      utilization: utilization.likely
     }
   }
 
-  calculateMaintenanceCosts(equipment: Equipment): {
+  // Projected health from today until the likely replacement date, following each limit's
+  // wear curve at the observed usage rate
+  getHealthTrajectory(
+    equipment: Equipment,
+    points = 24,
+    transactions: (InventoryTransaction | ConsumableTransaction)[] = [],
+    options: UsageRateOptions = {}
+  ): { date: string; health: number }[] {
+    const { daysUntilReplacement } = this.predictReplacement(equipment, transactions, options)
+    const { tempo, likely } = getObservedUtilization(equipment, transactions, options)
+    const start = Date.now()
+
+    return Array.from({ length: points + 1 }, (_, index) => {
+      const days = (daysUntilReplacement * index) / points
+      const usage = { ...getUsageForPeriod(tempo, days * likely), days }
+      return {
+        date: new Date(start + days * MS_PER_DAY).toISOString(),
+        health: getHealthPercent(applyUsageToLimits(equipment.degradation, usage))
+      }
+    })
+  }
+
+  // Usage per day at the equipment's operating tempo, in the units of the given degradation type
+  getDailyUsage(equipment: Equipment, type: DegradationType = equipment.degradation.type): number {
+    return getDailyUsageAt(resolveTempo(equipment), type, 1)
+  }
+
+  // Days at the operating tempo until the first life limit's remaining life falls to the given share
+  getDaysUntilRemainingLife(equipment: Equipment, remainingShare: number): number {
+    return this.getLimitingDays(equipment.degradation, resolveTempo(equipment), 1, remainingShare).days
+  }
+
+  // Idle equipment does not wear out; predictions are capped at ten years
+  private getLimitingDays(
+    degradation: DegradationParams,
+    tempo: OperatingTempo,
+    utilization: number,
+    remainingShare: number
+  ): { days: number; type: DegradationType } {
+    return getLifeLimits(degradation)
+      .map(limit => {
+        const dailyUsage = getDailyUsageAt(tempo, limit.type, utilization)
+        const usageLeft = getUsageUntilRemainingLife(limit, remainingShare)
+        // The epsilon absorbs bisection error so a whole number of days is not floored one short
+        const days = dailyUsage > 0 ? Math.min(Math.floor(usageLeft / dailyUsage + 1e-9), 3650) : 3650
+        return { days, type: limit.type }
+      })
+      .reduce((first, limit) => (limit.days < first.days ? limit : first))
+  }
+
+  calculateMaintenanceCosts(
+    equipment: Equipment,
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE,
+    plans: MaintenancePlan[] = [],
+    workOrders: WorkOrder[] = []
+  ): {
     monthly: number;
     yearly: number;
     nextMaintenance: string;
   } {
-    const baseMaintenanceCost = equipment.acquisitionCost * 0.02 // 2% of acquisition cost
-    const { degradation } = equipment
-    const healthFactor = degradation.currentValue / degradation.maxValue
+    const baseMaintenanceCost = equipment.acquisitionCost * rates.maintenanceRate
+    const healthFactor = getHealthPercent(equipment.degradation) / 100
 
     // Maintenance costs increase as health decreases
     const adjustedMonthlyCost = baseMaintenanceCost * (2 - healthFactor)
 
-    // Calculate next maintenance based on health
-    const daysUntilMaintenance = Math.floor(
-      (healthFactor * 90) // Maximum 90 days between maintenance
-    )
-    const nextMaintenance = new Date()
-    nextMaintenance.setDate(nextMaintenance.getDate() + daysUntilMaintenance)
-
     return {
       monthly: adjustedMonthlyCost,
       yearly: adjustedMonthlyCost * 12,
-      nextMaintenance: nextMaintenance.toISOString()
+      nextMaintenance: this.getNextMaintenanceDate(equipment, plans, workOrders)
     }
   }
 
+  // Earliest preventive maintenance due across the units; without a plan, when the fleet
+  // reaches 25% of its remaining life at its operating tempo
+  getNextMaintenanceDate(
+    equipment: Equipment,
+    plans: MaintenancePlan[] = [],
+    workOrders: WorkOrder[] = []
+  ): string {
+    const equipmentPlans = plans.filter(plan => plan.equipmentId === equipment.id)
+    const [next] = MaintenanceManagerService.getInstance().getMaintenanceDue([equipment], equipmentPlans, workOrders)
+    if (next) return next.dueDate
+
+    const days = this.getDaysUntilRemainingLife(equipment, 0.25)
+    const nextMaintenance = new Date()
+    nextMaintenance.setDate(nextMaintenance.getDate() + days)
+    return nextMaintenance.toISOString()
+  }
+
   getHealthStatus(equipment: Equipment): {
     status: 'good' | 'fair' | 'poor' | 'critical';
     message: string;
     needsMaintenance: boolean;
   } {
-    const healthPercentage = (equipment.degradation.currentValue / equipment.degradation.maxValue) * 100
+    // Graded on the most-limiting remaining life, which matches health for linear wear but
+    // runs ahead of it on curves that accelerate
+    const healthPercentage = getLimitingRemainingLife(equipment.degradation)
 
     if (healthPercentage > 75) {
       return {
@@ -146,15 +221,20 @@ export class DegradationTrackerService {
     }
   }
 
-  generateMaintenanceReport(equipment: Equipment): {
+  generateMaintenanceReport(
+    equipment: Equipment,
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE,
+    workOrders: WorkOrder[] = [],
+    plans: MaintenancePlan[] = []
+  ): {
     status: string;
-    lastMaintenance: string;
+    lastMaintenance: string | null;  // Most recent completed work order; null if never maintained
     nextMaintenance: string;
     estimatedCosts: number;
     recommendations: string[];
   } {
     const healthStatus = this.getHealthStatus(equipment)
-    const maintenanceCosts = this.calculateMaintenanceCosts(equipment)
+    const maintenanceCosts = this.calculateMaintenanceCosts(equipment, rates, plans, workOrders)
     const replacementPrediction = this.predictReplacement(equipment)
 
     const recommendations: string[] = []
@@ -167,13 +247,13 @@ export class DegradationTrackerService {
       recommendations.push('Plan for equipment replacement within 30 days')
     }
 
-    if (equipment.degradation.currentValue < equipment.degradation.maxValue * 0.5) {
+    if (getHealthPercent(equipment.degradation) < 50) {
       recommendations.push('Consider preventive maintenance to extend equipment life')
     }
 
     return {
       status: healthStatus.status,
-      lastMaintenance: equipment.degradation.lastUpdated,
+      lastMaintenance: MaintenanceManagerService.getInstance().getLastMaintenance(workOrders, equipment.id),
       nextMaintenance: maintenanceCosts.nextMaintenance,
       estimatedCosts: maintenanceCosts.monthly,
       recommendations
@@ -2,33 +2,54 @@
 
 import { BaseService } from './baseService';
 import { DegradationTrackerService } from './degradationTracker';
+import { InventoryManagerService } from './inventoryManager';
 import type { Equipment, EquipmentCombination } from '@/types/equipment';
-
-export class EquipmentManagerService extends BaseService {
+import type { CostRateProfile } from '@/types/rates';
+import type { MaintenancePlan, WorkOrder } from '@/types/maintenance';
+import { DEFAULT_RATE_PROFILE } from '@/utils/rateProfiles';
+import { calculateOperationalCost } from '@/utils/helpers';
+import { validateEquipment, validateCombination } from '@/utils/validators';
+import { ensureUnits, syncUnitCounts } from '@/utils/units';
+import { getHealthPercent } from '@/utils/degradationModels';
+
+export interface EquipmentManagerEvents {
+  equipmentRegistered: Equipment;
+  equipmentUpdated: Equipment;
+  combinationRegistered: EquipmentCombination;
+}
+
+export class EquipmentManagerService extends BaseService<EquipmentManagerEvents> {
   private degradationTracker: DegradationTrackerService;
   private equipment = new Map<string, Equipment>();
   private combinations = new Map<string, EquipmentCombination>();
 
-  protected constructor() {
+  constructor() {
     super();
     this.degradationTracker = DegradationTrackerService.getInstance();
+    this.validators = {
+      equipment: (equipment) => validateEquipment(equipment as Partial<Equipment>),
+      combination: (combination) =>
+        validateCombination(combination as Partial<EquipmentCombination>, Array.from(this.equipment.values()))
+    };
   }
 
-  static getInstance(): EquipmentManagerService {
-    return BaseService.getInstance.call(this);
+  // Mirrors the persisted store without emitting events
+  load(equipment: Equipment[], combinations: EquipmentCombination[]): void {
+    this.equipment = new Map(equipment.map(eq => [eq.id, eq]));
+    this.combinations = new Map(combinations.map(combo => [combo.id, combo]));
   }
 
   registerEquipment(equipment: Equipment): void {
     try {
-      this.validateInput(equipment, 'equipment');
-      
-      if (this.equipment.has(equipment.id)) {
-        throw new Error(`Equipment with ID ${equipment.id} already exists`);
+      const record = ensureUnits(equipment);
+      this.validateInput(record, 'equipment');
+
+      if (this.equipment.has(record.id)) {
+        throw new Error(`Equipment with ID ${record.id} already exists`);
       }
 
-      this.equipment.set(equipment.id, equipment);
-      this.degradationTracker.initializeEquipment(equipment);
-      this.emit('equipmentRegistered', equipment);
+      this.equipment.set(record.id, record);
+      this.emit('equipmentRegistered', record);
     } catch (error) {
       this.handleError(error, 'registerEquipment');
     }
@@ -45,7 +66,9 @@ export class EquipmentManagerService extends BaseService {
   updateEquipment(id: string, updates: Partial<Equipment>): void {
     try {
       const existing = this.getEquipment(id);
-      const updated = { ...existing, ...updates };
+      // Counts always follow the unit records, whatever the caller passed
+      const updated = syncUnitCounts({ ...existing, ...updates, id });
+      this.validateInput(updated, 'equipment');
       this.equipment.set(id, updated);
       this.emit('equipmentUpdated', updated);
     } catch (error) {
@@ -56,18 +79,11 @@ export class EquipmentManagerService extends BaseService {
   registerCombination(combination: EquipmentCombination): void {
     try {
       this.validateInput(combination, 'combination');
-      
+
       if (this.combinations.has(combination.id)) {
         throw new Error(`Combination with ID ${combination.id} already exists`);
       }
 
-      // Validate all equipment exists
-      combination.equipment.forEach(eq => {
-        if (!this.equipment.has(eq.id)) {
-          throw new Error(`Equipment ${eq.id} not found`);
-        }
-      });
-
       this.combinations.set(combination.id, combination);
       this.emit('combinationRegistered', combination);
     } catch (error) {
@@ -83,22 +99,31 @@ export class EquipmentManagerService extends BaseService {
     return combination;
   }
 
-  calculateEfficiency(combination: EquipmentCombination): {
+  calculateEfficiency(
+    combination: EquipmentCombination,
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE
+  ): {
     overall: number;
     operational: number;
     cost: number;
     personnel: number;
   } {
     try {
+      if (combination.equipment.length === 0) {
+        throw new Error('Combination has no equipment');
+      }
+
       const equipmentEfficiencies = combination.equipment.map(eq => {
         const equipment = this.getEquipment(eq.id);
-        const degradation = this.degradationTracker.getDegradation(eq.id);
+        // Share of acquisition cost spent on operations each month; lower is better
+        const operatingShare = equipment.acquisitionCost > 0
+          ? calculateOperationalCost(equipment, rates) / equipment.acquisitionCost
+          : 0;
         return {
-          operational: (degradation.currentValue / degradation.maxValue) * 100,
-          cost: (equipment.operationalCosts.personnelCostPerHour > 0 ? 
-            50 / equipment.operationalCosts.personnelCostPerHour : 50) * 100,
-          personnel: (equipment.personnelRequired > 0 ? 
-            100 / equipment.personnelRequired : 100) * 100
+          operational: getHealthPercent(equipment.degradation),
+          cost: Math.max(0, 100 - operatingShare * 100),
+          personnel: equipment.personnelRequired > 0 ?
+            100 / equipment.personnelRequired : 100
         };
       });
 
@@ -119,16 +144,17 @@ export class EquipmentManagerService extends BaseService {
     }
   }
 
-  validateCombination(combination: EquipmentCombination): { 
-    valid: boolean; 
-    message?: string; 
+  validateCombination(combination: EquipmentCombination, workOrders: WorkOrder[] = []): {
+    valid: boolean;
+    message?: string;
   } {
     try {
-      // Check if all equipment exists and is available
+      // Check if all equipment exists and is available; units in maintenance or held by an
+      // open work order are not
       for (const eq of combination.equipment) {
         const equipment = this.getEquipment(eq.id);
-        const available = equipment.quantity - equipment.inUse;
-        
+        const { available } = InventoryManagerService.getInstance().getInventoryStatus(equipment, workOrders);
+
         if (available < eq.quantity) {
           return {
             valid: false,
@@ -136,8 +162,7 @@ export class EquipmentManagerService extends BaseService {
           };
         }
 
-        const degradation = this.degradationTracker.getDegradation(eq.id);
-        if (degradation.currentValue < 25) {
+        if (this.degradationTracker.getHealthStatus(equipment).status === 'critical') {
           return {
             valid: false,
             message: `${equipment.name} requires maintenance before use`
@@ -154,14 +179,22 @@ export class EquipmentManagerService extends BaseService {
     }
   }
 
-  getMaintenanceSchedule(equipmentId: string): {
+  getMaintenanceSchedule(
+    equipmentId: string,
+    plans: MaintenancePlan[] = [],
+    workOrders: WorkOrder[] = []
+  ): {
     nextDue: string;
     interval: number;
   } {
     const equipment = this.getEquipment(equipmentId);
+    const nextMaintenance = this.degradationTracker.getNextMaintenanceDate(equipment, plans, workOrders);
     return {
-      nextDue: equipment.maintenanceSchedule.nextDue,
-      interval: equipment.maintenanceSchedule.interval
+      nextDue: nextMaintenance,
+      interval: Math.max(
+        0,
+        Math.round((new Date(nextMaintenance).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+      )
     };
   }
 
@@ -170,4 +203,4 @@ export class EquipmentManagerService extends BaseService {
     this.equipment.clear();
     this.combinations.clear();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,246 @@
+import type { Equipment, Consumable, EquipmentCategory, DegradationType } from '@/types/equipment'
+import type {
+  ImportTarget,
+  ImportField,
+  ColumnMapping,
+  SpreadsheetData,
+  ImportRow
+} from '@/types/import'
+import { validateEquipment, validateConsumable, validateDegradation } from '@/utils/validators'
+import { DEFAULT_OPERATING_TEMPO } from '@/utils/tempo'
+import { ensureUnits } from '@/utils/units'
+
+const EQUIPMENT_FIELDS: ImportField[] = [
+  { key: 'name', label: 'Name', type: 'string', required: true, aliases: ['equipment', 'item', 'item name', 'nomenclature'] },
+  { key: 'category', label: 'Category', type: 'category', required: true, aliases: ['type', 'class'] },
+  { key: 'description', label: 'Description', type: 'string', required: false, aliases: ['details', 'notes'] },
+  { key: 'manufacturer', label: 'Manufacturer', type: 'string', required: false, aliases: ['vendor', 'make', 'mfr', 'oem'] },
+  { key: 'modelNumber', label: 'Model Number', type: 'string', required: false, aliases: ['model', 'part number', 'pn', 'model no'] },
+  { key: 'acquisitionCost', label: 'Acquisition Cost', type: 'number', required: false, aliases: ['cost', 'price', 'unit cost', 'unit price'] },
+  { key: 'quantity', label: 'Quantity', type: 'number', required: false, aliases: ['qty', 'count', 'on hand'] },
+  { key: 'inUse', label: 'In Use', type: 'number', required: false, aliases: ['deployed'] },
+  { key: 'personnelRequired', label: 'Personnel Required', type: 'number', required: false, aliases: ['personnel', 'crew', 'operators'] },
+  { key: 'degradationType', label: 'Degradation Type', type: 'degradationType', required: false, aliases: ['wear type', 'life type'] },
+  { key: 'maxValue', label: 'Service Life', type: 'number', required: false, aliases: ['life', 'max life', 'max value'] },
+  { key: 'degradationRate', label: 'Degradation Rate', type: 'number', required: false, aliases: ['wear rate'] },
+  { key: 'replacementCost', label: 'Replacement Cost', type: 'number', required: false, aliases: ['replacement'] }
+]
+
+const CONSUMABLE_FIELDS: ImportField[] = [
+  { key: 'id', label: 'ID', type: 'string', required: false, aliases: ['sku', 'item id', 'part number', 'pn', 'nsn'] },
+  { key: 'name', label: 'Name', type: 'string', required: true, aliases: ['consumable', 'item', 'item name', 'description'] },
+  { key: 'unit', label: 'Unit', type: 'string', required: true, aliases: ['uom', 'unit of measure', 'units'] },
+  { key: 'costPerUnit', label: 'Cost per Unit', type: 'number', required: false, aliases: ['cost', 'price', 'unit cost', 'unit price'] },
+  { key: 'stockLevel', label: 'Stock Level', type: 'number', required: false, aliases: ['stock', 'on hand', 'qty', 'quantity'] },
+  { key: 'minimumStock', label: 'Minimum Stock', type: 'number', required: false, aliases: ['min', 'minimum', 'min stock'] },
+  { key: 'reorderPoint', label: 'Reorder Point', type: 'number', required: false, aliases: ['reorder', 'rop', 'reorder level'] }
+]
+
+const CATEGORIES: EquipmentCategory[] = ['platform', 'payload', 'sensor']
+const DEGRADATION_TYPES: DegradationType[] = ['cycles', 'hours', 'time']
+
+const normalizeHeader = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+export class ImportService {
+  private static instance: ImportService
+
+  private constructor() {}
+
+  public static getInstance(): ImportService {
+    if (!ImportService.instance) {
+      ImportService.instance = new ImportService()
+    }
+    return ImportService.instance
+  }
+
+  getFields(target: ImportTarget): ImportField[] {
+    return target === 'equipment' ? EQUIPMENT_FIELDS : CONSUMABLE_FIELDS
+  }
+
+  // Exact matches on key, label or alias win over partial matches; each header is used once
+  suggestMapping(target: ImportTarget, headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {}
+    const used = new Set<string>()
+    const fields = this.getFields(target)
+
+    const candidates = (field: ImportField) =>
+      [field.key, field.label, ...field.aliases].map(normalizeHeader)
+
+    fields.forEach(field => {
+      const names = candidates(field)
+      const header = headers.find(h => !used.has(h) && names.includes(normalizeHeader(h)))
+      if (header) {
+        mapping[field.key] = header
+        used.add(header)
+      }
+    })
+
+    fields.forEach(field => {
+      if (mapping[field.key]) return
+      const names = candidates(field).filter(name => name.length > 2)
+      const header = headers.find(h =>
+        !used.has(h) && names.some(name => normalizeHeader(h).includes(name))
+      )
+      if (header) {
+        mapping[field.key] = header
+        used.add(header)
+      }
+    })
+
+    return mapping
+  }
+
+  // Applies a saved mapping, keeping only the headers present in this sheet
+  applyMapping(mapping: ColumnMapping, headers: string[]): ColumnMapping {
+    return Object.fromEntries(
+      Object.entries(mapping).filter(([, header]) => headers.includes(header))
+    )
+  }
+
+  getMissingRequiredFields(target: ImportTarget, mapping: ColumnMapping): ImportField[] {
+    return this.getFields(target).filter(field => field.required && !mapping[field.key])
+  }
+
+  mapRows(
+    target: ImportTarget,
+    sheet: SpreadsheetData,
+    mapping: ColumnMapping,
+    existingIds: string[] = []
+  ): ImportRow[] {
+    const seenIds = new Set(existingIds)
+
+    return sheet.rows.map((row, index) => {
+      const errors: string[] = []
+      const values: Record<string, string | number> = {}
+      const provided = new Set<string>()
+
+      this.getFields(target).forEach(field => {
+        const header = mapping[field.key]
+        const raw = header ? row[header]?.trim() || '' : ''
+        if (!raw) return
+
+        provided.add(field.key)
+        const parsed = this.parseValue(field, raw)
+        if (parsed.error) {
+          errors.push(parsed.error)
+        } else if (parsed.value !== undefined) {
+          values[field.key] = parsed.value
+        }
+      })
+
+      const result = target === 'equipment'
+        ? this.toEquipment(values, provided)
+        : this.toConsumable(values)
+      errors.push(...result.errors)
+
+      if (values.id !== undefined) {
+        if (seenIds.has(result.data.id)) {
+          errors.push(`ID "${result.data.id}" already exists`)
+        }
+        seenIds.add(result.data.id)
+      }
+
+      return {
+        index: index + 1,
+        data: result.data,
+        errors,
+        isValid: errors.length === 0
+      }
+    })
+  }
+
+  private parseValue(
+    field: ImportField,
+    raw: string
+  ): { value?: string | number; error?: string } {
+    switch (field.type) {
+      case 'number': {
+        const value = parseFloat(raw.replace(/[$,\s]/g, ''))
+        return isNaN(value)
+          ? { error: `${field.label} "${raw}" is not a number` }
+          : { value }
+      }
+      case 'category': {
+        const value = raw.toLowerCase()
+        const match = CATEGORIES.find(c => c === value || `${c}s` === value)
+        return match
+          ? { value: match }
+          : { error: `${field.label} "${raw}" must be one of ${CATEGORIES.join(', ')}` }
+      }
+      case 'degradationType': {
+        const value = raw.toLowerCase()
+        const match = DEGRADATION_TYPES.find(t => t === value || t.replace(/s$/, '') === value)
+        return match
+          ? { value: match }
+          : { error: `${field.label} "${raw}" must be one of ${DEGRADATION_TYPES.join(', ')}` }
+      }
+      default:
+        return { value: raw }
+    }
+  }
+
+  private toEquipment(values: Record<string, string | number>, provided: Set<string>): {
+    data: Equipment
+    errors: string[]
+  } {
+    const now = new Date().toISOString()
+    const maxValue = (values.maxValue as number) ?? 100
+    const data: Omit<Equipment, 'units'> = {
+      id: crypto.randomUUID(),
+      category: (values.category as EquipmentCategory) || 'platform',
+      name: (values.name as string) || '',
+      description: (values.description as string) || '',
+      manufacturer: (values.manufacturer as string) || '',
+      modelNumber: (values.modelNumber as string) || '',
+      acquisitionCost: (values.acquisitionCost as number) || 0,
+      quantity: (values.quantity as number) || 0,
+      inUse: (values.inUse as number) || 0,
+      consumables: [],
+      degradation: {
+        type: (values.degradationType as DegradationType) || 'cycles',
+        maxValue,
+        currentValue: maxValue,
+        replacementCost: (values.replacementCost as number) ?? ((values.acquisitionCost as number) || 0),
+        degradationRate: (values.degradationRate as number) ?? 1,
+        lastUpdated: now
+      },
+      personnelRequired: (values.personnelRequired as number) || 0,
+      tempo: DEFAULT_OPERATING_TEMPO,
+      dateAdded: now,
+      specifications: {},
+      documents: []
+    }
+
+    return {
+      // Counts are checked as imported, then split into serialized units
+      data: ensureUnits(data),
+      errors: [
+        // A category that failed to parse is already reported; only flag a blank one here
+        ...validateEquipment({
+          ...data,
+          category: provided.has('category') ? data.category : undefined
+        }).errors,
+        ...validateDegradation(data.degradation).errors
+      ]
+    }
+  }
+
+  private toConsumable(values: Record<string, string | number>): {
+    data: Consumable
+    errors: string[]
+  } {
+    const costPerUnit = (values.costPerUnit as number) || 0
+    const data: Consumable = {
+      id: (values.id as string) || crypto.randomUUID(),
+      name: (values.name as string) || '',
+      unit: (values.unit as string) || '',
+      costPerUnit,
+      priceHistory: [{ price: costPerUnit, effectiveDate: new Date().toISOString() }],
+      stockLevel: (values.stockLevel as number) || 0,
+      minimumStock: (values.minimumStock as number) || 0,
+      reorderPoint: (values.reorderPoint as number) || 0
+    }
+
+    return { data, errors: validateConsumable(data).errors }
+  }
+}
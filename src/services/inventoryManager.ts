@@ -1,5 +1,6 @@
 import type { 
     Equipment, 
+    EquipmentUnit,
     Consumable,
     EquipmentCombination 
   } from '@/types/equipment'
@@ -9,8 +10,27 @@ import type {
     InventoryReport,
     ProcurementNeed 
   } from '@/types/inventory'
+  import type { WorkOrder } from '@/types/maintenance'
+  import type { VendorCatalog } from '@/types/vendors'
+  import type { CostScenario } from '@/types/scenarios'
+  import type { PolicyProposal } from '@/types/policy'
   import { DegradationTrackerService } from './degradationTracker'
   import { CostCalculatorService } from './costCalculator'
+  import { DAYS_PER_MONTH, resolveTempo, getUsageForPeriod } from '@/utils/tempo'
+  import {
+    DEFAULT_UNIT_LOCATION,
+    createUnits,
+    generateSerialNumbers,
+    isActiveUnit,
+    recordDegradation,
+    recordUnitEvent,
+    syncUnitCounts
+  } from '@/utils/units'
+  import { applyUsageToLimits, getHealthPercent } from '@/utils/degradationModels'
+  import { selectQuote } from '@/utils/vendors'
+  import { getConsumableForecast, getDaysUntilDepletion, getForecastContext } from '@/utils/forecasting'
+  import { getInventoryPolicy, getReorderQuantity } from '@/utils/inventoryPolicy'
+  import { calculateOptimalInventoryLevels } from '@/utils/helpers'
   
   interface InventoryStatus {
     available: number
@@ -36,21 +56,45 @@ import type {
       return InventoryManagerService.instance
     }
   
-    getInventoryStatus(equipment: Equipment): InventoryStatus {
-      const degradation = this.degradationTracker.getHealthStatus(equipment)
-      const inMaintenance = degradation.needsMaintenance ? 1 : 0
+    getInventoryStatus(equipment: Equipment, workOrders: WorkOrder[] = []): InventoryStatus {
+      const active = equipment.units.filter(isActiveUnit)
+      const deployed = active.filter(unit => unit.status === 'deployed').length
+      // Deployed units stay deployed until returned, even with work booked against them
+      const maintenance = active.filter(unit =>
+        unit.status !== 'deployed' && this.isInMaintenance(equipment, unit, workOrders)
+      ).length
   
       return {
-        available: equipment.quantity - equipment.inUse - inMaintenance,
-        deployed: equipment.inUse,
-        maintenance: inMaintenance,
-        degradationStatus: (equipment.degradation.currentValue / equipment.degradation.maxValue) * 100
+        available: active.length - deployed - maintenance,
+        deployed,
+        maintenance,
+        degradationStatus: getHealthPercent(equipment.degradation)
       }
     }
   
+    isInMaintenance(equipment: Equipment, unit: EquipmentUnit, workOrders: WorkOrder[]): boolean {
+      return unit.status === 'maintenance' || workOrders.some(order =>
+        order.status !== 'completed' &&
+        order.equipmentId === equipment.id &&
+        order.serialNumber === unit.serialNumber
+      )
+    }
+  
+    needsMaintenance(equipment: Equipment, unit: EquipmentUnit): boolean {
+      return this.degradationTracker.getHealthStatus({ ...equipment, degradation: unit.degradation }).needsMaintenance
+    }
+
+    // Calendar days since the unit's wear was last brought up to date; calendar limits age
+    // over this span whether the unit was deployed or sitting in stock
+    private getDaysSinceUpdate(unit: EquipmentUnit, date: string): number {
+      const days = (new Date(date).getTime() - new Date(unit.degradation.lastUpdated).getTime()) / (1000 * 60 * 60 * 24)
+      return Number.isFinite(days) ? Math.max(0, days) : 0
+    }
+  
     processEquipmentTransaction(
       transaction: InventoryTransaction,
-      equipment: Equipment[]
+      equipment: Equipment[],
+      workOrders: WorkOrder[] = []
     ): {
       success: boolean
       message: string
@@ -64,54 +108,180 @@ import type {
         }
       }
   
-      const status = this.getInventoryStatus(equipmentItem)
-      const updatedEquipment = { ...equipmentItem }
+      const status = this.getInventoryStatus(equipmentItem, workOrders)
+      const serialNumbers = transaction.serialNumbers || []
+      const event = {
+        date: transaction.date,
+        transactionId: transaction.id,
+        notes: transaction.notes || undefined
+      }
   
-      switch (transaction.type) {
-        case 'acquisition':
-          updatedEquipment.quantity += transaction.quantity
-          break
+      if (new Set(serialNumbers).size !== serialNumbers.length) {
+        return {
+          success: false,
+          message: 'A serial number is listed more than once'
+        }
+      }
   
-        case 'deployment':
-          if (status.available < transaction.quantity) {
-            return {
-              success: false,
-              message: 'Insufficient available equipment'
-            }
+      if (transaction.type === 'acquisition') {
+        if (serialNumbers.length > 0 && serialNumbers.length !== transaction.quantity) {
+          return {
+            success: false,
+            message: 'Quantity must match the number of serial numbers'
           }
-          updatedEquipment.inUse += transaction.quantity
-          break
+        }
+        const clash = serialNumbers.find(serial =>
+          equipmentItem.units.some(unit => unit.serialNumber === serial)
+        )
+        if (clash) {
+          return {
+            success: false,
+            message: `Serial number ${clash} already exists`
+          }
+        }
   
-        case 'return':
-          if (updatedEquipment.inUse < transaction.quantity) {
-            return {
-              success: false,
-              message: 'Invalid return quantity'
+        const serials = serialNumbers.length > 0
+          ? serialNumbers
+          : generateSerialNumbers(equipmentItem, transaction.quantity)
+        const acquired = createUnits(equipmentItem, serials, transaction.date, {
+          location: transaction.location || undefined,
+          transactionId: transaction.id
+        })
+  
+        return {
+          success: true,
+          message: `Acquired ${serials.join(', ')}`,
+          updatedEquipment: syncUnitCounts({
+            ...equipmentItem,
+            units: [...equipmentItem.units, ...acquired]
+          })
+        }
+      }
+  
+      if (transaction.type === 'deployment' && status.available < transaction.quantity) {
+        return {
+          success: false,
+          message: 'Insufficient available equipment'
+        }
+      }
+  
+      if (serialNumbers.length === 0) {
+        return {
+          success: false,
+          message: `Select the serial numbers for this ${transaction.type}`
+        }
+      }
+  
+      if (serialNumbers.length !== transaction.quantity) {
+        return {
+          success: false,
+          message: 'Quantity must match the number of serial numbers'
+        }
+      }
+  
+      const units = [...equipmentItem.units]
+      for (const serial of serialNumbers) {
+        const index = units.findIndex(unit => unit.serialNumber === serial)
+        const unit = units[index]
+        if (!unit) {
+          return {
+            success: false,
+            message: `Unknown serial number ${serial}`
+          }
+        }
+  
+        switch (transaction.type) {
+          case 'deployment': {
+            if (unit.status !== 'available') {
+              return {
+                success: false,
+                message: `${serial} is not available (${unit.status})`
+              }
             }
+            if (this.isInMaintenance(equipmentItem, unit, workOrders)) {
+              return {
+                success: false,
+                message: `${serial} has an open work order`
+              }
+            }
+            // Time in stock ages calendar limits before the unit is checked for deployment
+            const daysInStock = this.getDaysSinceUpdate(unit, transaction.date)
+            const aged = recordDegradation(
+              unit,
+              { ...applyUsageToLimits(unit.degradation, { days: daysInStock }), lastUpdated: transaction.date },
+              {
+                date: transaction.date,
+                cause: 'usage',
+                transactionId: transaction.id,
+                notes: `${Math.round(daysInStock)} day${Math.round(daysInStock) === 1 ? '' : 's'} in stock`
+              }
+            )
+            if (this.needsMaintenance(equipmentItem, aged)) {
+              return {
+                success: false,
+                message: `${serial} requires maintenance before deployment`
+              }
+            }
+            units[index] = recordUnitEvent(
+              aged,
+              { ...event, type: 'deployed', location: transaction.location || unit.location },
+              { status: 'deployed' }
+            )
+            break
           }
-          updatedEquipment.inUse -= transaction.quantity
-          // Update degradation based on usage
-          updatedEquipment.degradation = this.degradationTracker.calculateDegradation(
-            updatedEquipment,
-            { cycles: 1 }
-          )
-          break
   
-        case 'disposal':
-          if (updatedEquipment.quantity < transaction.quantity) {
-            return {
-              success: false,
-              message: 'Invalid disposal quantity'
+          case 'return': {
+            if (unit.status !== 'deployed') {
+              return {
+                success: false,
+                message: `Invalid return: ${serial} is not deployed`
+              }
             }
+            // Wear accrues at the equipment's tempo for every day the unit was out; calendar
+            // limits age from the last update instead
+            const deployedOn = [...unit.history].reverse().find(e => e.type === 'deployed')?.date
+            const daysOut = deployedOn
+              ? Math.max(1, Math.ceil((new Date(transaction.date).getTime() - new Date(deployedOn).getTime()) / (1000 * 60 * 60 * 24)))
+              : 1
+            const degradation = this.degradationTracker.calculateDegradation(
+              { ...equipmentItem, degradation: unit.degradation },
+              { ...getUsageForPeriod(resolveTempo(equipmentItem), daysOut), days: this.getDaysSinceUpdate(unit, transaction.date) }
+            )
+            const worn = recordDegradation(unit, { ...degradation, lastUpdated: transaction.date }, {
+              date: transaction.date,
+              cause: 'usage',
+              transactionId: transaction.id,
+              notes: `${daysOut} day${daysOut === 1 ? '' : 's'} deployed`
+            })
+            units[index] = recordUnitEvent(
+              worn,
+              { ...event, type: 'returned', location: transaction.location || DEFAULT_UNIT_LOCATION },
+              { status: 'available' }
+            )
+            break
           }
-          updatedEquipment.quantity -= transaction.quantity
-          break
+  
+          case 'disposal':
+            if (unit.status === 'deployed' || unit.status === 'disposed') {
+              return {
+                success: false,
+                message: `Invalid disposal: ${serial} is ${unit.status}`
+              }
+            }
+            units[index] = recordUnitEvent(
+              unit,
+              { ...event, type: 'disposed', location: transaction.location || unit.location },
+              { status: 'disposed' }
+            )
+            break
+        }
       }
   
+      const verbs = { deployment: 'Deployed', return: 'Returned', disposal: 'Disposed of' }
       return {
         success: true,
-        message: 'Transaction processed successfully',
-        updatedEquipment
+        message: `${verbs[transaction.type]} ${serialNumbers.join(', ')}`,
+        updatedEquipment: syncUnitCounts({ ...equipmentItem, units })
       }
     }
   
@@ -174,11 +344,14 @@ import type {
   
     generateInventoryReport(
       equipment: Equipment[],
-      consumables: Consumable[]
+      consumables: Consumable[],
+      workOrders: WorkOrder[] = [],
+      transactions: (InventoryTransaction | ConsumableTransaction)[] = [],
+      scenarios: CostScenario[] = []
     ): InventoryReport {
       const alerts: InventoryReport['alerts'] = []
       const equipmentStatus = equipment.map(eq => {
-        const status = this.getInventoryStatus(eq)
+        const status = this.getInventoryStatus(eq, workOrders)
         const healthStatus = this.degradationTracker.getHealthStatus(eq)
   
         if (status.available < 2) {
@@ -219,7 +392,11 @@ import type {
           consumable,
           currentStock: consumable.stockLevel,
           pendingOrders: 0,
-          projectedUsage: this.calculateProjectedConsumableUsage(consumable.id, equipment)
+          // Monthly usage from the item's selected forecast
+          projectedUsage: getConsumableForecast(
+            consumable,
+            getForecastContext(consumable, transactions, equipment, workOrders, scenarios)
+          ).dailyRate * DAYS_PER_MONTH
         }
       })
   
@@ -231,41 +408,103 @@ import type {
       }
     }
   
+    // Recalculated levels for every consumable with forecast demand; nothing changes until a
+    // proposal is applied
+    proposeInventoryPolicies(
+      consumables: Consumable[],
+      transactions: (InventoryTransaction | ConsumableTransaction)[],
+      equipment: Equipment[] = [],
+      workOrders: WorkOrder[] = [],
+      scenarios: CostScenario[] = []
+    ): PolicyProposal[] {
+      return consumables.flatMap(consumable => {
+        const forecast = getConsumableForecast(
+          consumable,
+          getForecastContext(consumable, transactions, equipment, workOrders, scenarios)
+        )
+        if (forecast.dailyRate <= 0) return []
+
+        const levels = calculateOptimalInventoryLevels(
+          consumable,
+          [],
+          getInventoryPolicy(consumable),
+          forecast
+        )
+        return [{
+          consumableId: consumable.id,
+          current: {
+            minimumStock: consumable.minimumStock,
+            reorderPoint: consumable.reorderPoint,
+            orderQuantity: consumable.orderQuantity
+          },
+          proposed: {
+            minimumStock: levels.safetyStock,
+            reorderPoint: levels.reorderPoint,
+            orderQuantity: levels.optimalOrderQuantity
+          },
+          dailyDemand: forecast.dailyRate,
+          forecastMethod: forecast.method,
+          annualCost: levels.annualCost,
+          limitedByShelfLife: levels.limitedByShelfLife
+        }]
+      })
+    }
+  
+    // Needs are priced from the cheapest catalog quote that arrives in time, falling back to list price
     generateProcurementNeeds(
       equipment: Equipment[],
-      consumables: Consumable[]
+      consumables: Consumable[],
+      transactions: (InventoryTransaction | ConsumableTransaction)[] = [],
+      catalog: VendorCatalog = { vendors: [], quotes: [] },
+      workOrders: WorkOrder[] = [],
+      scenarios: CostScenario[] = []
     ): ProcurementNeed[] {
       const needs: ProcurementNeed[] = []
   
       // Equipment procurement needs
       equipment.forEach(eq => {
-        const status = this.getInventoryStatus(eq)
+        const status = this.getInventoryStatus(eq, workOrders)
         const healthStatus = this.degradationTracker.getHealthStatus(eq)
-        const replacementPrediction = this.degradationTracker.predictReplacement(eq)
+        const replacementPrediction = this.degradationTracker.predictReplacement(eq, transactions)
   
         if (status.available < 2 || replacementPrediction.daysUntilReplacement < 30) {
-          needs.push({
+          const quantity = Math.max(2 - status.available, 0) + 
+                     (replacementPrediction.daysUntilReplacement < 30 ? 1 : 0)
+          // With nothing available the need is immediate
+          const requiredWithinDays = status.available === 0
+            ? 0
+            : replacementPrediction.daysUntilReplacement < 30
+              ? Math.max(0, Math.floor(replacementPrediction.daysUntilReplacement))
+              : undefined
+
+          needs.push(this.applyQuote({
             id: crypto.randomUUID(),
             itemType: 'equipment',
             itemId: eq.id,
-            quantity: Math.max(2 - status.available, 0) + 
-                     (replacementPrediction.daysUntilReplacement < 30 ? 1 : 0),
-            estimatedCost: eq.acquisitionCost,
+            quantity,
+            estimatedCost: eq.acquisitionCost * quantity,
             priority: status.available === 0 ? 'high' : 'medium',
             reason: status.available < 2 
               ? 'Low stock level'
               : 'Upcoming replacement needed',
             requestDate: new Date().toISOString(),
-            status: 'pending'
-          })
+            status: 'pending',
+            requiredWithinDays
+          }, catalog))
         }
       })
   
       // Consumable procurement needs
       consumables.forEach(consumable => {
         if (consumable.stockLevel <= consumable.reorderPoint) {
-          const orderQuantity = consumable.reorderPoint * 2 - consumable.stockLevel
-          needs.push({
+          const orderQuantity = getReorderQuantity(consumable)
+          // Stock on hand has to last until the order arrives, at the demand the forecast expects
+          const forecast = getConsumableForecast(
+            consumable,
+            getForecastContext(consumable, transactions, equipment, workOrders, scenarios)
+          )
+          const daysUntilDepletion = getDaysUntilDepletion(consumable.stockLevel, forecast)
+          needs.push(this.applyQuote({
             id: crypto.randomUUID(),
             itemType: 'consumable',
             itemId: consumable.id,
@@ -274,8 +513,9 @@ import type {
             priority: consumable.stockLevel <= consumable.minimumStock ? 'high' : 'medium',
             reason: 'Stock below reorder point',
             requestDate: new Date().toISOString(),
-            status: 'pending'
-          })
+            status: 'pending',
+            requiredWithinDays: Number.isFinite(daysUntilDepletion) ? Math.floor(daysUntilDepletion) : undefined
+          }, catalog))
         }
       })
   
@@ -284,19 +524,18 @@ import type {
         return priorityOrder[a.priority] - priorityOrder[b.priority]
       })
     }
-  
-    private calculateProjectedConsumableUsage(
-      consumableId: string,
-      equipment: Equipment[]
-    ): number {
-      return equipment.reduce((total, eq) => {
-        const consumable = eq.consumables.find(c => c.id === consumableId)
-        if (!consumable) return total
-        
-        // Calculate monthly usage based on average usage patterns
-        const monthlyUsage = consumable.unitsPerUse * 4 * eq.inUse // Assuming weekly usage
-        return total + monthlyUsage
-      }, 0)
+
+    private applyQuote(need: ProcurementNeed, catalog: VendorCatalog): ProcurementNeed {
+      const option = selectQuote(need.itemType, need.itemId, need.quantity, catalog, need.requiredWithinDays)
+      if (!option) return need
+
+      return {
+        ...need,
+        estimatedCost: option.totalCost,
+        vendorId: option.vendor.id,
+        quoteId: option.quote.id,
+        leadTimeDays: option.leadTimeDays
+      }
     }
   
     private triggerReorder(consumable: Consumable): void {
@@ -304,13 +543,14 @@ import type {
       console.log(`Reorder triggered for ${consumable.name}:`, {
         currentStock: consumable.stockLevel,
         reorderPoint: consumable.reorderPoint,
-        suggestedOrderQuantity: consumable.reorderPoint * 2 - consumable.stockLevel
+        suggestedOrderQuantity: getReorderQuantity(consumable)
       })
     }
   
     validateCombinationAvailability(
       combination: EquipmentCombination,
-      equipment: Equipment[]
+      equipment: Equipment[],
+      workOrders: WorkOrder[] = []
     ): {
       available: boolean
       missingEquipment: Array<{
@@ -334,7 +574,7 @@ import type {
           continue
         }
   
-        const status = this.getInventoryStatus(equipmentItem)
+        const status = this.getInventoryStatus(equipmentItem, workOrders)
         if (status.available < item.quantity) {
           missingEquipment.push({
             id: item.id,
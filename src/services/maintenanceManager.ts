@@ -0,0 +1,318 @@
+import type { Equipment, EquipmentUnit, Consumable } from '@/types/equipment'
+import type { ConsumableTransaction } from '@/types/inventory'
+import type {
+  WorkOrder,
+  MaintenancePlan,
+  MaintenanceDue,
+  MaintenanceTrigger
+} from '@/types/maintenance'
+import type { CostRateProfile } from '@/types/rates'
+import { DEFAULT_RATE_PROFILE, getLaborRate } from '@/utils/rateProfiles'
+import { getEffectiveUnitPrice } from '@/utils/helpers'
+import { isActiveUnit, recordDegradation, recordUnitEvent, syncUnitCounts } from '@/utils/units'
+import { resolveTempo, getUsesPerDay } from '@/utils/tempo'
+import { getHealthPercent, restoreLimits } from '@/utils/degradationModels'
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+interface WorkOrderResult {
+  success: boolean
+  message: string
+  updatedOrder?: WorkOrder
+  updatedEquipment?: Equipment
+}
+
+export class MaintenanceManagerService {
+  private static instance: MaintenanceManagerService
+
+  private constructor() {}
+
+  public static getInstance(): MaintenanceManagerService {
+    if (!MaintenanceManagerService.instance) {
+      MaintenanceManagerService.instance = new MaintenanceManagerService()
+    }
+    return MaintenanceManagerService.instance
+  }
+
+  isOpen(order: WorkOrder): boolean {
+    return order.status !== 'completed'
+  }
+
+  getOpenWorkOrders(workOrders: WorkOrder[], equipmentId?: string, serialNumber?: string): WorkOrder[] {
+    return workOrders.filter(order =>
+      this.isOpen(order) &&
+      (!equipmentId || order.equipmentId === equipmentId) &&
+      (!serialNumber || order.serialNumber === serialNumber)
+    )
+  }
+
+  getLastMaintenance(workOrders: WorkOrder[], equipmentId: string, serialNumber?: string): string | null {
+    const completed = workOrders
+      .filter(order =>
+        order.status === 'completed' &&
+        order.completedDate &&
+        order.equipmentId === equipmentId &&
+        (!serialNumber || order.serialNumber === serialNumber)
+      )
+      .map(order => order.completedDate!)
+      .sort()
+    return completed.length > 0 ? completed[completed.length - 1] : null
+  }
+
+  // Cycles and hours accrue at the equipment's tempo only while the unit is deployed
+  getUnitUsage(
+    equipment: Equipment,
+    unit: EquipmentUnit,
+    since: Date,
+    until: Date = new Date()
+  ): { cycles: number; hours: number; days: number } {
+    let deployedDays = 0
+    let deployedAt: number | null = null
+
+    const addPeriod = (end: number) => {
+      if (deployedAt === null) return
+      const start = Math.max(deployedAt, since.getTime())
+      const finish = Math.min(end, until.getTime())
+      if (finish > start) deployedDays += (finish - start) / MS_PER_DAY
+      deployedAt = null
+    }
+
+    unit.history.forEach(event => {
+      const time = new Date(event.date).getTime()
+      if (event.type === 'deployed') {
+        deployedAt = time
+      } else if (event.type === 'returned' || event.type === 'disposed') {
+        addPeriod(time)
+      }
+    })
+    addPeriod(until.getTime())
+
+    const tempo = resolveTempo(equipment)
+    return {
+      cycles: getUsesPerDay(tempo) * deployedDays,
+      hours: tempo.hoursPerDay * deployedDays,
+      days: Math.max(0, (until.getTime() - since.getTime()) / MS_PER_DAY)
+    }
+  }
+
+  // Projects usage intervals forward at full tempo; a plan with no usable interval yields null
+  getPlanDue(
+    plan: MaintenancePlan,
+    equipment: Equipment,
+    unit: EquipmentUnit,
+    workOrders: WorkOrder[],
+    now: Date = new Date()
+  ): MaintenanceDue | null {
+    const lastPerformed = workOrders
+      .filter(order =>
+        order.planId === plan.id &&
+        order.serialNumber === unit.serialNumber &&
+        order.status === 'completed' &&
+        order.completedDate
+      )
+      .map(order => order.completedDate!)
+      .sort()
+      .pop() || null
+    const baseline = new Date(lastPerformed || unit.acquiredDate)
+    const usage = this.getUnitUsage(equipment, unit, baseline, now)
+    const tempo = resolveTempo(equipment)
+
+    const candidates: { trigger: MaintenanceTrigger; time: number }[] = []
+    if (plan.intervalDays) {
+      candidates.push({ trigger: 'days', time: baseline.getTime() + plan.intervalDays * MS_PER_DAY })
+    }
+    const usageDue = (trigger: MaintenanceTrigger, interval: number | undefined, used: number, perDay: number) => {
+      if (!interval || perDay <= 0) return
+      candidates.push({ trigger, time: now.getTime() + ((interval - used) / perDay) * MS_PER_DAY })
+    }
+    usageDue('cycles', plan.intervalCycles, usage.cycles, getUsesPerDay(tempo))
+    usageDue('hours', plan.intervalHours, usage.hours, tempo.hoursPerDay)
+
+    if (candidates.length === 0) return null
+    const first = candidates.reduce((earliest, c) => (c.time < earliest.time ? c : earliest))
+    const openOrder = workOrders.find(order =>
+      order.planId === plan.id &&
+      order.serialNumber === unit.serialNumber &&
+      this.isOpen(order)
+    )
+
+    return {
+      planId: plan.id,
+      planName: plan.name,
+      equipmentId: equipment.id,
+      serialNumber: unit.serialNumber,
+      dueDate: new Date(first.time).toISOString(),
+      trigger: first.trigger,
+      lastPerformed,
+      overdue: first.time < now.getTime(),
+      workOrderId: openOrder?.id
+    }
+  }
+
+  // Every active unit against every plan for its equipment, soonest first
+  getMaintenanceDue(
+    equipment: Equipment[],
+    plans: MaintenancePlan[],
+    workOrders: WorkOrder[],
+    now: Date = new Date()
+  ): MaintenanceDue[] {
+    const due: MaintenanceDue[] = []
+    plans.forEach(plan => {
+      const equipmentItem = equipment.find(eq => eq.id === plan.equipmentId)
+      equipmentItem?.units.filter(isActiveUnit).forEach(unit => {
+        const item = this.getPlanDue(plan, equipmentItem, unit, workOrders, now)
+        if (item) due.push(item)
+      })
+    })
+    return due.sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+  }
+
+  createWorkOrderFromPlan(plan: MaintenancePlan, due: MaintenanceDue): WorkOrder {
+    return {
+      id: crypto.randomUUID(),
+      equipmentId: due.equipmentId,
+      serialNumber: due.serialNumber,
+      planId: plan.id,
+      title: plan.name,
+      description: `Preventive maintenance (${due.trigger} interval)`,
+      status: 'scheduled',
+      scheduledDate: due.dueDate,
+      laborHours: plan.laborHours,
+      parts: plan.parts.map(part => ({ ...part })),
+      restorationPercent: plan.restorationPercent,
+      created: new Date().toISOString()
+    }
+  }
+
+  startWorkOrder(
+    order: WorkOrder,
+    equipment: Equipment[],
+    date = new Date().toISOString()
+  ): WorkOrderResult {
+    if (order.status !== 'scheduled') {
+      return { success: false, message: `Work order is already ${order.status}` }
+    }
+
+    const found = this.findUnit(order, equipment)
+    if ('message' in found) return { success: false, message: found.message }
+    const { equipmentItem, unit } = found
+
+    if (unit.status === 'deployed' || unit.status === 'disposed') {
+      return { success: false, message: `${unit.serialNumber} is ${unit.status}; it cannot be maintained` }
+    }
+
+    return {
+      success: true,
+      message: `Started maintenance on ${unit.serialNumber}`,
+      updatedOrder: { ...order, status: 'in-progress', startedDate: date },
+      updatedEquipment: this.replaceUnit(equipmentItem, recordUnitEvent(
+        unit,
+        { date, type: 'maintenance', location: unit.location, workOrderId: order.id, notes: `Started: ${order.title}` },
+        { status: 'maintenance' }
+      ))
+    }
+  }
+
+  // Prices the work, restores the unit and lists the stock draws; nothing is written here
+  completeWorkOrder(
+    order: WorkOrder,
+    equipment: Equipment[],
+    consumables: Consumable[],
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE,
+    date = new Date().toISOString()
+  ): WorkOrderResult & { partTransactions?: ConsumableTransaction[] } {
+    if (order.status === 'completed') {
+      return { success: false, message: 'Work order is already completed' }
+    }
+
+    const found = this.findUnit(order, equipment)
+    if ('message' in found) return { success: false, message: found.message }
+    const { equipmentItem, unit } = found
+
+    if (unit.status === 'deployed' || unit.status === 'disposed') {
+      return { success: false, message: `${unit.serialNumber} is ${unit.status}; it cannot be maintained` }
+    }
+
+    // Check every part before drawing any, so a shortage leaves stock untouched
+    const required = new Map<string, number>()
+    order.parts.forEach(part => {
+      required.set(part.consumableId, (required.get(part.consumableId) || 0) + part.quantity)
+    })
+    const partCosts = new Map<string, number>()
+    for (const [consumableId, quantity] of required) {
+      const consumable = consumables.find(c => c.id === consumableId)
+      if (!consumable) {
+        return { success: false, message: `Part ${consumableId} is not in the consumables catalog` }
+      }
+      if (consumable.stockLevel < quantity) {
+        return {
+          success: false,
+          message: `Insufficient stock of ${consumable.name}: ${quantity} needed, ${consumable.stockLevel} on hand`
+        }
+      }
+      partCosts.set(consumableId, quantity * getEffectiveUnitPrice(consumable, new Date(date)))
+    }
+    const partsCost = Array.from(partCosts.values()).reduce((total, cost) => total + cost, 0)
+
+    const laborCost = order.laborHours * getLaborRate(rates)
+    const { degradation } = unit
+    const restoredDegradation = restoreLimits(degradation, order.restorationPercent)
+
+    const restored = recordUnitEvent(
+      recordDegradation(unit, { ...restoredDegradation, lastUpdated: date }, {
+        date,
+        cause: 'maintenance',
+        workOrderId: order.id,
+        notes: order.title
+      }),
+      { date, type: 'maintenance', location: unit.location, workOrderId: order.id, notes: `Completed: ${order.title}` },
+      { status: 'available' }
+    )
+
+    return {
+      success: true,
+      message: `Completed maintenance on ${unit.serialNumber}`,
+      updatedOrder: {
+        ...order,
+        status: 'completed',
+        startedDate: order.startedDate || date,
+        completedDate: date,
+        laborCost,
+        partsCost,
+        actualCost: laborCost + partsCost,
+        healthBefore: getHealthPercent(degradation),
+        healthAfter: getHealthPercent(restoredDegradation)
+      },
+      updatedEquipment: this.replaceUnit(equipmentItem, restored),
+      partTransactions: Array.from(required, ([consumableId, quantity]) => ({
+        id: crypto.randomUUID(),
+        consumableId,
+        type: 'use' as const,
+        quantity,
+        date,
+        cost: partCosts.get(consumableId),
+        associatedEquipmentId: equipmentItem.id
+      }))
+    }
+  }
+
+  private findUnit(
+    order: WorkOrder,
+    equipment: Equipment[]
+  ): { equipmentItem: Equipment; unit: EquipmentUnit } | { message: string } {
+    const equipmentItem = equipment.find(eq => eq.id === order.equipmentId)
+    if (!equipmentItem) return { message: 'Equipment not found' }
+
+    const unit = equipmentItem.units.find(u => u.serialNumber === order.serialNumber)
+    if (!unit) return { message: `Unknown serial number ${order.serialNumber}` }
+
+    return { equipmentItem, unit }
+  }
+
+  private replaceUnit(equipment: Equipment, unit: EquipmentUnit): Equipment {
+    return syncUnitCounts({
+      ...equipment,
+      units: equipment.units.map(u => (u.serialNumber === unit.serialNumber ? unit : u))
+    })
+  }
+}
@@ -1,6 +1,16 @@
-import type { Equipment } from '@/types/equipment'
-
-interface PDFExtractedData {
+import type { Equipment, Consumable } from '@/types/equipment'
+import type { ExtractedQuote, PriceBreak, PriceQuote } from '@/types/vendors'
+import {
+  extractPDFContent,
+  identifyEquipment,
+  identifyQuote,
+  extractCosts,
+  type PDFContent,
+  type TableData
+} from '@/utils/pdfProcessor'
+import { DEFAULT_RATE_PROFILE } from '@/utils/rateProfiles'
+
+export interface PDFExtractedData {
   equipment?: Partial<Equipment>[]
   costs?: {
     acquisition?: number
@@ -13,9 +23,15 @@ interface PDFExtractedData {
     creationDate?: string
     keywords?: string[]
   }
-  tables?: any[][]
+  quote?: ExtractedQuote
+  tables?: TableData[]
+  text?: string
+  pageCount?: number
 }
 
+// How long an imported quote stays valid when the document does not say
+const DEFAULT_QUOTE_VALIDITY_DAYS = 30
+
 export class PDFParserService {
   private static instance: PDFParserService
 
@@ -30,23 +46,23 @@ export class PDFParserService {
 
   async parsePDF(file: File): Promise<PDFExtractedData> {
     try {
-      // Since content is not used by identifyEquipment or identifyCosts,
-      // we can omit extracting it altogether.
-      const [metadata, tables] = await Promise.all([
-        this.extractMetadata(file),
-        this.extractTables()
-      ])
-
-      // As we removed content extraction, we don’t call extractContent anymore.
-      // If you need content in the future, you can reintroduce it.
-      const equipment = this.identifyEquipment(tables)
-      const costs = this.identifyCosts(tables)
+      const content = await extractPDFContent(file)
+      const equipment = identifyEquipment(content.text, content.tables)
+      const costs = this.identifyCosts(content, equipment)
 
       return {
         equipment,
         costs,
-        metadata,
-        tables
+        metadata: {
+          title: content.metadata?.title,
+          author: content.metadata?.author,
+          creationDate: content.metadata?.date,
+          keywords: content.metadata?.keywords
+        },
+        quote: identifyQuote(content.text, content.tables),
+        tables: content.tables,
+        text: content.text,
+        pageCount: content.pageCount
       }
     } catch (error) {
       console.error('Error parsing PDF:', error)
@@ -54,96 +70,73 @@ export class PDFParserService {
     }
   }
 
-  private async extractContent(file: File): Promise<string> {
-    try {
-      // Removed arrayBuffer since it’s not used
-      await file.arrayBuffer()
-
-      // Simulate content extraction
-      await new Promise(resolve => setTimeout(resolve, 500))
-      
-      return 'Sample extracted content'
-    } catch (error) {
-      console.error('Error extracting content:', error)
-      throw new Error('Failed to extract PDF content')
-    }
-  }
-
-  private async extractTables(): Promise<any[][]> {
-    try {
-      // Removed file parameter since we never use it in this method
-      await new Promise(resolve => setTimeout(resolve, 500))
-
-      return [
-        ['Equipment', 'Category', 'Cost', 'Personnel'],
-        ['Platform A', 'platform', '10000', '2'],
-        ['Sensor B', 'sensor', '15000', '1'],
-        ['Payload C', 'payload', '20000', '3']
-      ]
-    } catch (error) {
-      console.error('Error extracting tables:', error)
-      throw new Error('Failed to extract tables from PDF')
-    }
-  }
+  private identifyCosts(
+    content: PDFContent,
+    equipment: Partial<Equipment>[]
+  ): PDFExtractedData['costs'] {
+    const statedCosts = extractCosts(content.text, content.tables) || {}
+    const totalEquipmentCost = equipment
+      .reduce((acc, item) => acc + (item.acquisitionCost || 0), 0)
 
-  private async extractMetadata(file: File): Promise<PDFExtractedData['metadata']> {
-    try {
-      // file is used for file.name, so we keep it
-      return {
-        title: file.name,
-        author: 'System',
-        creationDate: new Date().toISOString(),
-        keywords: ['equipment', 'military', 'costs']
-      }
-    } catch (error) {
-      console.error('Error extracting metadata:', error)
-      throw new Error('Failed to extract PDF metadata')
+    // Fall back to estimates when the document has no explicit cost table
+    return {
+      acquisition: statedCosts.acquisition ?? totalEquipmentCost,
+      operational: statedCosts.operational ??
+        totalEquipmentCost * DEFAULT_RATE_PROFILE.operationalRate,
+      maintenance: statedCosts.maintenance ??
+        totalEquipmentCost * DEFAULT_RATE_PROFILE.maintenanceRate
     }
   }
 
-  // Removed content parameter since it's not used
-  private identifyEquipment(tables: any[][]): Partial<Equipment>[] {
-    const equipment: Partial<Equipment>[] = []
-    
-    if (tables.length > 1) {
-      const headers = tables[0].map((h: string) => h.toLowerCase())
-      
-      for (let i = 1; i < tables.length; i++) {
-        const row = tables[i]
-        const equipmentData: Partial<Equipment> = {
-          name: row[headers.indexOf('equipment')] || '',
-          category: row[headers.indexOf('category')] as any || 'platform',
-          acquisitionCost: Number(row[headers.indexOf('cost')]) || 0,
-          personnelRequired: Number(row[headers.indexOf('personnel')]) || 0,
-          dateAdded: new Date().toISOString(),
-          quantity: 1,
-          inUse: 0,
-          degradation: {
-            type: 'cycles',
-            maxValue: 100,
-            currentValue: 100,
-            replacementCost: 0,
-            degradationRate: 1,
-            lastUpdated: new Date().toISOString()
-          }
-        }
-
-        equipment.push(equipmentData)
+  // Matches quoted lines to catalog items by name, folding each item's lines into price breaks.
+  // Nothing is saved here; unmatched lines are returned for the caller to report
+  toPriceQuotes(
+    extracted: ExtractedQuote,
+    vendorId: string,
+    equipment: Equipment[],
+    consumables: Consumable[],
+    date = new Date().toISOString()
+  ): { quotes: PriceQuote[]; unmatched: string[] } {
+    const items = [
+      ...equipment.map(eq => ({ itemType: 'equipment' as const, itemId: eq.id, name: eq.name.toLowerCase() })),
+      ...consumables.map(c => ({ itemType: 'consumable' as const, itemId: c.id, name: c.name.toLowerCase() }))
+    ].sort((a, b) => b.name.length - a.name.length)
+
+    const byItem = new Map<string, { itemType: PriceQuote['itemType']; itemId: string; priceBreaks: PriceBreak[] }>()
+    const unmatched: string[] = []
+    extracted.lines.forEach(line => {
+      const description = line.description.toLowerCase()
+      // The longest name wins, so "Battery Charger" is not read as "Battery"
+      const item = items.find(i => description === i.name) || items.find(i => i.name && description.includes(i.name))
+      if (!item) {
+        unmatched.push(line.description)
+        return
       }
-    }
-
-    return equipment
-  }
-
-  // Removed content parameter since it's not used
-  private identifyCosts(tables: any[][]): PDFExtractedData['costs'] {
-    const totalEquipmentCost = tables.slice(1)
-      .reduce((acc, row) => acc + (Number(row[2]) || 0), 0)
+      const entry = byItem.get(item.itemId) || { itemType: item.itemType, itemId: item.itemId, priceBreaks: [] }
+      entry.priceBreaks = [
+        ...entry.priceBreaks.filter(b => b.minQuantity !== line.minQuantity),
+        { minQuantity: line.minQuantity, unitPrice: line.unitPrice }
+      ].sort((a, b) => a.minQuantity - b.minQuantity)
+      byItem.set(item.itemId, entry)
+    })
+
+    const validFrom = date.split('T')[0]
+    const expiry = new Date(date)
+    expiry.setDate(expiry.getDate() + DEFAULT_QUOTE_VALIDITY_DAYS)
 
     return {
-      acquisition: totalEquipmentCost,
-      operational: totalEquipmentCost * 0.1, // Estimate operational costs
-      maintenance: totalEquipmentCost * 0.05 // Estimate maintenance costs
+      quotes: Array.from(byItem.values(), entry => ({
+        id: crypto.randomUUID(),
+        vendorId,
+        ...entry,
+        validFrom,
+        validUntil: extracted.validUntil || expiry.toISOString().split('T')[0],
+        leadTimeDays: extracted.leadTimeDays,
+        reference: extracted.reference || '',
+        source: 'pdf',
+        created: date
+      })),
+      unmatched
     }
   }
 
@@ -0,0 +1,176 @@
+import type { StateStorage } from 'zustand/middleware'
+
+const DB_NAME = 'staff-for-dummies'
+const DB_VERSION = 1
+const STORE_NAME = 'stores'
+
+interface StoredRecord {
+  name: string
+  value: string
+  savedAt: string
+}
+
+export interface StoreHealth {
+  name: string
+  version: number
+  records: Record<string, number>
+  size: number
+  lastSaved: string
+}
+
+export interface StorageHealth {
+  available: boolean
+  stores: StoreHealth[]
+  lastSaved: string | null
+  error?: string
+  writeError?: string     // Last failed save or delete, cleared by the next one that succeeds
+}
+
+export class PersistenceService {
+  private static instance: PersistenceService
+  private database: Promise<IDBDatabase> | null = null
+  private writeError: string | null = null
+
+  private constructor() {}
+
+  public static getInstance(): PersistenceService {
+    if (!PersistenceService.instance) {
+      PersistenceService.instance = new PersistenceService()
+    }
+    return PersistenceService.instance
+  }
+
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined'
+  }
+
+  // Adapter handed to zustand's persist middleware. Persist does not await writes, so failures
+  // are recorded for the storage health view rather than rejected
+  getStorage(): StateStorage {
+    return {
+      getItem: (name) => this.getItem(name),
+      setItem: (name, value) => this.recordWrite(`save ${name}`, this.setItem(name, value)),
+      removeItem: (name) => this.recordWrite(`remove ${name}`, this.removeItem(name))
+    }
+  }
+
+  async getItem(name: string): Promise<string | null> {
+    const record = await this.request<StoredRecord | undefined>('readonly', store =>
+      store.get(name)
+    )
+    return record?.value ?? null
+  }
+
+  async setItem(name: string, value: string): Promise<void> {
+    const record: StoredRecord = {
+      name,
+      value,
+      savedAt: new Date().toISOString()
+    }
+    await this.request('readwrite', store => store.put(record))
+  }
+
+  async removeItem(name: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(name))
+  }
+
+  async getHealth(): Promise<StorageHealth> {
+    if (!this.isAvailable()) {
+      return {
+        available: false,
+        stores: [],
+        lastSaved: null,
+        error: 'IndexedDB is not supported in this browser'
+      }
+    }
+
+    try {
+      const records = await this.request<StoredRecord[]>('readonly', store =>
+        store.getAll()
+      )
+
+      const stores = records.map(record => {
+        const parsed = JSON.parse(record.value) as {
+          state?: Record<string, unknown>
+          version?: number
+        }
+        const counts = Object.entries(parsed.state || {}).reduce((acc, [key, value]) => {
+          if (Array.isArray(value)) acc[key] = value.length
+          return acc
+        }, {} as Record<string, number>)
+
+        return {
+          name: record.name,
+          version: parsed.version ?? 0,
+          records: counts,
+          size: record.value.length,
+          lastSaved: record.savedAt
+        }
+      })
+
+      const lastSaved = stores.reduce<string | null>(
+        (latest, store) => (!latest || store.lastSaved > latest ? store.lastSaved : latest),
+        null
+      )
+
+      return { available: true, stores, lastSaved, writeError: this.writeError ?? undefined }
+    } catch (error) {
+      console.error('Error reading storage health:', error)
+      return {
+        available: false,
+        stores: [],
+        lastSaved: null,
+        error: error instanceof Error ? error.message : 'Failed to read storage'
+      }
+    }
+  }
+
+  private async recordWrite(action: string, write: Promise<void>): Promise<void> {
+    try {
+      await write
+      this.writeError = null
+    } catch (error) {
+      console.error(`Error persisting store (${action}):`, error)
+      this.writeError = `Failed to ${action}: ${error instanceof Error ? error.message : 'storage error'}`
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'name' })
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+
+      // Allow a later call to retry if opening failed
+      this.database.catch(() => {
+        this.database = null
+      })
+    }
+    return this.database
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = operation(transaction.objectStore(STORE_NAME))
+
+      transaction.oncomplete = () => resolve(request.result as T)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+}
@@ -0,0 +1,308 @@
+import type { Equipment, Consumable } from '@/types/equipment'
+import type { InventoryTransaction, ConsumableTransaction, ProcurementNeed } from '@/types/inventory'
+import type {
+  ProcurementApprover,
+  ProcurementStatus,
+  PurchaseOrder,
+  PurchaseReceiptLine,
+  VendorLeadTime
+} from '@/types/procurement'
+import { formatCurrency } from '@/utils/formatters'
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+const TRANSITIONS: Record<ProcurementStatus, ProcurementStatus[]> = {
+  pending: ['approved', 'cancelled'],
+  approved: ['ordered', 'cancelled'],
+  ordered: ['received'],
+  received: [],
+  cancelled: []
+}
+
+interface ProcurementResult {
+  success: boolean
+  message: string
+  updatedNeed?: ProcurementNeed
+}
+
+interface PurchaseOrderResult {
+  success: boolean
+  message: string
+  order?: PurchaseOrder
+  updatedNeeds?: ProcurementNeed[]
+  transactions?: (InventoryTransaction | ConsumableTransaction)[]
+}
+
+export class ProcurementManagerService {
+  private static instance: ProcurementManagerService
+
+  private constructor() {}
+
+  public static getInstance(): ProcurementManagerService {
+    if (!ProcurementManagerService.instance) {
+      ProcurementManagerService.instance = new ProcurementManagerService()
+    }
+    return ProcurementManagerService.instance
+  }
+
+  canTransition(from: ProcurementStatus, to: ProcurementStatus): boolean {
+    return TRANSITIONS[from].includes(to)
+  }
+
+  getOutstanding(need: ProcurementNeed): number {
+    return need.quantity - (need.quantityReceived || 0)
+  }
+
+  // Budget checks are left to the caller; this enforces the workflow and who may approve
+  approve(
+    need: ProcurementNeed,
+    approver: ProcurementApprover | undefined,
+    justification: string,
+    date = new Date().toISOString()
+  ): ProcurementResult {
+    if (!this.canTransition(need.status, 'approved')) {
+      return { success: false, message: `A ${need.status} need cannot be approved` }
+    }
+    if (!approver) {
+      return { success: false, message: 'An approver is required' }
+    }
+    if (need.estimatedCost > approver.approvalLimit) {
+      return {
+        success: false,
+        message: `${approver.name} may approve up to ${formatCurrency(approver.approvalLimit)}; this need is ${formatCurrency(need.estimatedCost)}`
+      }
+    }
+    if (!justification.trim()) {
+      return { success: false, message: 'A justification is required' }
+    }
+
+    return {
+      success: true,
+      message: `Approved by ${approver.name}`,
+      updatedNeed: {
+        ...need,
+        status: 'approved',
+        justification: justification.trim(),
+        approvedBy: approver.id,
+        approvedDate: date,
+        history: [
+          ...(need.history || []),
+          { date, status: 'approved', actor: approver.name, note: justification.trim() }
+        ]
+      }
+    }
+  }
+
+  cancel(need: ProcurementNeed, reason: string, date = new Date().toISOString()): ProcurementResult {
+    if (!this.canTransition(need.status, 'cancelled')) {
+      return { success: false, message: `A ${need.status} need cannot be cancelled` }
+    }
+    if (!reason.trim()) {
+      return { success: false, message: 'A reason is required to cancel' }
+    }
+
+    return {
+      success: true,
+      message: 'Procurement cancelled',
+      updatedNeed: {
+        ...need,
+        status: 'cancelled',
+        history: [...(need.history || []), { date, status: 'cancelled', note: reason.trim() }]
+      }
+    }
+  }
+
+  // One order per vendor; every need on it must be approved and not yet ordered
+  createPurchaseOrder(
+    needs: ProcurementNeed[],
+    vendor: string,
+    existingOrders: PurchaseOrder[],
+    options: { expectedDate?: string; notes?: string; vendorId?: string } = {},
+    date = new Date().toISOString()
+  ): PurchaseOrderResult {
+    if (!vendor.trim()) {
+      return { success: false, message: 'Vendor is required' }
+    }
+    if (needs.length === 0) {
+      return { success: false, message: 'Select at least one approved need' }
+    }
+    const unapproved = needs.find(need => !this.canTransition(need.status, 'ordered'))
+    if (unapproved) {
+      return { success: false, message: `A ${unapproved.status} need cannot be ordered` }
+    }
+    if (options.expectedDate && new Date(options.expectedDate) < new Date(date.split('T')[0])) {
+      return { success: false, message: 'Expected delivery cannot be before the order date' }
+    }
+
+    const year = new Date(date).getFullYear()
+    // Continue from the highest number issued this year; a count would reuse numbers after a deletion
+    const prefix = `PO-${year}-`
+    const sequence = existingOrders
+      .filter(order => order.number.startsWith(prefix))
+      .reduce((highest, order) => Math.max(highest, parseInt(order.number.slice(prefix.length), 10) || 0), 0) + 1
+    const order: PurchaseOrder = {
+      id: crypto.randomUUID(),
+      number: `PO-${year}-${String(sequence).padStart(4, '0')}`,
+      vendor: vendor.trim(),
+      vendorId: options.vendorId || undefined,
+      needIds: needs.map(need => need.id),
+      status: 'open',
+      orderedDate: date,
+      expectedDate: options.expectedDate || undefined,
+      receipts: [],
+      notes: options.notes || ''
+    }
+
+    return {
+      success: true,
+      message: `Raised ${order.number} with ${order.vendor}`,
+      order,
+      updatedNeeds: needs.map(need => ({
+        ...need,
+        status: 'ordered',
+        purchaseOrderId: order.id,
+        orderedDate: date,
+        history: [
+          ...(need.history || []),
+          { date, status: 'ordered', actor: order.vendor, note: order.number }
+        ]
+      }))
+    }
+  }
+
+  // Lists the purchase and acquisition transactions to post; nothing is written here
+  receive(
+    order: PurchaseOrder,
+    needs: ProcurementNeed[],
+    lines: PurchaseReceiptLine[],
+    equipment: Equipment[],
+    consumables: Consumable[],
+    date = new Date().toISOString()
+  ): PurchaseOrderResult {
+    if (order.status === 'received') {
+      return { success: false, message: `${order.number} is already fully received` }
+    }
+    const received = lines.filter(line => line.quantity > 0)
+    if (received.length === 0) {
+      return { success: false, message: 'Enter a quantity for at least one line' }
+    }
+    if (new Set(received.map(line => line.needId)).size !== received.length) {
+      return { success: false, message: 'A line is listed more than once' }
+    }
+
+    const transactions: (InventoryTransaction | ConsumableTransaction)[] = []
+    const updatedNeeds: ProcurementNeed[] = []
+    for (const line of received) {
+      const need = needs.find(n => n.id === line.needId)
+      if (!need || !order.needIds.includes(line.needId)) {
+        return { success: false, message: `${order.number} has no line ${line.needId}` }
+      }
+      const outstanding = this.getOutstanding(need)
+      if (!Number.isInteger(line.quantity) || line.quantity > outstanding) {
+        return { success: false, message: `Receive a whole number of units, at most the ${outstanding} outstanding` }
+      }
+      if (isNaN(line.cost) || line.cost < 0) {
+        return { success: false, message: 'Cost cannot be negative' }
+      }
+
+      const notes = `Received on ${order.number} from ${order.vendor}`
+      if (need.itemType === 'equipment') {
+        if (!equipment.some(eq => eq.id === need.itemId)) {
+          return { success: false, message: 'Equipment not found' }
+        }
+        transactions.push({
+          id: crypto.randomUUID(),
+          equipmentId: need.itemId,
+          type: 'acquisition',
+          quantity: line.quantity,
+          date,
+          notes,
+          cost: line.cost
+        })
+      } else {
+        if (!consumables.some(c => c.id === need.itemId)) {
+          return { success: false, message: 'Consumable not found' }
+        }
+        transactions.push({
+          id: crypto.randomUUID(),
+          consumableId: need.itemId,
+          type: 'purchase',
+          quantity: line.quantity,
+          date,
+          cost: line.cost
+        })
+      }
+
+      const quantityReceived = (need.quantityReceived || 0) + line.quantity
+      const complete = quantityReceived === need.quantity
+      updatedNeeds.push({
+        ...need,
+        quantityReceived,
+        status: complete ? 'received' : need.status,
+        receivedDate: complete ? date : need.receivedDate,
+        history: [
+          ...(need.history || []),
+          {
+            date,
+            status: complete ? 'received' : need.status,
+            actor: order.vendor,
+            note: `${line.quantity} received (${quantityReceived}/${need.quantity})`
+          }
+        ]
+      })
+    }
+
+    const allReceived = order.needIds.every(id => {
+      const need = updatedNeeds.find(n => n.id === id) || needs.find(n => n.id === id)
+      return !need || need.status === 'received'
+    })
+    const updatedOrder: PurchaseOrder = {
+      ...order,
+      status: allReceived ? 'received' : 'partially-received',
+      receivedDate: allReceived ? date : undefined,
+      receipts: [
+        ...order.receipts,
+        { id: crypto.randomUUID(), date, lines: received, transactionIds: transactions.map(t => t.id) }
+      ]
+    }
+
+    return {
+      success: true,
+      message: allReceived
+        ? `${order.number} fully received`
+        : `Partial receipt recorded against ${order.number}`,
+      order: updatedOrder,
+      updatedNeeds,
+      transactions
+    }
+  }
+
+  getLeadTimeDays(order: PurchaseOrder): number | null {
+    if (!order.receivedDate) return null
+    return (new Date(order.receivedDate).getTime() - new Date(order.orderedDate).getTime()) / MS_PER_DAY
+  }
+
+  getVendorLeadTimes(orders: PurchaseOrder[], now: Date = new Date()): VendorLeadTime[] {
+    const byVendor = new Map<string, PurchaseOrder[]>()
+    orders.forEach(order => {
+      byVendor.set(order.vendor, [...(byVendor.get(order.vendor) || []), order])
+    })
+
+    return Array.from(byVendor, ([vendor, vendorOrders]) => {
+      const leadTimes = vendorOrders
+        .map(order => this.getLeadTimeDays(order))
+        .filter((days): days is number => days !== null)
+      const open = vendorOrders.filter(order => order.status !== 'received')
+      return {
+        vendor,
+        orders: leadTimes.length,
+        averageDays: leadTimes.length > 0
+          ? leadTimes.reduce((sum, days) => sum + days, 0) / leadTimes.length
+          : 0,
+        maxDays: leadTimes.length > 0 ? Math.max(...leadTimes) : 0,
+        openOrders: open.length,
+        overdueOrders: open.filter(order => order.expectedDate && new Date(order.expectedDate) < now).length
+      }
+    }).sort((a, b) => a.vendor.localeCompare(b.vendor))
+  }
+}
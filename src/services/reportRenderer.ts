@@ -0,0 +1,395 @@
+import { jsPDF } from 'jspdf'
+import type { PDFReport } from '@/types/reports'
+import { formatCurrency, formatDate, formatName } from '@/utils/formatters'
+
+type ReportSection = PDFReport['sections'][number]
+
+interface ChartPoint {
+  label: string
+  value: number
+}
+
+interface TableLayout {
+  headers: string[]
+  rows: string[][]
+}
+
+const PAGE_MARGIN = 50
+const LINE_HEIGHT = 14
+const CELL_PADDING = 4
+const MAX_CHART_POINTS = 20
+const CURRENCY_KEY = /cost|price|total|budget|amount/i
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?$/
+
+export class ReportRendererService {
+  private static instance: ReportRendererService
+
+  private constructor() {}
+
+  public static getInstance(): ReportRendererService {
+    if (!ReportRendererService.instance) {
+      ReportRendererService.instance = new ReportRendererService()
+    }
+    return ReportRendererService.instance
+  }
+
+  renderReport(report: PDFReport): Blob {
+    return this.renderReports([report], report.title)
+  }
+
+  // Every report starts on its own title page and gets a bookmark with one child per section
+  renderReports(reports: PDFReport[], title = 'Reports'): Blob {
+    const doc = new jsPDF({ unit: 'pt', format: 'a4' })
+    doc.setProperties({ title, creator: 'Staff for Dummies' })
+
+    reports.forEach((report, index) => {
+      if (index > 0) doc.addPage()
+      this.renderTitlePage(doc, report)
+      const bookmark = doc.outline.add(null, report.title, {
+        pageNumber: doc.getNumberOfPages()
+      })
+
+      let y = this.startPage(doc)
+      report.sections.forEach(section => {
+        y = this.ensureSpace(doc, y, LINE_HEIGHT * 4)
+        doc.outline.add(bookmark, section.title, { pageNumber: doc.getNumberOfPages() })
+        y = this.renderSection(doc, section, y)
+      })
+
+      this.renderSummary(doc, report, y)
+    })
+
+    this.addPageNumbers(doc)
+    return doc.output('blob')
+  }
+
+  private renderTitlePage(doc: jsPDF, report: PDFReport): void {
+    const width = doc.internal.pageSize.getWidth()
+    const height = doc.internal.pageSize.getHeight()
+
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(26)
+    doc.setTextColor(17, 24, 39)
+    doc.text(doc.splitTextToSize(report.title, width - PAGE_MARGIN * 2), width / 2, height / 3, {
+      align: 'center'
+    })
+
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(12)
+    doc.setTextColor(107, 114, 128)
+    doc.text(`${report.type.charAt(0).toUpperCase() + report.type.slice(1)} report`, width / 2, height / 3 + 40, {
+      align: 'center'
+    })
+    doc.text(formatDate(report.date, 'long'), width / 2, height / 3 + 58, { align: 'center' })
+    doc.text(`${report.sections.length} sections`, width / 2, height / 3 + 76, { align: 'center' })
+  }
+
+  private startPage(doc: jsPDF): number {
+    doc.addPage()
+    return PAGE_MARGIN
+  }
+
+  private ensureSpace(doc: jsPDF, y: number, needed: number): number {
+    const bottom = doc.internal.pageSize.getHeight() - PAGE_MARGIN
+    return y + needed > bottom ? this.startPage(doc) : y
+  }
+
+  private renderHeading(doc: jsPDF, text: string, y: number, size = 16): number {
+    y = this.ensureSpace(doc, y, size * 2)
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(size)
+    doc.setTextColor(17, 24, 39)
+    doc.text(text, PAGE_MARGIN, y + size)
+    return y + size * 2
+  }
+
+  private renderParagraph(doc: jsPDF, text: string, y: number, indent = 0): number {
+    const width = doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2 - indent
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(10)
+    doc.setTextColor(55, 65, 81)
+
+    const lines: string[] = doc.splitTextToSize(text, width)
+    lines.forEach(line => {
+      y = this.ensureSpace(doc, y, LINE_HEIGHT)
+      doc.text(line, PAGE_MARGIN + indent, y + 10)
+      y += LINE_HEIGHT
+    })
+    return y
+  }
+
+  private renderBullets(doc: jsPDF, items: string[], y: number): number {
+    items.forEach(item => {
+      y = this.ensureSpace(doc, y, LINE_HEIGHT)
+      doc.setFont('helvetica', 'normal')
+      doc.setFontSize(10)
+      doc.text('•', PAGE_MARGIN + 4, y + 10)
+      y = this.renderParagraph(doc, item, y, 16)
+    })
+    return y
+  }
+
+  private renderSection(doc: jsPDF, section: ReportSection, y: number): number {
+    y = this.renderHeading(doc, section.title, y)
+
+    switch (section.type) {
+      case 'text':
+        y = this.renderText(doc, section.content, y)
+        break
+      case 'table':
+        y = this.renderTable(doc, this.toTable(section.content), y)
+        break
+      case 'chart':
+        y = this.renderChart(doc, section.content, y)
+        break
+    }
+
+    return y + LINE_HEIGHT
+  }
+
+  private renderText(doc: jsPDF, content: any, y: number): number {
+    if (Array.isArray(content)) {
+      if (content.length === 0) return this.renderParagraph(doc, 'None.', y)
+      return this.renderBullets(doc, content.map(item => this.describe(item)), y)
+    }
+    return this.renderParagraph(doc, this.describe(content), y)
+  }
+
+  private renderTable(doc: jsPDF, table: TableLayout, y: number): number {
+    if (table.rows.length === 0) return this.renderParagraph(doc, 'No data.', y)
+
+    const width = doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2
+    const columnWidth = width / table.headers.length
+    const fontSize = table.headers.length > 6 ? 7 : 9
+
+    const drawRow = (cells: string[], top: number, header: boolean): number => {
+      doc.setFont('helvetica', header ? 'bold' : 'normal')
+      doc.setFontSize(fontSize)
+      const wrapped = cells.map(cell =>
+        doc.splitTextToSize(cell, columnWidth - CELL_PADDING * 2) as string[]
+      )
+      const height = Math.max(...wrapped.map(lines => lines.length)) * (fontSize + 2) + CELL_PADDING * 2
+
+      if (header) {
+        doc.setFillColor(243, 244, 246)
+        doc.rect(PAGE_MARGIN, top, width, height, 'F')
+      }
+      doc.setDrawColor(229, 231, 235)
+      doc.line(PAGE_MARGIN, top + height, PAGE_MARGIN + width, top + height)
+      doc.setTextColor(header ? 75 : 31, header ? 85 : 41, header ? 99 : 55)
+
+      wrapped.forEach((lines, column) => {
+        doc.text(lines, PAGE_MARGIN + column * columnWidth + CELL_PADDING, top + CELL_PADDING + fontSize)
+      })
+      return top + height
+    }
+
+    y = this.ensureSpace(doc, y, LINE_HEIGHT * 3)
+    y = drawRow(table.headers, y, true)
+
+    table.rows.forEach(row => {
+      const startPage = doc.getNumberOfPages()
+      const next = this.ensureSpace(doc, y, LINE_HEIGHT * 2)
+      // Repeat the header on continuation pages
+      y = doc.getNumberOfPages() !== startPage ? drawRow(table.headers, next, true) : next
+      y = drawRow(row, y, false)
+    })
+
+    return y
+  }
+
+  private renderChart(doc: jsPDF, content: any, y: number): number {
+    // Sections may carry a pre-rendered image (e.g. a captured chart)
+    if (typeof content === 'string' && content.startsWith('data:image/')) {
+      return this.embedImage(doc, content, y, 1.6)
+    }
+
+    const points = this.toChartPoints(content)
+    if (points.length === 0) return this.renderParagraph(doc, 'No data.', y)
+
+    const image = this.drawBarChart(points)
+    if (!image) {
+      // No canvas outside the browser; fall back to the underlying figures
+      return this.renderTable(doc, {
+        headers: ['Item', 'Value'],
+        rows: points.map(p => [p.label, formatCurrency(p.value)])
+      }, y)
+    }
+    return this.embedImage(doc, image.dataUrl, y, image.aspectRatio)
+  }
+
+  private embedImage(doc: jsPDF, dataUrl: string, y: number, aspectRatio: number): number {
+    const width = doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2
+    const height = width / aspectRatio
+    y = this.ensureSpace(doc, y, height)
+    const format = dataUrl.startsWith('data:image/jpeg') ? 'JPEG' : 'PNG'
+    doc.addImage(dataUrl, format, PAGE_MARGIN, y, width, height)
+    return y + height
+  }
+
+  private renderSummary(doc: jsPDF, report: PDFReport, y: number): number {
+    if (report.summary) {
+      y = this.renderHeading(doc, 'Summary', y)
+      y = this.renderParagraph(doc, report.summary, y) + LINE_HEIGHT
+    }
+
+    if (report.recommendations?.length) {
+      y = this.renderHeading(doc, 'Recommendations', y)
+      y = this.renderBullets(doc, report.recommendations, y)
+    }
+
+    return y
+  }
+
+  private addPageNumbers(doc: jsPDF): void {
+    const pageCount = doc.getNumberOfPages()
+    const width = doc.internal.pageSize.getWidth()
+    const height = doc.internal.pageSize.getHeight()
+
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page)
+      doc.setFont('helvetica', 'normal')
+      doc.setFontSize(8)
+      doc.setTextColor(156, 163, 175)
+      doc.text(`Page ${page} of ${pageCount}`, width / 2, height - PAGE_MARGIN / 2, {
+        align: 'center'
+      })
+    }
+  }
+
+  private drawBarChart(points: ChartPoint[]): { dataUrl: string; aspectRatio: number } | null {
+    if (typeof document === 'undefined') return null
+
+    const width = 1000
+    const barHeight = 28
+    const labelWidth = 260
+    const valueWidth = 140
+    const height = points.length * barHeight + 40
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return null
+
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, width, height)
+
+    const max = Math.max(...points.map(p => Math.abs(p.value)), 1)
+    const plotWidth = width - labelWidth - valueWidth - 20
+
+    ctx.font = '16px Helvetica, Arial, sans-serif'
+    ctx.textBaseline = 'middle'
+    points.forEach((point, index) => {
+      const top = 20 + index * barHeight
+      const barWidth = (Math.abs(point.value) / max) * plotWidth
+
+      ctx.fillStyle = '#374151'
+      ctx.textAlign = 'right'
+      ctx.fillText(formatName(point.label, 32), labelWidth - 10, top + barHeight / 2)
+
+      ctx.fillStyle = point.value < 0 ? '#EF4444' : '#3B82F6'
+      ctx.fillRect(labelWidth, top + 4, barWidth, barHeight - 8)
+
+      ctx.fillStyle = '#111827'
+      ctx.textAlign = 'left'
+      ctx.fillText(formatCurrency(point.value), labelWidth + barWidth + 8, top + barHeight / 2)
+    })
+
+    return { dataUrl: canvas.toDataURL('image/png'), aspectRatio: width / height }
+  }
+
+  // Arrays chart one bar per row; objects chart one bar per numeric field
+  private toChartPoints(content: any): ChartPoint[] {
+    if (Array.isArray(content)) {
+      return content.slice(0, MAX_CHART_POINTS).flatMap((item, index) => {
+        if (typeof item === 'number') return [{ label: `${index + 1}`, value: item }]
+        const flat = this.flatten(item)
+        const label = Object.entries(flat).find(([, value]) => typeof value === 'string')
+        const numeric = Object.entries(flat).filter(([, value]) => typeof value === 'number')
+        const value = numeric.find(([key]) => /(^|\.)total$/i.test(key)) || numeric[0]
+        if (!value) return []
+        return [{
+          label: label ? this.formatValue(label[0], label[1]) : `${index + 1}`,
+          value: value[1] as number
+        }]
+      })
+    }
+
+    if (content && typeof content === 'object') {
+      return Object.entries(this.flatten(content))
+        .filter(([, value]) => typeof value === 'number')
+        .slice(0, MAX_CHART_POINTS)
+        .map(([key, value]) => ({ label: this.humanize(key), value: value as number }))
+    }
+
+    return []
+  }
+
+  private toTable(content: any): TableLayout {
+    if (Array.isArray(content)) {
+      const rows = content.map(item =>
+        item && typeof item === 'object' ? this.flatten(item) : { value: item }
+      )
+      const keys = Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+      return {
+        headers: keys.map(key => this.humanize(key)),
+        rows: rows.map(row => keys.map(key => this.formatValue(key, row[key])))
+      }
+    }
+
+    if (content && typeof content === 'object') {
+      return {
+        headers: ['Field', 'Value'],
+        rows: Object.entries(this.flatten(content)).map(([key, value]) => [
+          this.humanize(key),
+          this.formatValue(key, value)
+        ])
+      }
+    }
+
+    return { headers: ['Value'], rows: content == null ? [] : [[String(content)]] }
+  }
+
+  private flatten(value: Record<string, any>, prefix = ''): Record<string, any> {
+    return Object.entries(value).reduce((acc, [key, item]) => {
+      const path = prefix ? `${prefix}.${key}` : key
+      if (item && typeof item === 'object' && !Array.isArray(item) && !(item instanceof Date)) {
+        Object.assign(acc, this.flatten(item, path))
+      } else {
+        acc[path] = item
+      }
+      return acc
+    }, {} as Record<string, any>)
+  }
+
+  private humanize(key: string): string {
+    return key
+      .split('.')
+      .map(part => part.replace(/([a-z])([A-Z])/g, '$1 $2'))
+      .join(' ')
+      .replace(/^./, c => c.toUpperCase())
+  }
+
+  private formatValue(key: string, value: any): string {
+    if (value == null) return '—'
+    if (value instanceof Date) return formatDate(value)
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+    if (typeof value === 'number') {
+      return CURRENCY_KEY.test(key.split('.').pop() || key)
+        ? formatCurrency(value)
+        : value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+    }
+    if (Array.isArray(value)) return `${value.length} items`
+    if (typeof value === 'string' && ISO_DATE.test(value)) return formatDate(value)
+    return String(value)
+  }
+
+  private describe(item: any): string {
+    if (item == null) return ''
+    if (typeof item !== 'object') return String(item)
+    if (typeof item.message === 'string') return item.message
+    return Object.entries(this.flatten(item))
+      .map(([key, value]) => `${this.humanize(key)}: ${this.formatValue(key, value)}`)
+      .join(', ')
+  }
+}
@@ -1,6 +1,10 @@
 import { create } from 'zustand'
-import type { Equipment, EquipmentCombination } from '@/types/equipment'
+import { persist } from 'zustand/middleware'
+import type { Equipment, EquipmentCombination, DegradationType } from '@/types/equipment'
 import { DegradationTrackerService } from '@/services/degradationTracker'
+import { EquipmentManagerService } from '@/services/equipmentManager'
+import { ensureUnits, isActiveUnit, recordDegradation, syncUnitCounts } from '@/utils/units'
+import { SCHEMA_VERSION, createStorage, createMigrate, equipmentMigrations } from './migrations'
 
 interface EquipmentState {
   equipment: Equipment[]
@@ -25,6 +29,12 @@ interface EquipmentState {
   // Bulk Actions
   importEquipment: (equipmentList: Equipment[]) => void
   updateDegradation: (usage: { cycles?: number; hours?: number; days?: number }) => void
+  adjustDegradation: (
+    equipmentId: string,
+    serialNumber: string,
+    values: Partial<Record<DegradationType, number>>,
+    notes: string
+  ) => void
   
   // Filtering and Sorting
   filterEquipmentByCategory: (category: string) => Equipment[]
@@ -38,187 +48,259 @@ interface EquipmentState {
 }
 
 const degradationTracker = DegradationTrackerService.getInstance()
+const equipmentManager = EquipmentManagerService.getInstance()
 
-export const useEquipmentStore = create<EquipmentState>((set, get) => ({
-  equipment: [],
-  combinations: [],
-  selectedEquipment: null,
-  selectedCombination: null,
-  loading: false,
-  error: null,
+type PersistedEquipmentState = Pick<EquipmentState, 'equipment' | 'combinations'>
 
-  // Equipment Actions
-  addEquipment: (equipment) => {
-    try {
-      set((state) => ({
-        equipment: [...state.equipment, equipment],
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to add equipment' })
-    }
-  },
-
-  updateEquipment: (updatedEquipment) => {
-    try {
-      set((state) => ({
-        equipment: state.equipment.map((eq) =>
-          eq.id === updatedEquipment.id ? updatedEquipment : eq
-        ),
-        selectedEquipment:
-          state.selectedEquipment?.id === updatedEquipment.id
-            ? updatedEquipment
-            : state.selectedEquipment,
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to update equipment' })
-    }
-  },
-
-  removeEquipment: (id) => {
-    try {
-      set((state) => ({
-        equipment: state.equipment.filter((eq) => eq.id !== id),
-        selectedEquipment:
-          state.selectedEquipment?.id === id ? null : state.selectedEquipment,
-        combinations: state.combinations.map((combo) => ({
-          ...combo,
-          equipment: combo.equipment.filter((eq) => eq.id !== id)
-        })),
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to remove equipment' })
-    }
-  },
+export const useEquipmentStore = create<EquipmentState>()(
+  persist(
+    (set, get) => ({
+      equipment: [],
+      combinations: [],
+      selectedEquipment: null,
+      selectedCombination: null,
+      loading: false,
+      error: null,
 
-  selectEquipment: (id) => {
-    set((state) => ({
-      selectedEquipment: id
-        ? state.equipment.find((eq) => eq.id === id) || null
-        : null
-    }))
-  },
+      // Equipment Actions
+      // State changes arrive through the equipment manager's events (see below)
+      addEquipment: (equipment) => {
+        try {
+          equipmentManager.registerEquipment(equipment)
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to add equipment' })
+        }
+      },
 
-  // Combination Actions
-  addCombination: (combination) => {
-    try {
-      set((state) => ({
-        combinations: [...state.combinations, combination],
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to add combination' })
-    }
-  },
-
-  updateCombination: (updatedCombination) => {
-    try {
-      set((state) => ({
-        combinations: state.combinations.map((combo) =>
-          combo.id === updatedCombination.id ? updatedCombination : combo
-        ),
-        selectedCombination:
-          state.selectedCombination?.id === updatedCombination.id
-            ? updatedCombination
-            : state.selectedCombination,
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to update combination' })
-    }
-  },
-
-  removeCombination: (id) => {
-    try {
-      set((state) => ({
-        combinations: state.combinations.filter((combo) => combo.id !== id),
-        selectedCombination:
-          state.selectedCombination?.id === id ? null : state.selectedCombination,
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to remove combination' })
-    }
-  },
+      updateEquipment: (updatedEquipment) => {
+        try {
+          equipmentManager.updateEquipment(updatedEquipment.id, updatedEquipment)
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to update equipment' })
+        }
+      },
 
-  selectCombination: (id) => {
-    set((state) => ({
-      selectedCombination: id
-        ? state.combinations.find((combo) => combo.id === id) || null
-        : null
-    }))
-  },
+      removeEquipment: (id) => {
+        try {
+          set((state) => ({
+            equipment: state.equipment.filter((eq) => eq.id !== id),
+            selectedEquipment:
+              state.selectedEquipment?.id === id ? null : state.selectedEquipment,
+            combinations: state.combinations.map((combo) => ({
+              ...combo,
+              equipment: combo.equipment.filter((eq) => eq.id !== id)
+            })),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to remove equipment' })
+        }
+      },
 
-  // Bulk Actions
-  importEquipment: (equipmentList) => {
-    try {
-      set((state) => ({
-        equipment: [...state.equipment, ...equipmentList],
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to import equipment' })
-    }
-  },
-
-  updateDegradation: (usage) => {
-    try {
-      set((state) => ({
-        equipment: state.equipment.map((eq) => ({
-          ...eq,
-          degradation: degradationTracker.calculateDegradation(eq, usage)
-        })),
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to update degradation' })
-    }
-  },
+      selectEquipment: (id) => {
+        set((state) => ({
+          selectedEquipment: id
+            ? state.equipment.find((eq) => eq.id === id) || null
+            : null
+        }))
+      },
 
-  // Filtering and Sorting
-  filterEquipmentByCategory: (category) => {
-    const state = get()
-    return category === 'all'
-      ? state.equipment
-      : state.equipment.filter((eq) => eq.category === category)
-  },
-
-  filterEquipmentByStatus: (status) => {
-    const state = get()
-    return state.equipment.filter((eq) => {
-      const inUse = eq.inUse > 0
-      const needsMaintenance = degradationTracker.getHealthStatus(eq).needsMaintenance
+      // Combination Actions
+      addCombination: (combination) => {
+        try {
+          equipmentManager.registerCombination(combination)
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to add combination' })
+        }
+      },
+
+      updateCombination: (updatedCombination) => {
+        try {
+          set((state) => ({
+            combinations: state.combinations.map((combo) =>
+              combo.id === updatedCombination.id ? updatedCombination : combo
+            ),
+            selectedCombination:
+              state.selectedCombination?.id === updatedCombination.id
+                ? updatedCombination
+                : state.selectedCombination,
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to update combination' })
+        }
+      },
+
+      removeCombination: (id) => {
+        try {
+          set((state) => ({
+            combinations: state.combinations.filter((combo) => combo.id !== id),
+            selectedCombination:
+              state.selectedCombination?.id === id ? null : state.selectedCombination,
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to remove combination' })
+        }
+      },
+
+      selectCombination: (id) => {
+        set((state) => ({
+          selectedCombination: id
+            ? state.combinations.find((combo) => combo.id === id) || null
+            : null
+        }))
+      },
+
+      // Bulk Actions
+      importEquipment: (equipmentList) => {
+        try {
+          set((state) => ({
+            equipment: [...state.equipment, ...equipmentList.map(ensureUnits)],
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to import equipment' })
+        }
+      },
+
+      updateDegradation: (usage) => {
+        try {
+          const date = new Date().toISOString()
+          set((state) => ({
+            equipment: state.equipment.map((eq) => syncUnitCounts({
+              ...eq,
+              units: eq.units.map((unit) => isActiveUnit(unit)
+                ? recordDegradation(
+                    unit,
+                    degradationTracker.calculateDegradation({ ...eq, degradation: unit.degradation }, usage),
+                    { date, cause: 'usage', notes: 'Fleet usage update' }
+                  )
+                : unit)
+            })),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to update degradation' })
+        }
+      },
+
+      // Overrides a unit's current values, e.g. after an inspection; the reason goes in the log
+      adjustDegradation: (equipmentId, serialNumber, values, notes) => {
+        try {
+          const eq = get().equipment.find((item) => item.id === equipmentId)
+          const unit = eq?.units.find((u) => u.serialNumber === serialNumber)
+          if (!eq || !unit) {
+            throw new Error(`Unknown serial number ${serialNumber}`)
+          }
+          if (!notes.trim()) {
+            throw new Error('Give a reason for the adjustment')
+          }
+
+          const clamp = (value: number | undefined, current: number, max: number) =>
+            value === undefined ? current : Math.min(max, Math.max(0, value))
+          const { degradation } = unit
+          const date = new Date().toISOString()
+          const adjusted = recordDegradation(unit, {
+            ...degradation,
+            currentValue: clamp(values[degradation.type], degradation.currentValue, degradation.maxValue),
+            limits: degradation.limits?.map((limit) => ({
+              ...limit,
+              currentValue: clamp(values[limit.type], limit.currentValue, limit.maxValue)
+            })),
+            lastUpdated: date
+          }, { date, cause: 'adjustment', notes: notes.trim() })
+
+          equipmentManager.updateEquipment(eq.id, {
+            ...eq,
+            units: eq.units.map((u) => (u.serialNumber === serialNumber ? adjusted : u))
+          })
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to adjust degradation' })
+        }
+      },
+
+      // Filtering and Sorting
+      filterEquipmentByCategory: (category) => {
+        const state = get()
+        return category === 'all'
+          ? state.equipment
+          : state.equipment.filter((eq) => eq.category === category)
+      },
+
+      filterEquipmentByStatus: (status) => {
+        const state = get()
+        return state.equipment.filter((eq) => {
+          const inUse = eq.inUse > 0
+          const needsMaintenance = degradationTracker.getHealthStatus(eq).needsMaintenance
       
-      switch (status) {
-        case 'deployed':
-          return inUse
-        case 'maintenance':
-          return needsMaintenance
-        case 'available':
-          return !inUse && !needsMaintenance
-        default:
-          return true
-      }
-    })
-  },
-
-  searchEquipment: (query) => {
-    const state = get()
-    const searchTerms = query.toLowerCase().split(' ')
+          switch (status) {
+            case 'deployed':
+              return inUse
+            case 'maintenance':
+              return needsMaintenance
+            case 'available':
+              return !inUse && !needsMaintenance
+            default:
+              return true
+          }
+        })
+      },
+
+      searchEquipment: (query) => {
+        const state = get()
+        const searchTerms = query.toLowerCase().split(' ')
     
-    return state.equipment.filter((eq) => {
-      const searchableText = `${eq.name} ${eq.description} ${eq.manufacturer} ${eq.modelNumber}`.toLowerCase()
-      return searchTerms.every((term) => searchableText.includes(term))
-    })
-  },
+        return state.equipment.filter((eq) => {
+          const searchableText = `${eq.name} ${eq.description} ${eq.manufacturer} ${eq.modelNumber}`.toLowerCase()
+          return searchTerms.every((term) => searchableText.includes(term))
+        })
+      },
 
-  // Utility Actions
-  setLoading: (loading) => set({ loading }),
-  setError: (error) => set({ error }),
-  clearError: () => set({ error: null })
-}))
+      // Utility Actions
+      setLoading: (loading) => set({ loading }),
+      setError: (error) => set({ error }),
+      clearError: () => set({ error: null })
+    }),
+    {
+      name: 'equipment-store',
+      storage: createStorage<PersistedEquipmentState>(),
+      version: SCHEMA_VERSION,
+      migrate: createMigrate<PersistedEquipmentState>(equipmentMigrations),
+      partialize: (state) => ({
+        equipment: state.equipment,
+        combinations: state.combinations
+      })
+    }
+  )
+)
+
+// Keep the manager's registry in step with the store, including rehydration and bulk imports
+equipmentManager.load(useEquipmentStore.getState().equipment, useEquipmentStore.getState().combinations)
+useEquipmentStore.subscribe((state) => equipmentManager.load(state.equipment, state.combinations))
+
+equipmentManager.on('equipmentRegistered', (equipment) => {
+  useEquipmentStore.setState((state) => ({
+    equipment: [...state.equipment, equipment],
+    error: null
+  }))
+})
+
+equipmentManager.on('equipmentUpdated', (equipment) => {
+  useEquipmentStore.setState((state) => ({
+    equipment: state.equipment.map((eq) => (eq.id === equipment.id ? equipment : eq)),
+    selectedEquipment:
+      state.selectedEquipment?.id === equipment.id ? equipment : state.selectedEquipment,
+    error: null
+  }))
+})
+
+equipmentManager.on('combinationRegistered', (combination) => {
+  useEquipmentStore.setState((state) => ({
+    combinations: [...state.combinations, combination],
+    error: null
+  }))
+})
 
 // Selectors
 export const useSelectedEquipment = () => useEquipmentStore((state) => state.selectedEquipment)
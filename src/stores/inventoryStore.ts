@@ -1,17 +1,32 @@
 import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
 import type { 
   InventoryTransaction, 
   ConsumableTransaction,
-  ProcurementNeed 
+  ProcurementNeed,
+  TransactionResult
 } from '@/types/inventory'
-import type { Consumable } from '@/types/equipment'
+import type { PurchaseOrder, PurchaseReceiptLine } from '@/types/procurement'
+import type { Consumable, Equipment } from '@/types/equipment'
+import type { DemandForecast } from '@/types/forecast'
+import type { InventoryPolicy, PolicyProposal } from '@/types/policy'
 import { InventoryManagerService } from '@/services/inventoryManager'
+import { EquipmentManagerService } from '@/services/equipmentManager'
+import { ProcurementManagerService } from '@/services/procurementManager'
 import { useEquipmentStore } from './equipmentStore'
+import { useMaintenanceStore } from './maintenanceStore'
+import { useSettingsStore } from './settingsStore'
+import { BUDGET_CATEGORIES, findBudget, getBudgetStatus, getProcurementCategory } from '@/utils/budget'
+import { formatCurrency } from '@/utils/formatters'
+import { validateEquipment, validateInventoryPolicy } from '@/utils/validators'
+import { getConsumableForecast, getDaysUntilDepletion, getForecastContext } from '@/utils/forecasting'
+import { SCHEMA_VERSION, createStorage, createMigrate, inventoryMigrations } from './migrations'
 
 interface InventoryState {
   consumables: Consumable[]
   transactions: (InventoryTransaction | ConsumableTransaction)[]
   procurementNeeds: ProcurementNeed[]
+  purchaseOrders: PurchaseOrder[]
   selectedTransaction: (InventoryTransaction | ConsumableTransaction) | null
   loading: boolean
   error: string | null
@@ -19,7 +34,9 @@ interface InventoryState {
   // Consumable Actions
   addConsumable: (consumable: Consumable) => void
   updateConsumable: (consumable: Consumable) => void
+  addConsumablePrice: (id: string, price: number, effectiveDate: string) => void
   removeConsumable: (id: string) => void
+  updateConsumablePolicy: (id: string, policy: InventoryPolicy) => void
   updateStock: (id: string, quantity: number, type: 'increment' | 'decrement') => void
   
   // Transaction Actions
@@ -27,18 +44,29 @@ interface InventoryState {
   updateTransaction: (transaction: InventoryTransaction | ConsumableTransaction) => void
   removeTransaction: (id: string) => void
   selectTransaction: (id: string | null) => void
-  processTransaction: (transaction: InventoryTransaction | ConsumableTransaction) => Promise<boolean>
+  processTransaction: (transaction: InventoryTransaction | ConsumableTransaction) => Promise<TransactionResult>
+  postConsumableTransactions: (transactions: ConsumableTransaction[]) => TransactionResult
   
   // Procurement Actions
   addProcurementNeed: (need: ProcurementNeed) => void
   updateProcurementNeed: (need: ProcurementNeed) => void
   removeProcurementNeed: (id: string) => void
+  approveProcurement: (id: string, approverId: string, justification: string) => TransactionResult
+  cancelProcurement: (id: string, reason: string) => TransactionResult
+  createPurchaseOrder: (
+    needIds: string[],
+    vendor: string,
+    options?: { expectedDate?: string; notes?: string; vendorId?: string }
+  ) => TransactionResult
+  receivePurchaseOrder: (orderId: string, lines: PurchaseReceiptLine[], date?: string) => TransactionResult
   fulfillProcurement: (id: string) => void
   generateProcurementNeeds: () => void
   
   // Bulk Actions
   importConsumables: (consumables: Consumable[]) => void
   syncInventory: () => void
+  recalculatePolicies: () => PolicyProposal[]
+  applyPolicyProposals: (proposals: PolicyProposal[]) => void
   
   // Utility Actions
   setLoading: (loading: boolean) => void
@@ -54,377 +82,705 @@ interface InventoryState {
     averageUsage: number
     projectedDepletion: Date
     reorderSuggestion: number
+    forecast?: DemandForecast
   }
 }
 
 const inventoryManager = InventoryManagerService.getInstance()
+const equipmentManager = EquipmentManagerService.getInstance()
+const procurementManager = ProcurementManagerService.getInstance()
+
+type PersistedInventoryState = Pick<
+  InventoryState,
+  'consumables' | 'transactions' | 'procurementNeeds' | 'purchaseOrders'
+>
+
+export const useInventoryStore = create<InventoryState>()(
+  persist(
+    (set, get) => ({
+      consumables: [],
+      transactions: [],
+      procurementNeeds: [],
+      purchaseOrders: [],
+      selectedTransaction: null,
+      loading: false,
+      error: null,
+
+      // Consumable Actions
+      addConsumable: (consumable) => {
+        try {
+          set((state) => ({
+            consumables: [...state.consumables, consumable],
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to add consumable' })
+        }
+      },
+
+      updateConsumable: (updatedConsumable) => {
+        try {
+          set((state) => ({
+            consumables: state.consumables.map((c) => {
+              if (c.id !== updatedConsumable.id) return c
+              if (c.costPerUnit === updatedConsumable.costPerUnit) return updatedConsumable
+
+              // Keep the superseded price so historical costs stay reproducible
+              const history = updatedConsumable.priceHistory?.length
+                ? updatedConsumable.priceHistory
+                : [{ price: c.costPerUnit, effectiveDate: new Date(0).toISOString() }]
+              return {
+                ...updatedConsumable,
+                priceHistory: [
+                  ...history,
+                  { price: updatedConsumable.costPerUnit, effectiveDate: new Date().toISOString() }
+                ]
+              }
+            }),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to update consumable' })
+        }
+      },
+
+      addConsumablePrice: (id, price, effectiveDate) => {
+        try {
+          if (price < 0) throw new Error('Price cannot be negative')
+          set((state) => ({
+            consumables: state.consumables.map((c) => {
+              if (c.id !== id) return c
+              const priceHistory = [...(c.priceHistory || []), { price, effectiveDate }]
+                .sort((a, b) => new Date(a.effectiveDate).getTime() - new Date(b.effectiveDate).getTime())
+              const current = priceHistory
+                .filter((entry) => new Date(entry.effectiveDate) <= new Date())
+                .pop()
+              return {
+                ...c,
+                priceHistory,
+                costPerUnit: current ? current.price : c.costPerUnit
+              }
+            }),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to add consumable price' })
+        }
+      },
+
+      updateConsumablePolicy: (id, policy) => {
+        try {
+          const validation = validateInventoryPolicy(policy)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          set((state) => ({
+            consumables: state.consumables.map((c) => (c.id === id ? { ...c, policy } : c)),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to update inventory policy' })
+        }
+      },
+
+      removeConsumable: (id) => {
+        try {
+          set((state) => ({
+            consumables: state.consumables.filter((c) => c.id !== id),
+            procurementNeeds: state.procurementNeeds.filter(
+              (need) => need.itemType !== 'consumable' || need.itemId !== id
+            ),
+            // Equipment history stays; it feeds budget spend and utilization
+            transactions: state.transactions.filter(
+              (t) => !('consumableId' in t) || t.consumableId !== id
+            ),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to remove consumable' })
+        }
+      },
+
+      updateStock: (id, quantity, type) => {
+        try {
+          set((state) => {
+            const consumable = state.consumables.find((c) => c.id === id)
+            if (!consumable) throw new Error('Consumable not found')
+
+            const newStock = type === 'increment' 
+              ? consumable.stockLevel + quantity
+              : consumable.stockLevel - quantity
+
+            if (newStock < 0) throw new Error('Insufficient stock')
+
+            const updatedConsumable = {
+              ...consumable,
+              stockLevel: newStock
+            }
+
+            // Create transaction record
+            const transaction: ConsumableTransaction = {
+              id: crypto.randomUUID(),
+              consumableId: id,
+              type: type === 'increment' ? 'purchase' : 'use',
+              quantity,
+              date: new Date().toISOString()
+            }
+
+            return {
+              consumables: state.consumables.map((c) =>
+                c.id === id ? updatedConsumable : c
+              ),
+              transactions: [...state.transactions, transaction],
+              error: null
+            }
+          })
+
+          // Check if we need to generate new procurement needs
+          get().generateProcurementNeeds()
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to update stock' })
+        }
+      },
+
+      // Transaction Actions
+      addTransaction: async (transaction) => {
+        set({ loading: true })
+        try {
+          await get().processTransaction(transaction)
+        } finally {
+          set({ loading: false })
+        }
+      },
+
+      updateTransaction: (updatedTransaction) => {
+        try {
+          set((state) => ({
+            transactions: state.transactions.map((t) =>
+              t.id === updatedTransaction.id ? updatedTransaction : t
+            ),
+            selectedTransaction:
+              state.selectedTransaction?.id === updatedTransaction.id
+                ? updatedTransaction
+                : state.selectedTransaction,
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to update transaction' })
+        }
+      },
+
+      removeTransaction: (id) => {
+        try {
+          set((state) => ({
+            transactions: state.transactions.filter((t) => t.id !== id),
+            selectedTransaction:
+              state.selectedTransaction?.id === id ? null : state.selectedTransaction,
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to remove transaction' })
+        }
+      },
 
-export const useInventoryStore = create<InventoryState>((set, get) => ({
-  consumables: [],
-  transactions: [],
-  procurementNeeds: [],
-  selectedTransaction: null,
-  loading: false,
-  error: null,
+      selectTransaction: (id) => {
+        set((state) => ({
+          selectedTransaction: id
+            ? state.transactions.find((t) => t.id === id) || null
+            : null
+        }))
+      },
+
+      // Reads, validates and writes in one synchronous pass so the item update and the
+      // history entry land together or not at all
+      processTransaction: async (transaction) => {
+        const fail = (message: string): TransactionResult => {
+          set({ error: message })
+          return { success: false, message }
+        }
 
-  // Consumable Actions
-  addConsumable: (consumable) => {
-    try {
-      set((state) => ({
-        consumables: [...state.consumables, consumable],
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to add consumable' })
-    }
-  },
-
-  updateConsumable: (updatedConsumable) => {
-    try {
-      set((state) => ({
-        consumables: state.consumables.map((c) =>
-          c.id === updatedConsumable.id ? updatedConsumable : c
-        ),
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to update consumable' })
-    }
-  },
-
-  removeConsumable: (id) => {
-    try {
-      set((state) => ({
-        consumables: state.consumables.filter((c) => c.id !== id),
-        procurementNeeds: state.procurementNeeds.filter(
-          (need) => need.itemId !== id
-        ),
-        transactions: state.transactions.filter(
-          (t) => 'consumableId' in t && t.consumableId !== id
-        ),
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to remove consumable' })
-    }
-  },
+        if (!Number.isInteger(transaction.quantity) || transaction.quantity <= 0) {
+          return fail('Quantity must be a positive whole number')
+        }
 
-  updateStock: (id, quantity, type) => {
-    try {
-      set((state) => {
-        const consumable = state.consumables.find((c) => c.id === id)
-        if (!consumable) throw new Error('Consumable not found')
+        try {
+          if ('consumableId' in transaction) {
+            const result = inventoryManager.processConsumableTransaction(
+              transaction,
+              get().consumables
+            )
+            if (!result.success || !result.updatedConsumable) {
+              return fail(result.message)
+            }
+
+            const updatedConsumable = result.updatedConsumable
+            set((state) => ({
+              consumables: state.consumables.map((c) =>
+                c.id === updatedConsumable.id ? updatedConsumable : c
+              ),
+              transactions: [...state.transactions, transaction],
+              error: null
+            }))
+            get().generateProcurementNeeds()
+            return { success: true, message: result.message }
+          }
+
+          const result = inventoryManager.processEquipmentTransaction(
+            transaction,
+            useEquipmentStore.getState().equipment,
+            useMaintenanceStore.getState().workOrders
+          )
+          if (!result.success || !result.updatedEquipment) {
+            return fail(result.message)
+          }
+
+          // Throws on invalid equipment before anything is written
+          equipmentManager.updateEquipment(result.updatedEquipment.id, result.updatedEquipment)
+          set((state) => ({
+            transactions: [...state.transactions, transaction],
+            error: null
+          }))
+          return { success: true, message: result.message }
+        } catch (error) {
+          return fail(error instanceof Error ? error.message : 'Failed to process transaction')
+        }
+      },
+
+      // All or nothing: if any transaction is refused, no stock changes
+      postConsumableTransactions: (transactions) => {
+        let consumables = get().consumables
+        for (const transaction of transactions) {
+          const result = inventoryManager.processConsumableTransaction(transaction, consumables)
+          if (!result.success || !result.updatedConsumable) {
+            set({ error: result.message })
+            return { success: false, message: result.message }
+          }
+          const updatedConsumable = result.updatedConsumable
+          consumables = consumables.map((c) => (c.id === updatedConsumable.id ? updatedConsumable : c))
+        }
 
-        const newStock = type === 'increment' 
-          ? consumable.stockLevel + quantity
-          : consumable.stockLevel - quantity
+        set((state) => ({
+          consumables,
+          transactions: [...state.transactions, ...transactions],
+          error: null
+        }))
+        get().generateProcurementNeeds()
+        return { success: true, message: `Posted ${transactions.length} consumable transactions` }
+      },
+
+      // Procurement Actions
+      addProcurementNeed: (need) => {
+        try {
+          set((state) => ({
+            procurementNeeds: [...state.procurementNeeds, need],
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to add procurement need' })
+        }
+      },
+
+      updateProcurementNeed: (updatedNeed) => {
+        try {
+          set((state) => ({
+            procurementNeeds: state.procurementNeeds.map((n) =>
+              n.id === updatedNeed.id ? updatedNeed : n
+            ),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to update procurement need' })
+        }
+      },
+
+      removeProcurementNeed: (id) => {
+        try {
+          set((state) => ({
+            procurementNeeds: state.procurementNeeds.filter((n) => n.id !== id),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to remove procurement need' })
+        }
+      },
 
-        if (newStock < 0) throw new Error('Insufficient stock')
+      // Obligates the estimated cost against the current fiscal year's budget, when there is one
+      approveProcurement: (id, approverId, justification) => {
+        const fail = (message: string): TransactionResult => {
+          set({ error: message })
+          return { success: false, message }
+        }
 
-        const updatedConsumable = {
-          ...consumable,
-          stockLevel: newStock
+        const need = get().procurementNeeds.find((n) => n.id === id)
+        if (!need) return fail('Procurement need not found')
+
+        const now = new Date()
+        const approver = useSettingsStore.getState().approvers.find((a) => a.id === approverId)
+        const result = procurementManager.approve(need, approver, justification, now.toISOString())
+        if (!result.success || !result.updatedNeed) return fail(result.message)
+
+        const budget = findBudget(useSettingsStore.getState().budgets, now)
+        if (budget) {
+          // Personnel is left out; only the procurement categories are checked
+          const status = getBudgetStatus(budget, {
+            procurementNeeds: get().procurementNeeds,
+            transactions: get().transactions,
+            workOrders: useMaintenanceStore.getState().workOrders,
+            personnelCostPerMonth: 0
+          }, now)
+          const category = getProcurementCategory(need)
+          const line = status.categories.find((l) => l.category === category)
+          if (!line) {
+            return fail(`FY${budget.fiscalYear} has no ${BUDGET_CATEGORIES[category].label} budget line`)
+          }
+          if (need.estimatedCost > line.available) {
+            return fail(
+              `Insufficient ${BUDGET_CATEGORIES[category].label} funds in FY${budget.fiscalYear}: ` +
+              `${formatCurrency(Math.max(0, line.available))} available`
+            )
+          }
         }
 
-        // Create transaction record
-        const transaction: ConsumableTransaction = {
-          id: crypto.randomUUID(),
-          consumableId: id,
-          type: type === 'increment' ? 'purchase' : 'use',
-          quantity,
-          date: new Date().toISOString()
+        const updatedNeed = result.updatedNeed
+        set((state) => ({
+          procurementNeeds: state.procurementNeeds.map((n) => (n.id === id ? updatedNeed : n)),
+          error: null
+        }))
+        return { success: true, message: result.message }
+      },
+
+      cancelProcurement: (id, reason) => {
+        const need = get().procurementNeeds.find((n) => n.id === id)
+        const result = need
+          ? procurementManager.cancel(need, reason)
+          : { success: false, message: 'Procurement need not found' }
+        if (!result.success || !result.updatedNeed) {
+          set({ error: result.message })
+          return { success: false, message: result.message }
         }
 
-        return {
-          consumables: state.consumables.map((c) =>
-            c.id === id ? updatedConsumable : c
+        const updatedNeed = result.updatedNeed
+        set((state) => ({
+          procurementNeeds: state.procurementNeeds.map((n) => (n.id === id ? updatedNeed : n)),
+          error: null
+        }))
+        return { success: true, message: result.message }
+      },
+
+      createPurchaseOrder: (needIds, vendor, options) => {
+        const needs = get().procurementNeeds.filter((n) => needIds.includes(n.id))
+        const result = needs.length === needIds.length
+          ? procurementManager.createPurchaseOrder(needs, vendor, get().purchaseOrders, options)
+          : { success: false, message: 'Procurement need not found' }
+        if (!result.success || !result.order || !result.updatedNeeds) {
+          set({ error: result.message })
+          return { success: false, message: result.message }
+        }
+
+        const { order, updatedNeeds } = result
+        set((state) => ({
+          purchaseOrders: [...state.purchaseOrders, order],
+          procurementNeeds: state.procurementNeeds.map((n) =>
+            updatedNeeds.find((updated) => updated.id === n.id) || n
           ),
-          transactions: [...state.transactions, transaction],
           error: null
+        }))
+        return { success: true, message: result.message }
+      },
+
+      // Every line is checked before anything is posted, so a bad line leaves stock untouched
+      receivePurchaseOrder: (orderId, lines, date) => {
+        const order = get().purchaseOrders.find((o) => o.id === orderId)
+        const result = order
+          ? procurementManager.receive(
+              order,
+              get().procurementNeeds,
+              lines,
+              useEquipmentStore.getState().equipment,
+              get().consumables,
+              date
+            )
+          : { success: false, message: 'Purchase order not found' }
+        if (!result.success || !result.order || !result.updatedNeeds || !result.transactions) {
+          set({ error: result.message })
+          return { success: false, message: result.message }
         }
-      })
 
-      // Check if we need to generate new procurement needs
-      get().generateProcurementNeeds()
-    } catch (error) {
-      set({ error: error instanceof Error ? error.message : 'Failed to update stock' })
-    }
-  },
+        // Post every receipt line against working copies first, so a refused line leaves
+        // the order, its needs and the stock untouched
+        let consumables = get().consumables
+        let equipment = useEquipmentStore.getState().equipment
+        const workOrders = useMaintenanceStore.getState().workOrders
+        const receivedEquipment = new Map<string, Equipment>()
+        for (const transaction of result.transactions) {
+          if ('consumableId' in transaction) {
+            const posted = inventoryManager.processConsumableTransaction(transaction, consumables)
+            if (!posted.success || !posted.updatedConsumable) {
+              set({ error: posted.message })
+              return { success: false, message: posted.message }
+            }
+            const updatedConsumable = posted.updatedConsumable
+            consumables = consumables.map((c) => (c.id === updatedConsumable.id ? updatedConsumable : c))
+          } else {
+            const posted = inventoryManager.processEquipmentTransaction(transaction, equipment, workOrders)
+            if (!posted.success || !posted.updatedEquipment) {
+              set({ error: posted.message })
+              return { success: false, message: posted.message }
+            }
+            const updatedEquipment = posted.updatedEquipment
+            equipment = equipment.map((e) => (e.id === updatedEquipment.id ? updatedEquipment : e))
+            receivedEquipment.set(updatedEquipment.id, updatedEquipment)
+          }
+        }
+        for (const item of receivedEquipment.values()) {
+          const validation = validateEquipment(item)
+          if (!validation.isValid) {
+            const message = validation.errors.join(', ')
+            set({ error: message })
+            return { success: false, message }
+          }
+        }
 
-  // Transaction Actions
-  addTransaction: async (transaction) => {
-    try {
-      set({ loading: true })
-      const success = await get().processTransaction(transaction)
-      if (success) {
+        try {
+          receivedEquipment.forEach((item) => equipmentManager.updateEquipment(item.id, item))
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to receive purchase order'
+          set({ error: message })
+          return { success: false, message }
+        }
+
+        const { order: updatedOrder, updatedNeeds, transactions } = result
         set((state) => ({
-          transactions: [...state.transactions, transaction],
+          consumables,
+          transactions: [...state.transactions, ...transactions],
+          purchaseOrders: state.purchaseOrders.map((o) => (o.id === orderId ? updatedOrder : o)),
+          procurementNeeds: state.procurementNeeds.map((n) =>
+            updatedNeeds.find((updated) => updated.id === n.id) || n
+          ),
           error: null
         }))
-      }
-    } catch (error) {
-      set({ error: 'Failed to add transaction' })
-    } finally {
-      set({ loading: false })
-    }
-  },
-
-  updateTransaction: (updatedTransaction) => {
-    try {
-      set((state) => ({
-        transactions: state.transactions.map((t) =>
-          t.id === updatedTransaction.id ? updatedTransaction : t
-        ),
-        selectedTransaction:
-          state.selectedTransaction?.id === updatedTransaction.id
-            ? updatedTransaction
-            : state.selectedTransaction,
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to update transaction' })
-    }
-  },
-
-  removeTransaction: (id) => {
-    try {
-      set((state) => ({
-        transactions: state.transactions.filter((t) => t.id !== id),
-        selectedTransaction:
-          state.selectedTransaction?.id === id ? null : state.selectedTransaction,
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to remove transaction' })
-    }
-  },
-
-  selectTransaction: (id) => {
-    set((state) => ({
-      selectedTransaction: id
-        ? state.transactions.find((t) => t.id === id) || null
-        : null
-    }))
-  },
-
-  processTransaction: async (transaction) => {
-    try {
-      const equipment = useEquipmentStore.getState().equipment
-      const state = get()
+        get().generateProcurementNeeds()
+        return { success: true, message: result.message }
+      },
+
+      // Receives whatever is still outstanding on the need's purchase order
+      fulfillProcurement: (id) => {
+        const need = get().procurementNeeds.find((n) => n.id === id)
+        if (!need) {
+          set({ error: 'Procurement need not found' })
+          return
+        }
+        if (need.status !== 'ordered' || !need.purchaseOrderId) {
+          set({ error: 'Only procurement on a purchase order can be received' })
+          return
+        }
+
+        const unitCost = need.estimatedCost / need.quantity
+        const outstanding = procurementManager.getOutstanding(need)
+        get().receivePurchaseOrder(need.purchaseOrderId, [
+          { needId: id, quantity: outstanding, cost: unitCost * outstanding }
+        ])
+      },
+
+      generateProcurementNeeds: () => {
+        try {
+          const equipment = useEquipmentStore.getState().equipment
+          const { vendors, priceQuotes } = useSettingsStore.getState()
+          const needs = inventoryManager.generateProcurementNeeds(
+            equipment,
+            get().consumables,
+            get().transactions,
+            { vendors, quotes: priceQuotes },
+            useMaintenanceStore.getState().workOrders,
+            useSettingsStore.getState().scenarios
+          )
+
+          // Only pending needs are regenerated; approved ones hold obligated funds
+          const kept = get().procurementNeeds.filter((n) => n.status !== 'pending')
+          const open = new Set(
+            kept.filter((n) => n.status === 'approved' || n.status === 'ordered').map((n) => n.itemId)
+          )
+          // A need that is still required keeps its id, request date and notes across regenerations
+          const pending = get().procurementNeeds.filter((n) => n.status === 'pending')
+          const refreshed = needs
+            .filter((n) => !open.has(n.itemId))
+            .map((need) => {
+              const existing = pending.find((n) => n.itemType === need.itemType && n.itemId === need.itemId)
+              return existing
+                ? {
+                    ...need,
+                    id: existing.id,
+                    requestDate: existing.requestDate,
+                    justification: existing.justification,
+                    history: existing.history
+                  }
+                : need
+            })
+      
+          set({
+            procurementNeeds: [...kept, ...refreshed],
+            error: null
+          })
+        } catch (error) {
+          set({ error: 'Failed to generate procurement needs' })
+        }
+      },
+
+      // Bulk Actions
+      importConsumables: (consumables) => {
+        try {
+          set((state) => ({
+            consumables: [...state.consumables, ...consumables],
+            error: null
+          }))
+          get().generateProcurementNeeds()
+        } catch (error) {
+          set({ error: 'Failed to import consumables' })
+        }
+      },
+
+      syncInventory: () => {
+        try {
+          const equipment = useEquipmentStore.getState().equipment
+          const report = inventoryManager.generateInventoryReport(
+            equipment,
+            get().consumables,
+            useMaintenanceStore.getState().workOrders,
+            get().transactions,
+            useSettingsStore.getState().scenarios
+          )
+      
+          set((state) => ({
+            consumables: report.consumables.map((c) => c.consumable),
+            error: null
+          }))
       
-      if ('consumableId' in transaction) {
-        const result = await inventoryManager.processConsumableTransaction(
-          transaction,
-          state.consumables
+          get().generateProcurementNeeds()
+        } catch (error) {
+          set({ error: 'Failed to sync inventory' })
+        }
+      },
+
+      recalculatePolicies: () => {
+        return inventoryManager.proposeInventoryPolicies(
+          get().consumables,
+          get().transactions,
+          useEquipmentStore.getState().equipment,
+          useMaintenanceStore.getState().workOrders,
+          useSettingsStore.getState().scenarios
         )
-        
-        if (result.success && result.updatedConsumable) {
-          get().updateConsumable(result.updatedConsumable)
-          return true
-        }
-      } else {
-        const result = await inventoryManager.processEquipmentTransaction(
-          transaction,
-          equipment
+      },
+
+      applyPolicyProposals: (proposals) => {
+        try {
+          set((state) => ({
+            consumables: state.consumables.map((c) => {
+              const proposal = proposals.find((p) => p.consumableId === c.id)
+              return proposal ? { ...c, ...proposal.proposed } : c
+            }),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to apply inventory policies' })
+        }
+      },
+
+      // Utility Actions
+      setLoading: (loading) => set({ loading }),
+      setError: (error) => set({ error }),
+      clearError: () => set({ error: null }),
+
+      // Queries
+      getConsumableStock: (id) => {
+        const consumable = get().consumables.find((c) => c.id === id)
+        return consumable?.stockLevel || 0
+      },
+
+      getLowStockConsumables: () => {
+        return get().consumables.filter(
+          (c) => c.stockLevel <= c.minimumStock
+        )
+      },
+
+      getTransactionHistory: (itemId) => {
+        return get().transactions.filter((t) => 
+          ('consumableId' in t && t.consumableId === itemId) ||
+          ('equipmentId' in t && t.equipmentId === itemId)
+        ).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      },
+
+      getPendingProcurement: () => {
+        return get().procurementNeeds.filter(
+          (n) => n.status === 'pending' || n.status === 'approved'
         )
-        
-        if (result.success && result.updatedEquipment) {
-          useEquipmentStore.getState().updateEquipment(result.updatedEquipment)
-          return true
+      },
+
+      getConsumableAnalytics: (id) => {
+        const consumable = get().consumables.find((c) => c.id === id)
+        if (!consumable) {
+          return {
+            averageUsage: 0,
+            projectedDepletion: new Date(),
+            reorderSuggestion: 0
+          }
         }
-      }
-      
-      return false
-    } catch (error) {
-      set({ error: 'Failed to process transaction' })
-      return false
-    }
-  },
 
-  // Procurement Actions
-  addProcurementNeed: (need) => {
-    try {
-      set((state) => ({
-        procurementNeeds: [...state.procurementNeeds, need],
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to add procurement need' })
-    }
-  },
-
-  updateProcurementNeed: (updatedNeed) => {
-    try {
-      set((state) => ({
-        procurementNeeds: state.procurementNeeds.map((n) =>
-          n.id === updatedNeed.id ? updatedNeed : n
-        ),
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to update procurement need' })
-    }
-  },
-
-  removeProcurementNeed: (id) => {
-    try {
-      set((state) => ({
-        procurementNeeds: state.procurementNeeds.filter((n) => n.id !== id),
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to remove procurement need' })
-    }
-  },
+        const forecast = getConsumableForecast(
+          consumable,
+          getForecastContext(
+            consumable,
+            get().transactions,
+            useEquipmentStore.getState().equipment,
+            useMaintenanceStore.getState().workOrders,
+            useSettingsStore.getState().scenarios
+          )
+        )
 
-  fulfillProcurement: (id) => {
-    try {
-      const state = get()
-      const need = state.procurementNeeds.find((n) => n.id === id)
-      if (!need) throw new Error('Procurement need not found')
+        // Average daily usage and depletion follow the item's selected forecast
+        const averageUsage = forecast.dailyRate
+        const daysUntilDepletion = Math.floor(getDaysUntilDepletion(consumable.stockLevel, forecast))
 
-      if (need.itemType === 'consumable') {
-        get().updateStock(need.itemId, need.quantity, 'increment')
-      }
+        const projectedDepletion = new Date()
+        projectedDepletion.setDate(projectedDepletion.getDate() + daysUntilDepletion)
 
-      set((state) => ({
-        procurementNeeds: state.procurementNeeds.map((n) =>
-          n.id === id ? { ...n, status: 'received' } : n
-        ),
-        error: null
-      }))
-    } catch (error) {
-      set({ error: 'Failed to fulfill procurement' })
-    }
-  },
-
-  generateProcurementNeeds: () => {
-    try {
-      const equipment = useEquipmentStore.getState().equipment
-      const needs = inventoryManager.generateProcurementNeeds(
-        equipment,
-        get().consumables
-      )
-      
-      set({ procurementNeeds: needs, error: null })
-    } catch (error) {
-      set({ error: 'Failed to generate procurement needs' })
-    }
-  },
-
-  // Bulk Actions
-  importConsumables: (consumables) => {
-    try {
-      set((state) => ({
-        consumables: [...state.consumables, ...consumables],
-        error: null
-      }))
-      get().generateProcurementNeeds()
-    } catch (error) {
-      set({ error: 'Failed to import consumables' })
-    }
-  },
-
-  syncInventory: () => {
-    try {
-      const equipment = useEquipmentStore.getState().equipment
-      const report = inventoryManager.generateInventoryReport(
-        equipment,
-        get().consumables
-      )
-      
-      set((state) => ({
-        consumables: report.consumables.map((c) => c.consumable),
-        error: null
-      }))
-      
-      get().generateProcurementNeeds()
-    } catch (error) {
-      set({ error: 'Failed to sync inventory' })
-    }
-  },
-
-  // Utility Actions
-  setLoading: (loading) => set({ loading }),
-  setError: (error) => set({ error }),
-  clearError: () => set({ error: null }),
+        // Suggest reorder quantity based on usage pattern and minimum stock
+        const reorderSuggestion = consumable.orderQuantity ?? Math.max(
+          consumable.reorderPoint * 2,
+          Math.ceil(averageUsage * 30)
+        )
 
-  // Queries
-  getConsumableStock: (id) => {
-    const consumable = get().consumables.find((c) => c.id === id)
-    return consumable?.stockLevel || 0
-  },
-
-  getLowStockConsumables: () => {
-    return get().consumables.filter(
-      (c) => c.stockLevel <= c.minimumStock
-    )
-  },
-
-  getTransactionHistory: (itemId) => {
-    return get().transactions.filter((t) => 
-      ('consumableId' in t && t.consumableId === itemId) ||
-      ('equipmentId' in t && t.equipmentId === itemId)
-    ).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-  },
-
-  getPendingProcurement: () => {
-    return get().procurementNeeds.filter(
-      (n) => n.status === 'pending' || n.status === 'approved'
-    )
-  },
-
-  getConsumableAnalytics: (id) => {
-    const consumable = get().consumables.find((c) => c.id === id)
-    if (!consumable) {
-      return {
-        averageUsage: 0,
-        projectedDepletion: new Date(),
-        reorderSuggestion: 0
+        return {
+          averageUsage,
+          projectedDepletion,
+          reorderSuggestion,
+          forecast
+        }
       }
+    }),
+    {
+      name: 'inventory-store',
+      storage: createStorage<PersistedInventoryState>(),
+      version: SCHEMA_VERSION,
+      migrate: createMigrate<PersistedInventoryState>(inventoryMigrations),
+      partialize: (state) => ({
+        consumables: state.consumables,
+        transactions: state.transactions,
+        procurementNeeds: state.procurementNeeds,
+        purchaseOrders: state.purchaseOrders
+      })
     }
+  )
+)
 
-    const transactions = get()
-      .getTransactionHistory(id)
-      .filter((t): t is ConsumableTransaction => 'consumableId' in t)
-    
-    // Calculate average daily usage over the last 30 days
-    const thirtyDaysAgo = new Date()
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
-    
-    const recentUsage = transactions
-      .filter(t => 
-        t.type === 'use' && 
-        new Date(t.date) > thirtyDaysAgo
-      )
-      .reduce((total, t) => total + t.quantity, 0)
-    
-    const averageUsage = recentUsage / 30
-    const daysUntilDepletion = averageUsage > 0 
-      ? Math.floor(consumable.stockLevel / averageUsage)
-      : Infinity
-    
-    const projectedDepletion = new Date()
-    projectedDepletion.setDate(projectedDepletion.getDate() + daysUntilDepletion)
-
-    // Suggest reorder quantity based on usage pattern and minimum stock
-    const reorderSuggestion = Math.max(
-      consumable.reorderPoint * 2,
-      Math.ceil(averageUsage * 30)
-    )
-
-    return {
-      averageUsage,
-      projectedDepletion,
-      reorderSuggestion
-    }
-  }
-}))
+// New or changed equipment can create replacement needs
+equipmentManager.on('equipmentRegistered', () => useInventoryStore.getState().generateProcurementNeeds())
+equipmentManager.on('equipmentUpdated', () => useInventoryStore.getState().generateProcurementNeeds())
 
 // Selectors for common queries
 export const useConsumables = () => useInventoryStore((state) => state.consumables)
 export const useTransactions = () => useInventoryStore((state) => state.transactions)
 export const useProcurementNeeds = () => useInventoryStore((state) => state.procurementNeeds)
+export const usePurchaseOrders = () => useInventoryStore((state) => state.purchaseOrders)
 export const useSelectedTransaction = () => useInventoryStore((state) => state.selectedTransaction)
 export const useInventoryLoading = () => useInventoryStore((state) => state.loading)
 export const useInventoryError = () => useInventoryStore((state) => state.error)
\ No newline at end of file
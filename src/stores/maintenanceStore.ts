@@ -0,0 +1,278 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { WorkOrder, MaintenancePlan, MaintenanceDue } from '@/types/maintenance'
+import type { TransactionResult } from '@/types/inventory'
+import { MaintenanceManagerService } from '@/services/maintenanceManager'
+import { EquipmentManagerService } from '@/services/equipmentManager'
+import { validateEquipment, validateWorkOrder, validateMaintenancePlan } from '@/utils/validators'
+import { useEquipmentStore } from './equipmentStore'
+import { useInventoryStore } from './inventoryStore'
+import { useSettingsStore } from './settingsStore'
+import { SCHEMA_VERSION, createStorage, createMigrate, maintenanceMigrations } from './migrations'
+
+interface MaintenanceState {
+  workOrders: WorkOrder[]
+  maintenancePlans: MaintenancePlan[]
+  error: string | null
+
+  // Work Order Actions
+  addWorkOrder: (order: WorkOrder) => void
+  updateWorkOrder: (order: WorkOrder) => void
+  removeWorkOrder: (id: string) => void
+  startWorkOrder: (id: string) => TransactionResult
+  completeWorkOrder: (id: string, date?: string) => TransactionResult
+
+  // Preventive Maintenance Actions
+  addMaintenancePlan: (plan: MaintenancePlan) => void
+  updateMaintenancePlan: (plan: MaintenancePlan) => void
+  removeMaintenancePlan: (id: string) => void
+  generateScheduledWorkOrders: (horizonDays?: number) => number
+
+  // Queries
+  getOpenWorkOrders: (equipmentId?: string) => WorkOrder[]
+  getWorkOrderHistory: (equipmentId: string) => WorkOrder[]
+  getMaintenanceDue: () => MaintenanceDue[]
+
+  // Utility Actions
+  setError: (error: string | null) => void
+  clearError: () => void
+}
+
+const maintenanceManager = MaintenanceManagerService.getInstance()
+const equipmentManager = EquipmentManagerService.getInstance()
+
+type PersistedMaintenanceState = Pick<MaintenanceState, 'workOrders' | 'maintenancePlans'>
+
+export const useMaintenanceStore = create<MaintenanceState>()(
+  persist(
+    (set, get) => ({
+      workOrders: [],
+      maintenancePlans: [],
+      error: null,
+
+      // Work Order Actions
+      addWorkOrder: (order) => {
+        try {
+          const validation = validateWorkOrder(order)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          const equipment = useEquipmentStore.getState().equipment.find((eq) => eq.id === order.equipmentId)
+          if (!equipment?.units.some((unit) => unit.serialNumber === order.serialNumber)) {
+            throw new Error(`Unknown serial number ${order.serialNumber}`)
+          }
+          set((state) => ({
+            workOrders: [...state.workOrders, order],
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to add work order' })
+        }
+      },
+
+      updateWorkOrder: (updatedOrder) => {
+        try {
+          const existing = get().workOrders.find((o) => o.id === updatedOrder.id)
+          if (existing?.status === 'completed') {
+            throw new Error('Completed work orders cannot be changed')
+          }
+          const validation = validateWorkOrder(updatedOrder)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          set((state) => ({
+            workOrders: state.workOrders.map((o) => (o.id === updatedOrder.id ? updatedOrder : o)),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to update work order' })
+        }
+      },
+
+      removeWorkOrder: (id) => {
+        try {
+          if (get().workOrders.find((o) => o.id === id)?.status !== 'scheduled') {
+            throw new Error('Only scheduled work orders can be cancelled')
+          }
+          set((state) => ({
+            workOrders: state.workOrders.filter((o) => o.id !== id),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to remove work order' })
+        }
+      },
+
+      startWorkOrder: (id) => {
+        const order = get().workOrders.find((o) => o.id === id)
+        if (!order) return { success: false, message: 'Work order not found' }
+
+        const result = maintenanceManager.startWorkOrder(order, useEquipmentStore.getState().equipment)
+        if (!result.success || !result.updatedOrder || !result.updatedEquipment) {
+          set({ error: result.message })
+          return { success: false, message: result.message }
+        }
+
+        try {
+          equipmentManager.updateEquipment(result.updatedEquipment.id, result.updatedEquipment)
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to start work order'
+          set({ error: message })
+          return { success: false, message }
+        }
+
+        const updatedOrder = result.updatedOrder
+        set((state) => ({
+          workOrders: state.workOrders.map((o) => (o.id === id ? updatedOrder : o)),
+          error: null
+        }))
+        return { success: true, message: result.message }
+      },
+
+      // Stock is checked up front, so the unit, the parts draw and the order are written together
+      completeWorkOrder: (id, date) => {
+        const order = get().workOrders.find((o) => o.id === id)
+        if (!order) return { success: false, message: 'Work order not found' }
+
+        const result = maintenanceManager.completeWorkOrder(
+          order,
+          useEquipmentStore.getState().equipment,
+          useInventoryStore.getState().consumables,
+          useSettingsStore.getState().getActiveRateProfile(),
+          date
+        )
+        if (!result.success || !result.updatedOrder || !result.updatedEquipment) {
+          set({ error: result.message })
+          return { success: false, message: result.message }
+        }
+
+        // Check the restored equipment before drawing parts, so a refusal changes nothing
+        const validation = validateEquipment(result.updatedEquipment)
+        if (!validation.isValid) {
+          const message = validation.errors.join(', ')
+          set({ error: message })
+          return { success: false, message }
+        }
+
+        if (result.partTransactions?.length) {
+          const posted: TransactionResult = useInventoryStore.getState().postConsumableTransactions(result.partTransactions)
+          if (!posted.success) {
+            set({ error: posted.message })
+            return posted
+          }
+        }
+
+        try {
+          equipmentManager.updateEquipment(result.updatedEquipment.id, result.updatedEquipment)
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to complete work order'
+          set({ error: message })
+          return { success: false, message }
+        }
+
+        const updatedOrder = result.updatedOrder
+        set((state) => ({
+          workOrders: state.workOrders.map((o) => (o.id === id ? updatedOrder : o)),
+          error: null
+        }))
+        return { success: true, message: result.message }
+      },
+
+      // Preventive Maintenance Actions
+      addMaintenancePlan: (plan) => {
+        try {
+          const validation = validateMaintenancePlan(plan)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          set((state) => ({
+            maintenancePlans: [...state.maintenancePlans, plan],
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to add maintenance plan' })
+        }
+      },
+
+      updateMaintenancePlan: (updatedPlan) => {
+        try {
+          const validation = validateMaintenancePlan(updatedPlan)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          set((state) => ({
+            maintenancePlans: state.maintenancePlans.map((p) => (p.id === updatedPlan.id ? updatedPlan : p)),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to update maintenance plan' })
+        }
+      },
+
+      // Work orders already raised from the plan keep their planId as a record of origin
+      removeMaintenancePlan: (id) => {
+        set((state) => ({
+          maintenancePlans: state.maintenancePlans.filter((p) => p.id !== id),
+          error: null
+        }))
+      },
+
+      // Raises a scheduled work order for every unit coming due within the horizon
+      generateScheduledWorkOrders: (horizonDays = 14) => {
+        const horizon = new Date()
+        horizon.setDate(horizon.getDate() + horizonDays)
+
+        const { maintenancePlans } = get()
+        const created = get()
+          .getMaintenanceDue()
+          .filter((due) => !due.workOrderId && new Date(due.dueDate) <= horizon)
+          .map((due) => maintenanceManager.createWorkOrderFromPlan(
+            maintenancePlans.find((plan) => plan.id === due.planId)!,
+            due
+          ))
+
+        if (created.length > 0) {
+          set((state) => ({
+            workOrders: [...state.workOrders, ...created],
+            error: null
+          }))
+        }
+        return created.length
+      },
+
+      // Queries
+      getOpenWorkOrders: (equipmentId) => maintenanceManager.getOpenWorkOrders(get().workOrders, equipmentId),
+
+      getWorkOrderHistory: (equipmentId) =>
+        get()
+          .workOrders.filter((o) => o.equipmentId === equipmentId)
+          .sort((a, b) => b.scheduledDate.localeCompare(a.scheduledDate)),
+
+      getMaintenanceDue: () =>
+        maintenanceManager.getMaintenanceDue(
+          useEquipmentStore.getState().equipment,
+          get().maintenancePlans,
+          get().workOrders
+        ),
+
+      // Utility Actions
+      setError: (error) => set({ error }),
+      clearError: () => set({ error: null })
+    }),
+    {
+      name: 'maintenance-store',
+      storage: createStorage<PersistedMaintenanceState>(),
+      version: SCHEMA_VERSION,
+      migrate: createMigrate<PersistedMaintenanceState>(maintenanceMigrations),
+      partialize: (state) => ({
+        workOrders: state.workOrders,
+        maintenancePlans: state.maintenancePlans
+      })
+    }
+  )
+)
+
+// Selectors
+export const useWorkOrders = () => useMaintenanceStore((state) => state.workOrders)
+export const useMaintenancePlans = () => useMaintenanceStore((state) => state.maintenancePlans)
+export const useMaintenanceError = () => useMaintenanceStore((state) => state.error)
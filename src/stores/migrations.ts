@@ -0,0 +1,161 @@
+import { createJSONStorage } from 'zustand/middleware'
+import type { PersistStorage } from 'zustand/middleware'
+import { PersistenceService } from '@/services/persistence'
+import type { Equipment } from '@/types/equipment'
+import { ensureUnits } from '@/utils/units'
+
+// Bump when a persisted shape changes and add a migration keyed by the new version
+export const SCHEMA_VERSION = 9
+
+type PersistedState = Record<string, unknown>
+type Migration = (state: PersistedState) => PersistedState
+
+const persistence = PersistenceService.getInstance()
+
+// Without IndexedDB the stores run in memory only
+export const createStorage = <S>(): PersistStorage<S> | undefined => {
+  if (!persistence.isAvailable()) return undefined
+  return createJSONStorage<S>(() => persistence.getStorage())
+}
+
+// Runs every migration between the saved version and SCHEMA_VERSION, in order
+export const createMigrate = <S>(migrations: Record<number, Migration>) => {
+  return (persistedState: unknown, version: number): S => {
+    if (version > SCHEMA_VERSION) {
+      throw new Error(
+        `Saved data uses schema v${version}, but this app only supports v${SCHEMA_VERSION}`
+      )
+    }
+
+    let state = (persistedState || {}) as PersistedState
+    for (let next = version + 1; next <= SCHEMA_VERSION; next++) {
+      const migration = migrations[next]
+      if (migration) state = migration(state)
+    }
+    return state as S
+  }
+}
+
+// Saved data is untrusted; anything that is not the expected shape reads as empty
+const asArray = <T = PersistedState>(value: unknown): T[] => (Array.isArray(value) ? value : [])
+const asRecord = (value: unknown): PersistedState =>
+  value && typeof value === 'object' ? (value as PersistedState) : {}
+
+// v0 (unversioned) -> v1: backfill fields that early builds did not always set
+export const equipmentMigrations: Record<number, Migration> = {
+  1: (state) => ({
+    ...state,
+    equipment: asArray(state.equipment).map((eq) => ({
+      ...eq,
+      consumables: asArray(eq.consumables),
+      specifications: eq.specifications || {},
+      documents: asArray(eq.documents),
+      inUse: eq.inUse || 0,
+      degradation: {
+        ...asRecord(eq.degradation),
+        lastUpdated: asRecord(eq.degradation).lastUpdated || eq.dateAdded || new Date().toISOString()
+      }
+    })),
+    combinations: asArray(state.combinations).map((combo) => ({
+      ...combo,
+      equipment: asArray(combo.equipment),
+      consumablesRequired: asArray(combo.consumablesRequired),
+      usageCount: combo.usageCount || 0
+    }))
+  }),
+  // v3: split quantity/inUse counts into serialized units
+  3: (state) => ({
+    ...state,
+    equipment: asArray<Equipment>(state.equipment).map((eq) => ensureUnits(eq))
+  }),
+  // v5: units keep a log of degradation changes; earlier wear has no recorded cause
+  5: (state) => ({
+    ...state,
+    equipment: asArray(state.equipment).map((eq) => ({
+      ...eq,
+      units: asArray(eq.units).map((unit) => ({ ...unit, degradationLog: asArray(unit.degradationLog) }))
+    }))
+  })
+}
+
+export const inventoryMigrations: Record<number, Migration> = {
+  1: (state) => ({
+    ...state,
+    consumables: asArray(state.consumables).map((c) => ({
+      ...c,
+      costPerUnit: Number(c.costPerUnit) || 0,
+      stockLevel: Number(c.stockLevel) || 0,
+      minimumStock: Number(c.minimumStock) || 0,
+      reorderPoint: Number(c.reorderPoint) || 0
+    })),
+    transactions: asArray(state.transactions),
+    procurementNeeds: asArray(state.procurementNeeds)
+  }),
+  // v2: seed price history from the flat unit price
+  2: (state) => ({
+    ...state,
+    consumables: asArray(state.consumables).map((c) => ({
+      ...c,
+      priceHistory: asArray(c.priceHistory).length > 0
+        ? c.priceHistory
+        : [{ price: c.costPerUnit, effectiveDate: new Date(0).toISOString() }]
+    }))
+  }),
+  // v8: purchase orders
+  8: (state) => ({
+    ...state,
+    purchaseOrders: asArray(state.purchaseOrders)
+  })
+}
+
+export const reportMigrations: Record<number, Migration> = {
+  1: (state) => ({
+    ...state,
+    reports: asArray(state.reports).map((report) => ({
+      ...report,
+      sections: asArray(report.sections)
+    }))
+  })
+}
+
+export const settingsMigrations: Record<number, Migration> = {
+  // v2: consumables are priced from the catalog, not a profile-wide base cost
+  2: (state) => ({
+    ...state,
+    rateProfiles: asArray(state.rateProfiles).map(({ consumableBaseCost, ...profile }) => profile)
+  }),
+  // v6: saved cost scenarios
+  6: (state) => ({
+    ...state,
+    scenarios: asArray(state.scenarios)
+  }),
+  // v7: fiscal-year budgets
+  7: (state) => ({
+    ...state,
+    budgets: asArray(state.budgets)
+  }),
+  // v8: who may approve procurement
+  8: (state) => ({
+    ...state,
+    approvers: asArray(state.approvers)
+  }),
+  // v9: vendor catalog and price quotes
+  9: (state) => ({
+    ...state,
+    vendors: asArray(state.vendors),
+    priceQuotes: asArray(state.priceQuotes)
+  })
+}
+
+// Work orders arrived with v3; older saves and workspace exports simply have none
+export const maintenanceMigrations: Record<number, Migration> = {
+  3: (state) => ({
+    ...state,
+    workOrders: asArray(state.workOrders)
+  }),
+  // v4: preventive maintenance plans
+  4: (state) => ({
+    ...state,
+    maintenancePlans: asArray(state.maintenancePlans)
+  })
+}
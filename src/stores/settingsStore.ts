@@ -0,0 +1,442 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { CostRateProfile } from '@/types/rates'
+import type { SavedMapping } from '@/types/import'
+import type { CostScenario } from '@/types/scenarios'
+import type { FiscalYearBudget } from '@/types/budget'
+import type { ProcurementApprover } from '@/types/procurement'
+import type { PriceQuote, Vendor } from '@/types/vendors'
+import {
+  validateApprover,
+  validateBudget,
+  validatePriceQuote,
+  validateScenario,
+  validateVendor
+} from '@/utils/validators'
+import { DEFAULT_RATE_PROFILE, PRESET_RATE_PROFILES } from '@/utils/rateProfiles'
+import { SCHEMA_VERSION, createStorage, createMigrate, settingsMigrations } from './migrations'
+
+interface SettingsState {
+  rateProfiles: CostRateProfile[]
+  activeRateProfileId: string
+  savedMappings: SavedMapping[]
+  scenarios: CostScenario[]
+  budgets: FiscalYearBudget[]
+  approvers: ProcurementApprover[]
+  vendors: Vendor[]
+  priceQuotes: PriceQuote[]
+  error: string | null
+
+  // Rate Profile Actions
+  addRateProfile: (profile: CostRateProfile) => void
+  updateRateProfile: (profile: CostRateProfile) => void
+  removeRateProfile: (id: string) => void
+  setActiveRateProfile: (id: string) => void
+
+  // Import Mapping Actions
+  saveMapping: (mapping: SavedMapping) => void
+  removeMapping: (id: string) => void
+  markMappingUsed: (id: string) => void
+
+  // Scenario Actions
+  addScenario: (scenario: CostScenario) => void
+  updateScenario: (scenario: CostScenario) => void
+  removeScenario: (id: string) => void
+
+  // Budget Actions
+  addBudget: (budget: FiscalYearBudget) => void
+  updateBudget: (budget: FiscalYearBudget) => void
+  removeBudget: (id: string) => void
+
+  // Approver Actions
+  addApprover: (approver: ProcurementApprover) => void
+  updateApprover: (approver: ProcurementApprover) => void
+  removeApprover: (id: string) => void
+
+  // Vendor Catalog Actions
+  addVendor: (vendor: Vendor) => void
+  updateVendor: (vendor: Vendor) => void
+  removeVendor: (id: string) => void
+  addPriceQuote: (quote: PriceQuote) => void
+  updatePriceQuote: (quote: PriceQuote) => void
+  removePriceQuote: (id: string) => void
+  importPriceQuotes: (quotes: PriceQuote[]) => void
+
+  // Queries
+  getRateProfile: (id?: string) => CostRateProfile
+  getActiveRateProfile: () => CostRateProfile
+
+  // Utility Actions
+  setError: (error: string | null) => void
+  clearError: () => void
+}
+
+type PersistedSettingsState = Pick<
+  SettingsState,
+  'rateProfiles' | 'activeRateProfileId' | 'savedMappings' | 'scenarios' | 'budgets' | 'approvers' | 'vendors' | 'priceQuotes'
+>
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set, get) => ({
+      rateProfiles: PRESET_RATE_PROFILES,
+      activeRateProfileId: DEFAULT_RATE_PROFILE.id,
+      savedMappings: [],
+      scenarios: [],
+      budgets: [],
+      approvers: [],
+      vendors: [],
+      priceQuotes: [],
+      error: null,
+
+      // Rate Profile Actions
+      addRateProfile: (profile) => {
+        try {
+          if (get().rateProfiles.some((p) => p.id === profile.id)) {
+            throw new Error('A rate profile with this ID already exists')
+          }
+          set((state) => ({
+            rateProfiles: [...state.rateProfiles, profile],
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to add rate profile' })
+        }
+      },
+
+      updateRateProfile: (updatedProfile) => {
+        try {
+          set((state) => ({
+            rateProfiles: state.rateProfiles.map((p) =>
+              p.id === updatedProfile.id
+                ? { ...updatedProfile, updated: new Date().toISOString() }
+                : p
+            ),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: 'Failed to update rate profile' })
+        }
+      },
+
+      removeRateProfile: (id) => {
+        try {
+          const remaining = get().rateProfiles.filter((p) => p.id !== id)
+          if (remaining.length === 0) {
+            throw new Error('At least one rate profile is required')
+          }
+          set((state) => ({
+            rateProfiles: remaining,
+            activeRateProfileId:
+              state.activeRateProfileId === id ? remaining[0].id : state.activeRateProfileId,
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to remove rate profile' })
+        }
+      },
+
+      setActiveRateProfile: (id) => {
+        if (!get().rateProfiles.some((p) => p.id === id)) {
+          set({ error: 'Rate profile not found' })
+          return
+        }
+        set({ activeRateProfileId: id, error: null })
+      },
+
+      // Import Mapping Actions
+      saveMapping: (mapping) => {
+        // Saving under an existing name for the same target replaces it
+        set((state) => ({
+          savedMappings: [
+            ...state.savedMappings.filter(
+              (m) => m.id !== mapping.id &&
+                !(m.target === mapping.target && m.name === mapping.name)
+            ),
+            mapping
+          ],
+          error: null
+        }))
+      },
+
+      removeMapping: (id) => {
+        set((state) => ({
+          savedMappings: state.savedMappings.filter((m) => m.id !== id)
+        }))
+      },
+
+      markMappingUsed: (id) => {
+        set((state) => ({
+          savedMappings: state.savedMappings.map((m) =>
+            m.id === id ? { ...m, lastUsed: new Date().toISOString() } : m
+          )
+        }))
+      },
+
+      // Scenario Actions
+      addScenario: (scenario) => {
+        try {
+          const validation = validateScenario(scenario)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          set((state) => ({
+            scenarios: [...state.scenarios, scenario],
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to add scenario' })
+        }
+      },
+
+      updateScenario: (updatedScenario) => {
+        try {
+          const validation = validateScenario(updatedScenario)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          set((state) => ({
+            scenarios: state.scenarios.map((s) =>
+              s.id === updatedScenario.id
+                ? { ...updatedScenario, updated: new Date().toISOString() }
+                : s
+            ),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to update scenario' })
+        }
+      },
+
+      removeScenario: (id) => {
+        set((state) => ({
+          scenarios: state.scenarios.filter((s) => s.id !== id),
+          error: null
+        }))
+      },
+
+      // Budget Actions
+      addBudget: (budget) => {
+        try {
+          const validation = validateBudget(budget)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          if (get().budgets.some((b) => b.fiscalYear === budget.fiscalYear)) {
+            throw new Error(`A budget for FY${budget.fiscalYear} already exists`)
+          }
+          set((state) => ({
+            budgets: [...state.budgets, budget],
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to add budget' })
+        }
+      },
+
+      updateBudget: (updatedBudget) => {
+        try {
+          const validation = validateBudget(updatedBudget)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          if (get().budgets.some((b) => b.id !== updatedBudget.id && b.fiscalYear === updatedBudget.fiscalYear)) {
+            throw new Error(`A budget for FY${updatedBudget.fiscalYear} already exists`)
+          }
+          set((state) => ({
+            budgets: state.budgets.map((b) =>
+              b.id === updatedBudget.id
+                ? { ...updatedBudget, updated: new Date().toISOString() }
+                : b
+            ),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to update budget' })
+        }
+      },
+
+      removeBudget: (id) => {
+        set((state) => ({
+          budgets: state.budgets.filter((b) => b.id !== id),
+          error: null
+        }))
+      },
+
+      // Approver Actions
+      addApprover: (approver) => {
+        try {
+          const validation = validateApprover(approver)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          set((state) => ({
+            approvers: [...state.approvers, approver],
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to add approver' })
+        }
+      },
+
+      updateApprover: (updatedApprover) => {
+        try {
+          const validation = validateApprover(updatedApprover)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          set((state) => ({
+            approvers: state.approvers.map((a) => (a.id === updatedApprover.id ? updatedApprover : a)),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to update approver' })
+        }
+      },
+
+      removeApprover: (id) => {
+        set((state) => ({
+          approvers: state.approvers.filter((a) => a.id !== id),
+          error: null
+        }))
+      },
+
+      // Vendor Catalog Actions
+      addVendor: (vendor) => {
+        try {
+          const validation = validateVendor(vendor)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          set((state) => ({
+            vendors: [...state.vendors, vendor],
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to add vendor' })
+        }
+      },
+
+      updateVendor: (updatedVendor) => {
+        try {
+          const validation = validateVendor(updatedVendor)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          set((state) => ({
+            vendors: state.vendors.map((v) =>
+              v.id === updatedVendor.id
+                ? { ...updatedVendor, updated: new Date().toISOString() }
+                : v
+            ),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to update vendor' })
+        }
+      },
+
+      // A vendor's quotes go with it
+      removeVendor: (id) => {
+        set((state) => ({
+          vendors: state.vendors.filter((v) => v.id !== id),
+          priceQuotes: state.priceQuotes.filter((q) => q.vendorId !== id),
+          error: null
+        }))
+      },
+
+      addPriceQuote: (quote) => {
+        get().importPriceQuotes([quote])
+      },
+
+      updatePriceQuote: (updatedQuote) => {
+        try {
+          const validation = validatePriceQuote(updatedQuote)
+          if (!validation.isValid) {
+            throw new Error(validation.errors.join(', '))
+          }
+          set((state) => ({
+            priceQuotes: state.priceQuotes.map((q) => (q.id === updatedQuote.id ? updatedQuote : q)),
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to update quote' })
+        }
+      },
+
+      removePriceQuote: (id) => {
+        set((state) => ({
+          priceQuotes: state.priceQuotes.filter((q) => q.id !== id),
+          error: null
+        }))
+      },
+
+      // All or nothing, so a bad line in an imported document leaves the catalog unchanged
+      importPriceQuotes: (quotes) => {
+        try {
+          quotes.forEach((quote) => {
+            const validation = validatePriceQuote(quote)
+            if (!validation.isValid) {
+              throw new Error(validation.errors.join(', '))
+            }
+            if (!get().vendors.some((v) => v.id === quote.vendorId)) {
+              throw new Error('Vendor not found')
+            }
+          })
+          set((state) => ({
+            priceQuotes: [...state.priceQuotes, ...quotes],
+            error: null
+          }))
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : 'Failed to add quote' })
+        }
+      },
+
+      // Queries
+      getRateProfile: (id) => {
+        const { rateProfiles, activeRateProfileId } = get()
+        return rateProfiles.find((p) => p.id === (id || activeRateProfileId)) ||
+          rateProfiles[0] ||
+          DEFAULT_RATE_PROFILE
+      },
+
+      getActiveRateProfile: () => get().getRateProfile(),
+
+      // Utility Actions
+      setError: (error) => set({ error }),
+      clearError: () => set({ error: null })
+    }),
+    {
+      name: 'settings-store',
+      storage: createStorage<PersistedSettingsState>(),
+      version: SCHEMA_VERSION,
+      migrate: createMigrate<PersistedSettingsState>(settingsMigrations),
+      partialize: (state) => ({
+        rateProfiles: state.rateProfiles,
+        activeRateProfileId: state.activeRateProfileId,
+        savedMappings: state.savedMappings,
+        scenarios: state.scenarios,
+        budgets: state.budgets,
+        approvers: state.approvers,
+        vendors: state.vendors,
+        priceQuotes: state.priceQuotes
+      })
+    }
+  )
+)
+
+// Selectors
+export const useRateProfiles = () => useSettingsStore((state) => state.rateProfiles)
+export const useActiveRateProfile = () =>
+  useSettingsStore((state) =>
+    state.rateProfiles.find((p) => p.id === state.activeRateProfileId) ||
+    state.rateProfiles[0] ||
+    DEFAULT_RATE_PROFILE
+  )
+export const useSavedMappings = () => useSettingsStore((state) => state.savedMappings)
+export const useScenarios = () => useSettingsStore((state) => state.scenarios)
+export const useBudgets = () => useSettingsStore((state) => state.budgets)
+export const useApprovers = () => useSettingsStore((state) => state.approvers)
+export const useVendors = () => useSettingsStore((state) => state.vendors)
+export const usePriceQuotes = () => useSettingsStore((state) => state.priceQuotes)
+export const useSettingsError = () => useSettingsStore((state) => state.error)
@@ -0,0 +1,345 @@
+import type {
+  WorkspaceBundle,
+  WorkspaceData,
+  WorkspaceCollection,
+  WorkspaceDiff,
+  WorkspaceImportMode
+} from '@/types/workspace'
+import {
+  validateEquipment,
+  validateConsumable,
+  validateScenario,
+  validateBudget,
+  validateApprover,
+  validateVendor,
+  validatePriceQuote
+} from '@/utils/validators'
+import { useEquipmentStore } from './equipmentStore'
+import { useInventoryStore } from './inventoryStore'
+import { useMaintenanceStore } from './maintenanceStore'
+import { useReportStore } from './reportStore'
+import { useSettingsStore } from './settingsStore'
+import {
+  SCHEMA_VERSION,
+  createMigrate,
+  equipmentMigrations,
+  inventoryMigrations,
+  maintenanceMigrations,
+  reportMigrations,
+  settingsMigrations
+} from './migrations'
+
+const WORKSPACE_FORMAT = 'staff-for-dummies-workspace'
+
+const COLLECTIONS: WorkspaceCollection[] = [
+  'equipment',
+  'combinations',
+  'consumables',
+  'transactions',
+  'procurementNeeds',
+  'purchaseOrders',
+  'workOrders',
+  'maintenancePlans',
+  'reports',
+  'rateProfiles',
+  'savedMappings',
+  'scenarios',
+  'budgets',
+  'approvers',
+  'vendors',
+  'priceQuotes'
+]
+
+type Identified = { id: string }
+
+// Key order can differ between a live object and its parsed copy
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+export const exportWorkspace = (): WorkspaceBundle => {
+  const { equipment, combinations } = useEquipmentStore.getState()
+  const { consumables, transactions, procurementNeeds, purchaseOrders } = useInventoryStore.getState()
+  const { workOrders, maintenancePlans } = useMaintenanceStore.getState()
+  const { reports } = useReportStore.getState()
+  const {
+    rateProfiles,
+    activeRateProfileId,
+    savedMappings,
+    scenarios,
+    budgets,
+    approvers,
+    vendors,
+    priceQuotes
+  } = useSettingsStore.getState()
+
+  return {
+    format: WORKSPACE_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: {
+      equipment,
+      combinations,
+      consumables,
+      transactions,
+      procurementNeeds,
+      purchaseOrders,
+      workOrders,
+      maintenancePlans,
+      reports,
+      rateProfiles,
+      activeRateProfileId,
+      savedMappings,
+      scenarios,
+      budgets,
+      approvers,
+      vendors,
+      priceQuotes
+    }
+  }
+}
+
+export const serializeWorkspace = (bundle: WorkspaceBundle): Blob => {
+  return new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' })
+}
+
+// Bundles from older builds go through the same migrations as persisted stores
+const migrateWorkspace = (data: Record<string, unknown>, version: number): WorkspaceData => {
+  const migrated = {
+    ...createMigrate<Partial<WorkspaceData>>(equipmentMigrations)(
+      { equipment: data.equipment, combinations: data.combinations },
+      version
+    ),
+    ...createMigrate<Partial<WorkspaceData>>(inventoryMigrations)(
+      {
+        consumables: data.consumables,
+        transactions: data.transactions,
+        procurementNeeds: data.procurementNeeds,
+        purchaseOrders: data.purchaseOrders
+      },
+      version
+    ),
+    ...createMigrate<Partial<WorkspaceData>>(maintenanceMigrations)(
+      { workOrders: data.workOrders, maintenancePlans: data.maintenancePlans },
+      version
+    ),
+    ...createMigrate<Partial<WorkspaceData>>(reportMigrations)({ reports: data.reports }, version),
+    ...createMigrate<Partial<WorkspaceData>>(settingsMigrations)(
+      {
+        rateProfiles: data.rateProfiles,
+        activeRateProfileId: data.activeRateProfileId,
+        savedMappings: data.savedMappings,
+        scenarios: data.scenarios,
+        budgets: data.budgets,
+        approvers: data.approvers,
+        vendors: data.vendors,
+        priceQuotes: data.priceQuotes
+      },
+      version
+    )
+  }
+  return {
+    ...migrated,
+    purchaseOrders: migrated.purchaseOrders || [],
+    workOrders: migrated.workOrders || [],
+    maintenancePlans: migrated.maintenancePlans || [],
+    savedMappings: migrated.savedMappings || [],
+    scenarios: migrated.scenarios || [],
+    budgets: migrated.budgets || [],
+    approvers: migrated.approvers || [],
+    vendors: migrated.vendors || [],
+    priceQuotes: migrated.priceQuotes || []
+  } as WorkspaceData
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+// Only the envelope is checked here; the collections are checked by validateWorkspace after migration
+const isWorkspaceExport = (
+  value: unknown
+): value is Record<string, unknown> & { format: typeof WORKSPACE_FORMAT; data: Record<string, unknown> } =>
+  isRecord(value) && value.format === WORKSPACE_FORMAT && isRecord(value.data)
+
+export const parseWorkspace = (text: string): WorkspaceBundle => {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+
+  if (!isWorkspaceExport(raw)) {
+    throw new Error('File is not a workspace export')
+  }
+  if (typeof raw.schemaVersion !== 'number') {
+    throw new Error('Workspace export has no schema version')
+  }
+
+  return {
+    format: WORKSPACE_FORMAT,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    data: migrateWorkspace(raw.data, raw.schemaVersion)
+  }
+}
+
+export const validateWorkspace = (bundle: WorkspaceBundle): string[] => {
+  const errors: string[] = []
+  const { data } = bundle
+
+  COLLECTIONS.forEach((collection) => {
+    const items = data[collection] as unknown
+    if (!Array.isArray(items)) {
+      errors.push(`${collection} must be a list`)
+      return
+    }
+
+    const ids = new Set<string>()
+    ;(items as Partial<Identified>[]).forEach((item, index) => {
+      if (!item || typeof item.id !== 'string' || !item.id) {
+        errors.push(`${collection}[${index}] has no id`)
+      } else if (ids.has(item.id)) {
+        errors.push(`${collection} contains duplicate id "${item.id}"`)
+      } else {
+        ids.add(item.id)
+      }
+    })
+  })
+
+  if (errors.length > 0) return errors
+
+  data.equipment.forEach((eq) => {
+    validateEquipment(eq).errors.forEach((error) => errors.push(`${eq.name || eq.id}: ${error}`))
+  })
+  data.consumables.forEach((c) => {
+    validateConsumable(c).errors.forEach((error) => errors.push(`${c.name || c.id}: ${error}`))
+  })
+  data.scenarios.forEach((s) => {
+    validateScenario(s).errors.forEach((error) => errors.push(`${s.name || s.id}: ${error}`))
+  })
+  data.budgets.forEach((b) => {
+    validateBudget(b).errors.forEach((error) => errors.push(`FY${b.fiscalYear}: ${error}`))
+  })
+  data.approvers.forEach((a) => {
+    validateApprover(a).errors.forEach((error) => errors.push(`${a.name || a.id}: ${error}`))
+  })
+  data.vendors.forEach((v) => {
+    validateVendor(v).errors.forEach((error) => errors.push(`${v.name || v.id}: ${error}`))
+  })
+  const vendorIds = new Set(data.vendors.map((v) => v.id))
+  data.priceQuotes.forEach((q) => {
+    validatePriceQuote(q).errors.forEach((error) => errors.push(`Quote ${q.reference || q.id}: ${error}`))
+    if (q.vendorId && !vendorIds.has(q.vendorId)) {
+      errors.push(`Quote ${q.reference || q.id}: vendor "${q.vendorId}" is not in the export`)
+    }
+  })
+
+  if (data.rateProfiles.length === 0) {
+    errors.push('At least one rate profile is required')
+  } else if (!data.rateProfiles.some((p) => p.id === data.activeRateProfileId)) {
+    errors.push(`Active rate profile "${data.activeRateProfileId}" is not in the export`)
+  }
+
+  return errors
+}
+
+export const diffWorkspace = (bundle: WorkspaceBundle): WorkspaceDiff => {
+  const current = exportWorkspace().data
+
+  return COLLECTIONS.reduce((diff, collection) => {
+    const local = new Map(
+      (current[collection] as Identified[]).map((item) => [item.id, stableStringify(item)])
+    )
+    const incoming = bundle.data[collection] as Identified[]
+    const incomingIds = new Set(incoming.map((item) => item.id))
+
+    diff[collection] = {
+      added: incoming.filter((item) => !local.has(item.id)).map((item) => item.id),
+      updated: incoming
+        .filter((item) => local.has(item.id) && local.get(item.id) !== stableStringify(item))
+        .map((item) => item.id),
+      unchanged: incoming
+        .filter((item) => local.get(item.id) === stableStringify(item))
+        .map((item) => item.id),
+      missing: Array.from(local.keys()).filter((id) => !incomingIds.has(id))
+    }
+    return diff
+  }, {} as WorkspaceDiff)
+}
+
+// Merge keeps local records the bundle does not mention; bundle records win on id clashes
+const mergeById = <T extends Identified>(local: T[], incoming: T[]): T[] => {
+  const incomingById = new Map(incoming.map((item) => [item.id, item]))
+  const localIds = new Set(local.map((item) => item.id))
+  return [
+    ...local.map((item) => incomingById.get(item.id) || item),
+    ...incoming.filter((item) => !localIds.has(item.id))
+  ]
+}
+
+export const importWorkspace = (bundle: WorkspaceBundle, mode: WorkspaceImportMode): void => {
+  const errors = validateWorkspace(bundle)
+  if (errors.length > 0) {
+    throw new Error(`Workspace export is invalid: ${errors[0]}`)
+  }
+
+  const current = exportWorkspace().data
+  const data: WorkspaceData = mode === 'replace'
+    ? bundle.data
+    : {
+        ...COLLECTIONS.reduce((merged, collection) => ({
+          ...merged,
+          [collection]: mergeById(
+            current[collection] as Identified[],
+            bundle.data[collection] as Identified[]
+          )
+        }), {} as Omit<WorkspaceData, 'activeRateProfileId'>),
+        activeRateProfileId: current.activeRateProfileId
+      }
+
+  useEquipmentStore.setState({
+    equipment: data.equipment,
+    combinations: data.combinations,
+    selectedEquipment: null,
+    selectedCombination: null,
+    error: null
+  })
+  useInventoryStore.setState({
+    consumables: data.consumables,
+    transactions: data.transactions,
+    procurementNeeds: data.procurementNeeds,
+    purchaseOrders: data.purchaseOrders,
+    selectedTransaction: null,
+    error: null
+  })
+  useMaintenanceStore.setState({
+    workOrders: data.workOrders,
+    maintenancePlans: data.maintenancePlans,
+    error: null
+  })
+  useReportStore.setState({
+    reports: data.reports,
+    selectedReport: null,
+    error: null
+  })
+  useSettingsStore.setState({
+    rateProfiles: data.rateProfiles,
+    activeRateProfileId: data.activeRateProfileId,
+    savedMappings: data.savedMappings,
+    scenarios: data.scenarios,
+    budgets: data.budgets,
+    approvers: data.approvers,
+    vendors: data.vendors,
+    priceQuotes: data.priceQuotes,
+    error: null
+  })
+}
@@ -0,0 +1,52 @@
+import type { InventoryTransaction, ConsumableTransaction, ProcurementNeed } from './inventory'
+import type { WorkOrder } from './maintenance'
+
+export type BudgetCategory = 'acquisition' | 'operations' | 'personnel' | 'consumables'
+
+export interface FiscalYearBudget {
+  id: string
+  fiscalYear: number    // Named for the calendar year it ends in, e.g. FY2027 from Oct 2026 to Sep 2027
+  startMonth: number    // 0-11; January starts a fiscal year that matches the calendar year
+  allocations: Record<BudgetCategory, number>
+  notes: string
+  created: string
+  updated: string
+}
+
+export type BudgetHealth = 'on-track' | 'at-risk' | 'over-run'
+
+export interface BudgetLine {
+  planned: number
+  obligated: number       // Approved procurement not yet received
+  expended: number        // Recorded spend dated within the fiscal year so far
+  available: number       // Planned less obligated and expended
+  burnRate: number        // Expended per day of the fiscal year elapsed
+  forecast: number        // Expended and obligated, plus the burn rate over the days remaining
+  variance: number        // Forecast less planned; positive is a projected over-run
+  health: BudgetHealth
+}
+
+export interface BudgetCategoryStatus extends BudgetLine {
+  category: BudgetCategory
+}
+
+export interface BudgetStatus {
+  budget: FiscalYearBudget
+  start: string
+  end: string             // Exclusive; the first day of the next fiscal year
+  elapsedDays: number
+  totalDays: number
+  categories: BudgetCategoryStatus[]
+  total: BudgetLine
+  // Cumulative by month end; the forecast starts from today's commitments and adds the burn rate
+  months: { date: string; planned: number; expended?: number; forecast?: number }[]
+  warnings: string[]
+}
+
+// Inputs to a budget status, gathered from the inventory, maintenance and equipment stores
+export interface BudgetActivity {
+  procurementNeeds: ProcurementNeed[]
+  transactions: (InventoryTransaction | ConsumableTransaction)[]
+  workOrders: WorkOrder[]
+  personnelCostPerMonth: number   // Accrued month by month; the app records no payroll
+}
@@ -1,25 +1,107 @@
+import type { ForecastSettings } from './forecast'
+import type { InventoryPolicy } from './policy'
+
 export type EquipmentCategory = 'platform' | 'payload' | 'sensor'
 export type DegradationType = 'cycles' | 'hours' | 'time'
 
+export interface ConsumablePrice {
+  price: number
+  effectiveDate: string
+}
+
 export interface Consumable {
   id: string
   name: string
   unit: string
   costPerUnit: number
+  priceHistory?: ConsumablePrice[]  // Effective-dated unit prices, oldest first
   stockLevel: number
   minimumStock: number
   reorderPoint: number
+  forecast?: ForecastSettings       // How demand is forecast; the best backtested method when unset
+  policy?: InventoryPolicy          // Replenishment parameters; the defaults when unset
+  orderQuantity?: number            // Quantity ordered at the reorder point; up to twice the reorder point when unset
+}
+
+export interface OperatingTempo {
+  usesPerDay: number
+  hoursPerDay: number
+  sortiesPerWeek: number
+}
+
+export type UsageBasis = 'observed' | 'tempo'
+
+// How replacement predictions derive a usage rate from deployment/return history
+export interface UsageRateOptions {
+  lookbackDays?: number           // History considered; DEFAULT_USAGE_LOOKBACK_DAYS when unset
+  bucketDays?: number             // Sub-period length; the spread between sub-periods sets the confidence band
+  fallbackTempo?: OperatingTempo  // Assumed at full utilization when the window has no history; the equipment's tempo when unset
+  serialNumber?: string           // Only this unit's deployments
+}
+
+export interface ObservedUtilization {
+  basis: UsageBasis
+  tempo: OperatingTempo  // Usage rate while deployed
+  likely: number         // Share of unit-days deployed across the window
+  low: number            // One standard deviation either side across sub-periods
+  high: number
 }
 
-export interface DegradationParams {
+export type DegradationModel = 'linear' | 'exponential' | 'weibull' | 'bathtub'
+
+// One measure of life (cycles, hours or calendar days) with its own wear curve
+export interface LifeLimit {
   type: DegradationType
   maxValue: number
   currentValue: number
+  degradationRate: number  // Per use/hour/day depending on type; averaged over the rated life for non-linear models
+  model?: DegradationModel // Shape of the wear curve; linear when unset
+  shape?: number           // Exponential growth, Weibull β, or bathtub wear-out β
+  wearInShape?: number     // Bathtub only: early-life β, below 1
+  wearInShare?: number     // Bathtub only: share of total wear due to early-life wear
+}
+
+// The top-level fields are the primary life limit; health is set by the most-limiting of all limits
+export interface DegradationParams extends LifeLimit {
   replacementCost: number
-  degradationRate: number  // Per use/hour/day depending on type
+  limits?: LifeLimit[]     // Further limits tracked alongside the primary one, one per type
   lastUpdated: string
 }
 
+export type UnitStatus = 'available' | 'deployed' | 'maintenance' | 'disposed'
+
+export interface UnitEvent {
+  date: string
+  type: 'acquired' | 'deployed' | 'returned' | 'maintenance' | 'disposed'
+  location: string
+  transactionId?: string
+  workOrderId?: string
+  notes?: string
+}
+
+export type DegradationCause = 'usage' | 'maintenance' | 'adjustment'
+
+export interface DegradationRecord {
+  date: string
+  cause: DegradationCause
+  healthBefore: number  // Most-limiting share of max, in percent
+  healthAfter: number
+  changes: { type: DegradationType; before: number; after: number }[]  // Life limits whose current value moved
+  transactionId?: string
+  workOrderId?: string
+  notes?: string
+}
+
+export interface EquipmentUnit {
+  serialNumber: string
+  status: UnitStatus
+  location: string
+  degradation: DegradationParams
+  acquiredDate: string
+  history: UnitEvent[]  // Oldest first
+  degradationLog: DegradationRecord[]  // Oldest first
+}
+
 export interface Equipment {
   id: string
   category: EquipmentCategory
@@ -28,14 +110,16 @@ export interface Equipment {
   manufacturer: string
   modelNumber: string
   acquisitionCost: number
-  quantity: number
-  inUse: number
+  quantity: number  // Derived: units not disposed
+  inUse: number     // Derived: units deployed
+  units: EquipmentUnit[]
   consumables: {
     id: string
     unitsPerUse: number
   }[]
-  degradation: DegradationParams
+  degradation: DegradationParams  // Model parameters for new units; currentValue is the fleet average
   personnelRequired: number
+  tempo?: OperatingTempo  // Falls back to DEFAULT_OPERATING_TEMPO
   dateAdded: string
   lastUsed?: string
   specifications: Record<string, string | number>
@@ -60,6 +144,7 @@ export interface EquipmentCombination {
     id: string
     quantity: number
   }[]
+  tempo?: OperatingTempo  // Overrides each member's own tempo
   created: string
   lastUsed?: string
   usageCount: number
@@ -0,0 +1,52 @@
+export type ForecastMethod = 'moving-average' | 'exponential-smoothing' | 'plan'
+
+// 'auto' uses whichever method backtests best on the item's own history
+export type ForecastSelection = 'auto' | ForecastMethod
+
+export interface ForecastSettings {
+  method: ForecastSelection
+  scenarioId?: string     // Deployment schedule the plan-based method follows; the current plan when unset
+}
+
+export interface ForecastOptions {
+  periodDays?: number     // Length of each demand period; 7 when unset
+  historyPeriods?: number // Periods of history fitted; 26 when unset
+  horizonPeriods?: number // Periods forecast ahead; 13 when unset
+  confidence?: number     // Prediction interval coverage; 0.9 when unset
+  window?: number         // Moving-average window in periods; 4 when unset
+  seasonLength?: number   // Periods per seasonal cycle; 4 (a four-week cycle) when unset
+  asOf?: Date
+}
+
+export interface DemandPeriod {
+  start: string
+  actual: number
+}
+
+export interface ForecastPoint {
+  start: string
+  forecast: number
+  lower: number
+  upper: number
+}
+
+// Rolling one-period-ahead backtest over the most recent history
+export interface ForecastAccuracy {
+  periods: number
+  mae: number             // Mean absolute error per period
+  wape: number            // Absolute error as a share of actual demand
+  bias: number            // Mean error; positive when the method over-forecasts
+}
+
+export interface DemandForecast {
+  consumableId: string
+  method: ForecastMethod
+  periodDays: number
+  history: DemandPeriod[]
+  points: ForecastPoint[]
+  dailyRate: number       // Mean forecast demand per day over the horizon
+  dailyStdDev: number     // Forecast error per day, for safety stock
+  total: { forecast: number; lower: number; upper: number }
+  confidence: number
+  accuracy?: ForecastAccuracy  // Unset when there is too little history to backtest
+}
@@ -0,0 +1,36 @@
+import type { Equipment, Consumable } from './equipment'
+
+export type ImportTarget = 'equipment' | 'consumable'
+
+export interface ImportField {
+  key: string
+  label: string
+  type: 'string' | 'number' | 'category' | 'degradationType'
+  required: boolean
+  aliases: string[]  // Header spellings that map to this field, lowercase
+}
+
+// Field key -> spreadsheet header
+export type ColumnMapping = Record<string, string>
+
+export interface SavedMapping {
+  id: string
+  name: string
+  target: ImportTarget
+  mapping: ColumnMapping
+  created: string
+  lastUsed?: string
+}
+
+export interface SpreadsheetData {
+  fileName: string
+  headers: string[]
+  rows: Record<string, string>[]
+}
+
+export interface ImportRow<T = Equipment | Consumable> {
+  index: number  // 1-based row number in the source sheet, excluding the header
+  data: T
+  errors: string[]
+  isValid: boolean
+}
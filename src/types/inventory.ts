@@ -1,10 +1,13 @@
 import type { Equipment, Consumable } from './equipment'
+import type { ProcurementEvent, ProcurementStatus } from './procurement'
 
 export interface InventoryTransaction {
   id: string
   equipmentId: string
   type: 'acquisition' | 'deployment' | 'return' | 'disposal'
   quantity: number
+  serialNumbers?: string[]  // Units acted on; new serials for an acquisition
+  location?: string
   date: string
   notes: string
   cost?: number
@@ -21,6 +24,11 @@ export interface ConsumableTransaction {
   associatedEquipmentId?: string
 }
 
+export interface TransactionResult {
+  success: boolean
+  message: string
+}
+
 export interface InventoryReport {
   date: string
   equipment: {
@@ -53,5 +61,17 @@ export interface ProcurementNeed {
   priority: 'high' | 'medium' | 'low'
   reason: string
   requestDate: string
-  status: 'pending' | 'approved' | 'ordered' | 'received'
+  status: ProcurementStatus
+  justification?: string
+  approvedBy?: string     // Approver id
+  approvedDate?: string   // Obligates estimatedCost against the fiscal year it falls in
+  purchaseOrderId?: string
+  orderedDate?: string
+  quantityReceived?: number
+  receivedDate?: string   // Set when the last of the quantity arrives
+  history?: ProcurementEvent[]
+  vendorId?: string       // Set when estimatedCost comes from a catalog quote
+  quoteId?: string
+  leadTimeDays?: number   // The chosen quote's lead time
+  requiredWithinDays?: number  // How soon the item is needed, where that is known
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+export type DepreciationMethod = 'straight-line' | 'declining-balance' | 'units-of-production'
+
+export interface LifecycleOptions {
+  serviceLifeYears: number
+  discountRate: number              // Annual, e.g. 0.05 for 5%
+  depreciationMethod: DepreciationMethod
+  decliningBalanceFactor: number    // Multiple of the straight-line rate; 2 is double-declining
+  salvageRate: number               // Share of acquisition cost recovered at disposal
+  disposalRate: number              // Share of acquisition cost spent on disposal
+}
+
+export interface LifecycleCostYear {
+  year: number          // 1-based year of service
+  date: string          // Start of the year
+  operational: number
+  maintenance: number
+  consumables: number
+  personnel: number
+  depreciation: number  // Non-cash; excluded from the cash flow
+  bookValue: number     // At year end
+  cashFlow: number      // Running costs, plus net disposal in the final year
+  presentValue: number
+}
+
+export interface LifecycleCost {
+  options: LifecycleOptions
+  acquisition: number
+  operational: number
+  maintenance: number
+  consumables: number
+  personnel: number
+  disposalCost: number
+  salvageValue: number
+  totalCost: number        // Undiscounted cash cost of ownership, net of salvage
+  netPresentValue: number  // Acquisition today plus each year's cash flow discounted from year end
+  years: LifecycleCostYear[]
+}
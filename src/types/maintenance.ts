@@ -0,0 +1,56 @@
+export type WorkOrderStatus = 'scheduled' | 'in-progress' | 'completed'
+
+export interface WorkOrderPart {
+  consumableId: string
+  quantity: number
+}
+
+export interface WorkOrder {
+  id: string
+  equipmentId: string
+  serialNumber: string
+  planId?: string               // Set when generated from a preventive maintenance plan
+  title: string
+  description: string
+  status: WorkOrderStatus
+  scheduledDate: string
+  startedDate?: string
+  completedDate?: string
+  laborHours: number
+  parts: WorkOrderPart[]        // Drawn from consumable stock on completion
+  restorationPercent: number    // Share of maxValue restored on completion; 100 resets the unit
+  laborCost?: number            // Costs are fixed when the order is completed
+  partsCost?: number
+  actualCost?: number
+  healthBefore?: number         // Unit health (% of the most-limiting life limit) before and after the work
+  healthAfter?: number
+  created: string
+}
+
+// Preventive maintenance for every unit of one equipment type; whichever interval is reached first triggers
+export interface MaintenancePlan {
+  id: string
+  equipmentId: string
+  name: string
+  intervalCycles?: number
+  intervalHours?: number
+  intervalDays?: number
+  laborHours: number
+  restorationPercent: number
+  parts: WorkOrderPart[]
+  created: string
+}
+
+export type MaintenanceTrigger = 'cycles' | 'hours' | 'days'
+
+export interface MaintenanceDue {
+  planId: string
+  planName: string
+  equipmentId: string
+  serialNumber: string
+  dueDate: string
+  trigger: MaintenanceTrigger
+  lastPerformed: string | null  // Completion of the last work order for this plan, if any
+  overdue: boolean
+  workOrderId?: string          // Open work order already raised for it
+}
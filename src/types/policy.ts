@@ -0,0 +1,27 @@
+import type { ForecastMethod } from './forecast'
+
+export interface InventoryPolicy {
+  serviceLevel: number        // Chance, in %, that stock lasts through a replenishment cycle
+  leadTimeDays: number        // Mean days from order to receipt
+  leadTimeStdDevDays: number  // Standard deviation of the lead time in days
+  orderCost: number           // Fixed cost of placing and receiving one order
+  holdingRate: number         // Annual cost of holding stock, in % of its unit price
+  shelfLifeDays?: number      // Days before stock expires; no limit when unset
+}
+
+export interface PolicyLevels {
+  minimumStock: number
+  reorderPoint: number
+  orderQuantity?: number
+}
+
+// Levels recalculated from the forecast and policy, awaiting review before they are applied
+export interface PolicyProposal {
+  consumableId: string
+  current: PolicyLevels
+  proposed: Required<PolicyLevels>
+  dailyDemand: number
+  forecastMethod: ForecastMethod
+  annualCost: number          // Ordering plus holding cost per year at the proposed levels
+  limitedByShelfLife: boolean // Order quantity cut back so stock is used before it expires
+}
@@ -0,0 +1,55 @@
+// pending -> approved -> ordered -> received; pending and approved needs can be cancelled
+export type ProcurementStatus = 'pending' | 'approved' | 'ordered' | 'received' | 'cancelled'
+
+// Someone allowed to approve procurement up to a limit per need
+export interface ProcurementApprover {
+  id: string
+  name: string
+  role: string
+  approvalLimit: number
+}
+
+export interface ProcurementEvent {
+  date: string
+  status: ProcurementStatus
+  actor?: string          // Approver name, or the vendor for orders and receipts
+  note?: string
+}
+
+export type PurchaseOrderStatus = 'open' | 'partially-received' | 'received'
+
+export interface PurchaseReceiptLine {
+  needId: string
+  quantity: number
+  cost: number
+}
+
+export interface PurchaseReceipt {
+  id: string
+  date: string
+  lines: PurchaseReceiptLine[]
+  transactionIds: string[]  // The purchase and acquisition transactions it posted
+}
+
+export interface PurchaseOrder {
+  id: string
+  number: string            // PO-<year>-<sequence>
+  vendor: string
+  vendorId?: string         // Set when the vendor was picked from the catalog
+  needIds: string[]
+  status: PurchaseOrderStatus
+  orderedDate: string
+  expectedDate?: string
+  receivedDate?: string     // Set by the receipt that completes the order
+  receipts: PurchaseReceipt[]
+  notes: string
+}
+
+export interface VendorLeadTime {
+  vendor: string
+  orders: number            // Fully received orders the figures are drawn from
+  averageDays: number
+  maxDays: number
+  openOrders: number
+  overdueOrders: number     // Open past their expected date
+}
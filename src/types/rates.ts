@@ -0,0 +1,10 @@
+export interface CostRateProfile {
+  id: string
+  name: string
+  description: string
+  personnelCostPerMonth: number  // Per person
+  operationalRate: number        // Monthly fraction of acquisition cost
+  maintenanceRate: number        // Monthly fraction of acquisition cost
+  created: string
+  updated: string
+}
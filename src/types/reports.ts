@@ -13,8 +13,9 @@ export interface PDFReport {
   }
   
   export interface CostBreakdown {
-    total: number
-    acquisition: number
+    total: number         // Monthly run rate: depreciation plus running costs; acquisition is not included
+    acquisition: number   // One-off capital cost
+    depreciation: number
     operational: number
     maintenance: number
     personnel: number
@@ -31,9 +32,11 @@ export interface PDFReport {
       }
       consumablesBreakdown: Array<{
         id: string
+        name: string
         units: number
         costPerUnit: number
         totalCost: number
+        resolved: boolean  // False when the id is not in the consumables catalog
       }>
     }
   }
\ No newline at end of file
@@ -0,0 +1,35 @@
+import type { OperatingTempo } from './equipment'
+
+// A stretch of the projection run at a multiple of the normal tempo, e.g. an exercise or deployment
+export interface DeploymentPeriod {
+  startMonth: number   // 0 is the first projected month
+  months: number
+  tempoFactor: number  // 2 doubles uses, hours and sorties for the period
+}
+
+export type EscalatedCost = 'operational' | 'maintenance' | 'personnel' | 'consumables'
+
+// Annual rates, compounded monthly from the projection start; unset categories do not escalate
+export type InflationRates = Partial<Record<EscalatedCost, number>>
+
+// What-if overrides applied to a cost projection
+export interface ProjectionOverrides {
+  tempo?: OperatingTempo               // Replaces every item's own tempo
+  fleet?: Record<string, number>       // Units costed per equipment id; its current quantity when unset
+  inflation?: InflationRates
+  deployments?: DeploymentPeriod[]
+}
+
+export interface CostScenario {
+  id: string
+  name: string
+  description: string
+  rateProfileId: string
+  personnelCostPerMonth?: number       // Overrides the rate profile's cost per person
+  tempo?: OperatingTempo
+  fleet: { equipmentId: string; quantity: number }[]  // Unlisted equipment keeps its current quantity
+  inflationRate: number                // Applied to every running cost
+  deployments: DeploymentPeriod[]
+  created: string
+  updated: string
+}
@@ -0,0 +1,66 @@
+export interface VendorContact {
+  name: string
+  email: string
+  phone: string
+}
+
+export interface Vendor {
+  id: string
+  name: string
+  contact: VendorContact
+  leadTimeDays: number      // Typical days from order to delivery, unless a quote says otherwise
+  minimumOrder: number      // Smallest order value the vendor accepts
+  terms: string             // Payment terms, e.g. "Net 30"
+  notes: string
+  created: string
+  updated: string
+}
+
+// The unit price applies from minQuantity up to the next break
+export interface PriceBreak {
+  minQuantity: number
+  unitPrice: number
+}
+
+export interface PriceQuote {
+  id: string
+  vendorId: string
+  itemType: 'equipment' | 'consumable'
+  itemId: string
+  priceBreaks: PriceBreak[]
+  validFrom: string
+  validUntil: string        // Inclusive
+  leadTimeDays?: number     // Overrides the vendor's lead time for this item
+  reference: string         // The vendor's quote number
+  source: 'manual' | 'pdf'
+  created: string
+}
+
+export interface VendorCatalog {
+  vendors: Vendor[]
+  quotes: PriceQuote[]
+}
+
+export interface QuoteOption {
+  quote: PriceQuote
+  vendor: Vendor
+  unitPrice: number
+  totalCost: number         // Raised to the vendor's minimum order
+  leadTimeDays: number
+  meetsLeadTime: boolean
+}
+
+// A priced line read from a quote document, before it is matched to the catalog
+export interface ExtractedQuoteLine {
+  description: string
+  minQuantity: number
+  unitPrice: number
+}
+
+export interface ExtractedQuote {
+  vendorName?: string
+  reference?: string
+  validUntil?: string
+  leadTimeDays?: number
+  lines: ExtractedQuoteLine[]
+}
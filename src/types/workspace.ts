@@ -0,0 +1,51 @@
+import type { Equipment, EquipmentCombination, Consumable } from './equipment'
+import type { InventoryTransaction, ConsumableTransaction, ProcurementNeed } from './inventory'
+import type { WorkOrder, MaintenancePlan } from './maintenance'
+import type { PDFReport } from './reports'
+import type { CostRateProfile } from './rates'
+import type { SavedMapping } from './import'
+import type { CostScenario } from './scenarios'
+import type { FiscalYearBudget } from './budget'
+import type { PurchaseOrder, ProcurementApprover } from './procurement'
+import type { Vendor, PriceQuote } from './vendors'
+
+export type WorkspaceImportMode = 'merge' | 'replace'
+
+// Exactly the persisted slice of every store
+export interface WorkspaceData {
+  equipment: Equipment[]
+  combinations: EquipmentCombination[]
+  consumables: Consumable[]
+  transactions: (InventoryTransaction | ConsumableTransaction)[]
+  procurementNeeds: ProcurementNeed[]
+  purchaseOrders: PurchaseOrder[]
+  workOrders: WorkOrder[]
+  maintenancePlans: MaintenancePlan[]
+  reports: PDFReport[]
+  rateProfiles: CostRateProfile[]
+  activeRateProfileId: string
+  savedMappings: SavedMapping[]
+  scenarios: CostScenario[]
+  budgets: FiscalYearBudget[]
+  approvers: ProcurementApprover[]
+  vendors: Vendor[]
+  priceQuotes: PriceQuote[]
+}
+
+export type WorkspaceCollection = Exclude<keyof WorkspaceData, 'activeRateProfileId'>
+
+export interface WorkspaceBundle {
+  format: 'staff-for-dummies-workspace'
+  schemaVersion: number
+  exportedAt: string
+  data: WorkspaceData
+}
+
+export interface CollectionDiff {
+  added: string[]
+  updated: string[]
+  unchanged: string[]
+  missing: string[]  // Present locally but not in the bundle; removed by a replace import
+}
+
+export type WorkspaceDiff = Record<WorkspaceCollection, CollectionDiff>
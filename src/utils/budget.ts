@@ -0,0 +1,232 @@
+import type {
+  BudgetActivity,
+  BudgetCategory,
+  BudgetCategoryStatus,
+  BudgetHealth,
+  BudgetLine,
+  BudgetStatus,
+  FiscalYearBudget
+} from '@/types/budget'
+import type { InventoryTransaction, ConsumableTransaction, ProcurementNeed } from '@/types/inventory'
+import { formatCurrency } from './formatters'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const BUDGET_CATEGORIES: Record<BudgetCategory, { label: string; description: string }> = {
+  acquisition: {
+    label: 'Acquisition',
+    description: 'Equipment procurement and acquisition transactions'
+  },
+  operations: {
+    label: 'O&M',
+    description: 'Work order labor and the cost of deployments, returns and disposals'
+  },
+  personnel: {
+    label: 'Personnel',
+    description: 'Accrued monthly from the crew the fleet requires'
+  },
+  consumables: {
+    label: 'Consumables',
+    description: 'Consumable procurement and purchase transactions'
+  }
+}
+
+export const FISCAL_YEAR_START_MONTH = 9  // October
+
+// Fiscal years are named for the calendar year they end in
+export const getFiscalYear = (date: Date, startMonth: number = FISCAL_YEAR_START_MONTH): number => {
+  return startMonth > 0 && date.getMonth() >= startMonth ? date.getFullYear() + 1 : date.getFullYear()
+}
+
+export const getFiscalYearRange = (
+  fiscalYear: number,
+  startMonth: number = FISCAL_YEAR_START_MONTH
+): { start: Date; end: Date } => {
+  const start = new Date(startMonth > 0 ? fiscalYear - 1 : fiscalYear, startMonth, 1)
+  return { start, end: new Date(start.getFullYear() + 1, startMonth, 1) }
+}
+
+export const findBudget = (
+  budgets: FiscalYearBudget[],
+  date: Date = new Date()
+): FiscalYearBudget | undefined => {
+  return budgets.find(budget => {
+    const { start, end } = getFiscalYearRange(budget.fiscalYear, budget.startMonth)
+    return date >= start && date < end
+  })
+}
+
+export const getProcurementCategory = (need: ProcurementNeed): BudgetCategory =>
+  need.itemType === 'equipment' ? 'acquisition' : 'consumables'
+
+export const getTransactionCategory = (
+  transaction: InventoryTransaction | ConsumableTransaction
+): BudgetCategory => {
+  if ('consumableId' in transaction) {
+    return transaction.type === 'purchase' ? 'consumables' : 'operations'
+  }
+  return transaction.type === 'acquisition' ? 'acquisition' : 'operations'
+}
+
+const emptyAmounts = (): Record<BudgetCategory, number> => ({
+  acquisition: 0,
+  operations: 0,
+  personnel: 0,
+  consumables: 0
+})
+
+const isWithin = (date: string | undefined, start: Date, end: Date): boolean => {
+  if (!date) return false
+  const time = new Date(date).getTime()
+  return time >= start.getTime() && time < end.getTime()
+}
+
+// Approved and ordered procurement holds funds until it is received and its spend is recorded;
+// a partial receipt releases the received share
+export const getObligations = (
+  needs: ProcurementNeed[],
+  start: Date,
+  end: Date
+): Record<BudgetCategory, number> => {
+  return needs
+    .filter(need => (need.status === 'approved' || need.status === 'ordered') && isWithin(need.approvedDate, start, end))
+    .reduce((amounts, need) => {
+      const outstanding = need.quantity > 0 ? 1 - (need.quantityReceived || 0) / need.quantity : 0
+      amounts[getProcurementCategory(need)] += need.estimatedCost * outstanding
+      return amounts
+    }, emptyAmounts())
+}
+
+// Spend recorded in [start, end); personnel accrues evenly over the elapsed share of the year
+export const getExpenditures = (
+  activity: BudgetActivity,
+  start: Date,
+  end: Date,
+  yearDays: number
+): Record<BudgetCategory, number> => {
+  const amounts = emptyAmounts()
+
+  activity.transactions.forEach(transaction => {
+    if (!transaction.cost || !isWithin(transaction.date, start, end)) return
+    // Stock was paid for when it was purchased; the cost a draw carries only prices it for the work order
+    if ('consumableId' in transaction && transaction.type !== 'purchase') return
+    amounts[getTransactionCategory(transaction)] += transaction.cost
+  })
+  activity.workOrders.forEach(order => {
+    if (order.status === 'completed' && order.laborCost && isWithin(order.completedDate, start, end)) {
+      amounts.operations += order.laborCost
+    }
+  })
+
+  const days = Math.max(0, (end.getTime() - start.getTime()) / DAY_MS)
+  amounts.personnel = activity.personnelCostPerMonth * 12 * (days / yearDays)
+
+  return amounts
+}
+
+const getHealth = (planned: number, committed: number, forecast: number): BudgetHealth => {
+  if (committed > planned) return 'over-run'
+  if (forecast > planned) return 'at-risk'
+  return 'on-track'
+}
+
+const getLine = (
+  planned: number,
+  obligated: number,
+  expended: number,
+  elapsedDays: number,
+  remainingDays: number
+): BudgetLine => {
+  const burnRate = elapsedDays > 0 ? expended / elapsedDays : 0
+  const forecast = expended + obligated + burnRate * remainingDays
+  return {
+    planned,
+    obligated,
+    expended,
+    available: planned - obligated - expended,
+    burnRate,
+    forecast,
+    variance: forecast - planned,
+    health: getHealth(planned, obligated + expended, forecast)
+  }
+}
+
+export const getBudgetStatus = (
+  budget: FiscalYearBudget,
+  activity: BudgetActivity,
+  asOf: Date = new Date()
+): BudgetStatus => {
+  const { start, end } = getFiscalYearRange(budget.fiscalYear, budget.startMonth)
+  const totalDays = Math.round((end.getTime() - start.getTime()) / DAY_MS)
+  const now = new Date(Math.min(Math.max(asOf.getTime(), start.getTime()), end.getTime()))
+  const elapsedDays = (now.getTime() - start.getTime()) / DAY_MS
+  const remainingDays = totalDays - elapsedDays
+  // Spend recorded at this very instant, such as a receipt just posted, counts as spent
+  const spentUntil = new Date(Math.min(now.getTime() + 1, end.getTime()))
+
+  const obligations = getObligations(activity.procurementNeeds, start, end)
+  const expenditures = getExpenditures(activity, start, spentUntil, totalDays)
+
+  const categories: BudgetCategoryStatus[] = (Object.keys(BUDGET_CATEGORIES) as BudgetCategory[]).map(category => ({
+    category,
+    ...getLine(
+      budget.allocations[category] || 0,
+      obligations[category],
+      expenditures[category],
+      elapsedDays,
+      remainingDays
+    )
+  }))
+
+  const sum = (value: (line: BudgetCategoryStatus) => number) =>
+    categories.reduce((total, line) => total + value(line), 0)
+  const total = getLine(
+    sum(line => line.planned),
+    sum(line => line.obligated),
+    sum(line => line.expended),
+    elapsedDays,
+    remainingDays
+  )
+
+  // The plan is spread evenly; actuals run to today and the forecast from today to year end
+  const months = Array.from({ length: 12 }, (_, index) => {
+    const monthStart = new Date(start.getFullYear(), start.getMonth() + index, 1)
+    const monthEnd = new Date(start.getFullYear(), start.getMonth() + index + 1, 1)
+    const planned = total.planned * ((monthEnd.getTime() - start.getTime()) / DAY_MS / totalDays)
+    const point: BudgetStatus['months'][number] = { date: monthStart.toISOString(), planned }
+
+    if (monthStart < now) {
+      const until = monthEnd < now ? monthEnd : spentUntil
+      const spent = getExpenditures(activity, start, until, totalDays)
+      point.expended = (Object.values(spent) as number[]).reduce((sum, amount) => sum + amount, 0)
+    }
+    if (monthEnd >= now && now < end) {
+      point.forecast = total.expended + total.obligated +
+        total.burnRate * ((monthEnd.getTime() - now.getTime()) / DAY_MS)
+    }
+    return point
+  })
+
+  const warnings = categories.flatMap(line => {
+    const { label } = BUDGET_CATEGORIES[line.category]
+    if (line.health === 'over-run') {
+      return [`${label} is over-committed by ${formatCurrency(Math.round(-line.available))}`]
+    }
+    if (line.health === 'at-risk') {
+      return [`${label} is forecast to over-run by ${formatCurrency(Math.round(line.variance))} at the current burn rate`]
+    }
+    return []
+  })
+
+  return {
+    budget,
+    start: start.toISOString(),
+    end: end.toISOString(),
+    elapsedDays,
+    totalDays,
+    categories,
+    total,
+    months,
+    warnings
+  }
+}
@@ -0,0 +1,118 @@
+import type { DegradationModel, DegradationParams, DegradationType, LifeLimit } from '@/types/equipment'
+
+interface DegradationModelDefinition {
+  label: string
+  description: string
+  defaults: Pick<LifeLimit, 'shape' | 'wearInShape' | 'wearInShare'>
+  // Share of total wear reached after the given share of the rated life; 0 maps to 0 and 1 to 1
+  wear: (lifeUsed: number, params: LifeLimit) => number
+}
+
+export const DEGRADATION_MODELS: Record<DegradationModel, DegradationModelDefinition> = {
+  linear: {
+    label: 'Linear',
+    description: 'The same wear for every use, hour or day',
+    defaults: {},
+    wear: (x) => x
+  },
+  exponential: {
+    label: 'Exponential',
+    description: 'Wear accelerates with age; a larger shape means a steeper end of life',
+    defaults: { shape: 3 },
+    wear: (x, params) => {
+      const k = params.shape ?? 3
+      return (Math.exp(k * x) - 1) / (Math.exp(k) - 1)
+    }
+  },
+  weibull: {
+    label: 'Weibull',
+    description: 'Power-law wear; β above 1 wears out late, β below 1 wears in early',
+    defaults: { shape: 2 },
+    wear: (x, params) => Math.pow(x, params.shape ?? 2)
+  },
+  bathtub: {
+    label: 'Bathtub',
+    description: 'Fast early-life wear, a flat middle, then wear-out',
+    defaults: { shape: 3, wearInShape: 0.5, wearInShare: 0.2 },
+    wear: (x, params) => {
+      const share = params.wearInShare ?? 0.2
+      return share * Math.pow(x, params.wearInShape ?? 0.5) + (1 - share) * Math.pow(x, params.shape ?? 3)
+    }
+  }
+}
+
+export const getDegradationModel = (params: LifeLimit): DegradationModelDefinition =>
+  DEGRADATION_MODELS[params.model || 'linear']
+
+// Usage, in the params' own units, that wears a new item out at the average rate
+export const getRatedLife = (params: LifeLimit): number =>
+  params.degradationRate > 0 ? params.maxValue / params.degradationRate : Infinity
+
+const wearAt = (params: LifeLimit, lifeUsed: number): number =>
+  getDegradationModel(params).wear(Math.min(1, Math.max(0, lifeUsed)), params)
+
+// Share of the rated life behind the current value. Every curve is increasing, so it is
+// inverted by bisection; maintenance that restores value therefore also turns back the age
+export const getLifeConsumed = (params: LifeLimit): number => {
+  const wear = Math.min(1, Math.max(0, 1 - params.currentValue / params.maxValue))
+  if (!params.model || params.model === 'linear') return wear
+
+  let low = 0
+  let high = 1
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2
+    if (wearAt(params, mid) < wear) low = mid
+    else high = mid
+  }
+  return (low + high) / 2
+}
+
+export const getRemainingLifePercent = (params: LifeLimit): number =>
+  (1 - getLifeConsumed(params)) * 100
+
+// Value after a further amount of usage, continuing along the curve from the current age
+export const applyUsage = (params: LifeLimit, amount: number): number => {
+  if (amount <= 0) return params.currentValue
+  const lifeUsed = getLifeConsumed(params) + amount / getRatedLife(params)
+  return Math.max(0, params.maxValue * (1 - wearAt(params, lifeUsed)))
+}
+
+// Usage left before the remaining life falls to the given share (0 means worn out)
+export const getUsageUntilRemainingLife = (params: LifeLimit, remainingShare: number): number =>
+  Math.max(0, (1 - remainingShare - getLifeConsumed(params)) * getRatedLife(params))
+
+export const getLifeLimits = (params: DegradationParams): LifeLimit[] => [params, ...(params.limits || [])]
+
+const getUsageAmount = (type: DegradationType, usage: { cycles?: number; hours?: number; days?: number }): number =>
+  (type === 'cycles' ? usage.cycles : type === 'hours' ? usage.hours : usage.days) || 0
+
+// Health is the most-limiting limit's share of its maximum value
+export const getHealthPercent = (params: DegradationParams): number =>
+  Math.min(...getLifeLimits(params).map((limit) => (limit.currentValue / limit.maxValue) * 100))
+
+export const getLimitingRemainingLife = (params: DegradationParams): number =>
+  Math.min(...getLifeLimits(params).map(getRemainingLifePercent))
+
+// Each limit wears by the usage of its own type, so cycles never age a calendar limit
+export const applyUsageToLimits = (
+  params: DegradationParams,
+  usage: { cycles?: number; hours?: number; days?: number }
+): DegradationParams => ({
+  ...params,
+  currentValue: applyUsage(params, getUsageAmount(params.type, usage)),
+  limits: params.limits?.map((limit) => ({
+    ...limit,
+    currentValue: applyUsage(limit, getUsageAmount(limit.type, usage))
+  }))
+})
+
+// Maintenance restores every limit by the same share of its maximum
+export const restoreLimits = (params: DegradationParams, percent: number): DegradationParams => {
+  const restore = (limit: LifeLimit) =>
+    Math.min(limit.maxValue, limit.currentValue + limit.maxValue * (percent / 100))
+  return {
+    ...params,
+    currentValue: restore(params),
+    limits: params.limits?.map((limit) => ({ ...limit, currentValue: restore(limit) }))
+  }
+}
@@ -0,0 +1,58 @@
+import type { DepreciationMethod, LifecycleOptions } from '@/types/lifecycle'
+
+export const DEPRECIATION_METHODS: Record<DepreciationMethod, { label: string; description: string }> = {
+  'straight-line': {
+    label: 'Straight-line',
+    description: 'The same charge every year of the service life'
+  },
+  'declining-balance': {
+    label: 'Declining balance',
+    description: 'A fixed share of the remaining book value each year; the final year writes down to salvage'
+  },
+  'units-of-production': {
+    label: 'Units of production',
+    description: 'Charged in proportion to the life consumed each year by the wear model'
+  }
+}
+
+export const DEFAULT_LIFECYCLE_OPTIONS: LifecycleOptions = {
+  serviceLifeYears: 5,
+  discountRate: 0.05,
+  depreciationMethod: 'straight-line',
+  decliningBalanceFactor: 2,
+  salvageRate: 0.1,
+  disposalRate: 0.02
+}
+
+// Yearly charges that take the cost down to its salvage value over the service life. Units of
+// production needs each year's share of wear; without any wear it falls back to straight-line
+export const getDepreciationSchedule = (
+  cost: number,
+  options: LifecycleOptions,
+  wearByYear: number[] = []
+): { depreciation: number; bookValue: number }[] => {
+  const years = Math.max(1, Math.round(options.serviceLifeYears))
+  const salvage = cost * options.salvageRate
+  const depreciable = Math.max(0, cost - salvage)
+  const totalWear = wearByYear.slice(0, years).reduce((total, wear) => total + wear, 0)
+
+  let bookValue = cost
+  return Array.from({ length: years }, (_, index) => {
+    let depreciation: number
+    if (index === years - 1) {
+      depreciation = bookValue - Math.min(bookValue, salvage)
+    } else if (options.depreciationMethod === 'declining-balance') {
+      depreciation = Math.min(bookValue * (options.decliningBalanceFactor / years), bookValue - salvage)
+    } else if (options.depreciationMethod === 'units-of-production' && totalWear > 0) {
+      depreciation = depreciable * ((wearByYear[index] || 0) / totalWear)
+    } else {
+      depreciation = depreciable / years
+    }
+    depreciation = Math.max(0, depreciation)
+    bookValue -= depreciation
+    return { depreciation, bookValue }
+  })
+}
+
+export const getDiscountFactor = (discountRate: number, years: number): number =>
+  1 / Math.pow(1 + discountRate, years)
@@ -0,0 +1,401 @@
+import type { Consumable, Equipment } from '@/types/equipment'
+import type { InventoryTransaction, ConsumableTransaction } from '@/types/inventory'
+import type { WorkOrder } from '@/types/maintenance'
+import type { CostScenario, DeploymentPeriod } from '@/types/scenarios'
+import type {
+  DemandForecast,
+  DemandPeriod,
+  ForecastAccuracy,
+  ForecastMethod,
+  ForecastOptions,
+  ForecastPoint
+} from '@/types/forecast'
+import { getUsesPerDay, resolveTempo } from './tempo'
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+export const FORECAST_METHODS: Record<ForecastMethod, { label: string; description: string }> = {
+  'moving-average': {
+    label: 'Moving average',
+    description: 'Mean demand over the most recent periods'
+  },
+  'exponential-smoothing': {
+    label: 'Exponential smoothing',
+    description: 'Weighted towards recent demand, following trend and a recurring cycle'
+  },
+  plan: {
+    label: 'Plan-based',
+    description: 'Deployed units at their operating tempo, scaled for scheduled deployments, plus work order parts'
+  }
+}
+
+const DEFAULT_OPTIONS: Required<Omit<ForecastOptions, 'asOf'>> = {
+  periodDays: 7,
+  historyPeriods: 26,
+  horizonPeriods: 13,
+  confidence: 0.9,
+  window: 4,
+  seasonLength: 4
+}
+
+// Smoothing weights for level, trend and season
+const ALPHA = 0.3
+const BETA = 0.1
+const GAMMA = 0.2
+
+// Periods a method is fitted on before its first backtested forecast, and how many are backtested
+const MIN_TRAINING_PERIODS = 4
+const MAX_BACKTEST_PERIODS = 8
+
+export interface ForecastContext {
+  transactions: (InventoryTransaction | ConsumableTransaction)[]
+  equipment?: Equipment[]
+  workOrders?: WorkOrder[]
+  deployments?: DeploymentPeriod[]  // Months counted from the forecast date's month, as in cost projections
+}
+
+// The plan follows the deployment schedule of the scenario chosen for the item
+export const getForecastContext = (
+  consumable: Consumable,
+  transactions: (InventoryTransaction | ConsumableTransaction)[],
+  equipment: Equipment[] = [],
+  workOrders: WorkOrder[] = [],
+  scenarios: CostScenario[] = []
+): ForecastContext => ({
+  transactions,
+  equipment,
+  workOrders,
+  deployments: scenarios.find(scenario => scenario.id === consumable.forecast?.scenarioId)?.deployments || []
+})
+
+// One-step-ahead fits over the history and forecasts h periods past its end
+interface DemandModel {
+  fitted: (number | null)[]
+  forecast: (h: number) => number
+}
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0
+
+// Inverse of the standard normal distribution (Acklam's approximation, accurate to about 1e-9)
+export const getZScore = (probability: number): number => {
+  const p = Math.min(Math.max(probability, 1e-9), 1 - 1e-9)
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239]
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572]
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783]
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416]
+  const low = 0.02425
+
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p))
+    const z = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    return p < low ? z : -z
+  }
+  const q = p - 0.5
+  const r = q * q
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+}
+
+// Units used per period, oldest first. History starts with the item's first transaction, so a
+// newly stocked item is not read as having had no demand
+export const getDemandHistory = (
+  consumableId: string,
+  transactions: (InventoryTransaction | ConsumableTransaction)[],
+  periodDays: number = DEFAULT_OPTIONS.periodDays,
+  historyPeriods: number = DEFAULT_OPTIONS.historyPeriods,
+  asOf: Date = new Date()
+): DemandPeriod[] => {
+  const own = transactions.filter((t): t is ConsumableTransaction =>
+    'consumableId' in t && t.consumableId === consumableId
+  )
+  if (own.length === 0) return []
+
+  const firstTime = Math.min(...own.map(t => new Date(t.date).getTime()))
+  const periodMs = periodDays * MS_PER_DAY
+  const end = asOf.getTime()
+
+  return Array.from({ length: historyPeriods }, (_, index) => {
+    const start = end - (historyPeriods - index) * periodMs
+    return { start, end: start + periodMs }
+  })
+    .filter(period => period.end > firstTime)
+    .map(period => ({
+      start: new Date(period.start).toISOString(),
+      actual: own
+        .filter(t => {
+          const time = new Date(t.date).getTime()
+          return t.type === 'use' && time >= period.start && time < period.end
+        })
+        .reduce((total, t) => total + t.quantity, 0)
+    }))
+}
+
+const movingAverage = (series: number[], window: number): DemandModel => ({
+  fitted: series.map((_, t) => (t === 0 ? null : mean(series.slice(Math.max(0, t - window), t)))),
+  forecast: () => mean(series.slice(-window))
+})
+
+// Additive Holt-Winters; without two full cycles of history the season is dropped and only
+// level and trend are followed
+const exponentialSmoothing = (series: number[], seasonLength: number): DemandModel => {
+  const fitted: (number | null)[] = series.map(() => null)
+  if (series.length === 0) return { fitted, forecast: () => 0 }
+
+  const seasonal = seasonLength > 1 && series.length >= 2 * seasonLength
+  const cycle = seasonal ? seasonLength : 1
+  let level: number
+  let trend: number
+  let seasons: number[]
+  if (seasonal) {
+    const first = mean(series.slice(0, cycle))
+    level = first
+    trend = (mean(series.slice(cycle, 2 * cycle)) - first) / cycle
+    seasons = series.slice(0, cycle).map(value => value - first)
+  } else {
+    level = series[0]
+    trend = 0
+    seasons = [0]
+  }
+
+  for (let t = seasonal ? cycle : 1; t < series.length; t++) {
+    const season = seasons[t % cycle]
+    fitted[t] = level + trend + season
+    const previousLevel = level
+    level = ALPHA * (series[t] - season) + (1 - ALPHA) * (level + trend)
+    trend = BETA * (level - previousLevel) + (1 - BETA) * trend
+    if (seasonal) seasons[t % cycle] = GAMMA * (series[t] - level) + (1 - GAMMA) * season
+  }
+
+  return {
+    fitted,
+    forecast: (h) => level + h * trend + seasons[(series.length + h - 1) % cycle]
+  }
+}
+
+// Daily draw of the consumable by the units currently deployed
+const getPlanDailyRate = (consumableId: string, equipment: Equipment[]): number =>
+  equipment.reduce((total, eq) => {
+    const requirement = eq.consumables.find(c => c.id === consumableId)
+    return requirement
+      ? total + requirement.unitsPerUse * getUsesPerDay(resolveTempo(eq)) * eq.inUse
+      : total
+  }, 0)
+
+const getPartsDemand = (consumableId: string, orders: WorkOrder[]): number =>
+  orders.reduce((total, order) =>
+    total + order.parts
+      .filter(part => part.consumableId === consumableId)
+      .reduce((sum, part) => sum + part.quantity, 0),
+    0
+  )
+
+// Overlapping deployments run at the highest of their tempo factors
+const getTempoFactor = (date: Date, asOf: Date, deployments: DeploymentPeriod[]): number => {
+  const month = (date.getFullYear() - asOf.getFullYear()) * 12 + date.getMonth() - asOf.getMonth()
+  return deployments.reduce((factor, period) =>
+    month >= period.startMonth && month < period.startMonth + period.months
+      ? Math.max(factor, period.tempoFactor)
+      : factor,
+    1
+  )
+}
+
+// History is compared with the current fleet's draw plus the parts of work orders completed in
+// each period. Open work orders are drawn in the period they are scheduled, or the first if overdue
+const planModel = (
+  consumableId: string,
+  history: DemandPeriod[],
+  context: ForecastContext,
+  periodDays: number,
+  asOf: Date
+): DemandModel => {
+  const { equipment = [], workOrders = [], deployments = [] } = context
+  const dailyRate = getPlanDailyRate(consumableId, equipment)
+  const periodMs = periodDays * MS_PER_DAY
+  const within = (date: string | undefined, start: number) => {
+    const time = date ? new Date(date).getTime() : NaN
+    return time >= start && time < start + periodMs
+  }
+
+  return {
+    fitted: history.map(period => {
+      const start = new Date(period.start).getTime()
+      const completed = workOrders.filter(order => order.status === 'completed' && within(order.completedDate, start))
+      return dailyRate * periodDays + getPartsDemand(consumableId, completed)
+    }),
+    forecast: (h) => {
+      const start = asOf.getTime() + (h - 1) * periodMs
+      let usage = 0
+      for (let day = 0; day < periodDays; day++) {
+        usage += dailyRate * getTempoFactor(new Date(start + day * MS_PER_DAY), asOf, deployments)
+      }
+      const scheduled = workOrders.filter(order =>
+        order.status !== 'completed' &&
+        (within(order.scheduledDate, start) || (h === 1 && new Date(order.scheduledDate).getTime() < start))
+      )
+      return usage + getPartsDemand(consumableId, scheduled)
+    }
+  }
+}
+
+const buildModel = (
+  method: ForecastMethod,
+  consumableId: string,
+  history: DemandPeriod[],
+  context: ForecastContext,
+  options: Required<Omit<ForecastOptions, 'asOf'>>,
+  asOf: Date
+): DemandModel => {
+  const series = history.map(period => period.actual)
+  switch (method) {
+    case 'moving-average':
+      return movingAverage(series, options.window)
+    case 'exponential-smoothing':
+      return exponentialSmoothing(series, options.seasonLength)
+    case 'plan':
+      return planModel(consumableId, history, context, options.periodDays, asOf)
+  }
+}
+
+// Each of the most recent periods is forecast from the history before it alone
+export const backtestForecast = (
+  method: ForecastMethod,
+  consumableId: string,
+  history: DemandPeriod[],
+  context: ForecastContext,
+  options: ForecastOptions = {}
+): ForecastAccuracy | undefined => {
+  const settings = { ...DEFAULT_OPTIONS, ...options }
+  const first = Math.max(MIN_TRAINING_PERIODS, history.length - MAX_BACKTEST_PERIODS)
+  if (history.length <= first) return undefined
+
+  // The plan does not learn from history, so its backtest is its fit to each period
+  const plan = method === 'plan'
+    ? planModel(consumableId, history, context, settings.periodDays, new Date(history[0].start))
+    : null
+  const predict = (t: number): number => plan
+    ? plan.fitted[t] || 0
+    : buildModel(method, consumableId, history.slice(0, t), context, settings, new Date(history[t].start)).forecast(1)
+
+  const errors: number[] = []
+  let demand = 0
+  for (let t = first; t < history.length; t++) {
+    errors.push(Math.max(0, predict(t)) - history[t].actual)
+    demand += history[t].actual
+  }
+
+  const absolute = errors.reduce((total, error) => total + Math.abs(error), 0)
+  return {
+    periods: errors.length,
+    mae: absolute / errors.length,
+    wape: demand > 0 ? absolute / demand : absolute > 0 ? 1 : 0,
+    bias: mean(errors)
+  }
+}
+
+export const forecastDemand = (
+  consumable: Consumable,
+  context: ForecastContext,
+  method: ForecastMethod,
+  options: ForecastOptions = {}
+): DemandForecast => {
+  const settings = { ...DEFAULT_OPTIONS, ...options }
+  const asOf = options.asOf || new Date()
+  const history = getDemandHistory(
+    consumable.id,
+    context.transactions,
+    settings.periodDays,
+    settings.historyPeriods,
+    asOf
+  )
+  const model = buildModel(method, consumable.id, history, context, settings, asOf)
+
+  // Spread of the one-step errors; with too few to measure, demand is taken to be Poisson
+  const residuals = model.fitted.flatMap((fit, t) => (fit === null ? [] : [history[t].actual - fit]))
+  const forecasts = Array.from({ length: settings.horizonPeriods }, (_, index) => Math.max(0, model.forecast(index + 1)))
+  const sigma = residuals.length >= 2
+    ? Math.sqrt(residuals.reduce((total, r) => total + r * r, 0) / (residuals.length - 1))
+    : Math.sqrt(mean(forecasts))
+  const z = getZScore(0.5 + settings.confidence / 2)
+
+  const points: ForecastPoint[] = forecasts.map((forecast, index) => ({
+    start: new Date(asOf.getTime() + index * settings.periodDays * MS_PER_DAY).toISOString(),
+    forecast,
+    lower: Math.max(0, forecast - z * sigma),
+    upper: forecast + z * sigma
+  }))
+  // Period errors are taken as independent, so the spread of the total grows with the square root
+  const total = forecasts.reduce((sum, forecast) => sum + forecast, 0)
+  const totalSpread = z * sigma * Math.sqrt(settings.horizonPeriods)
+
+  return {
+    consumableId: consumable.id,
+    method,
+    periodDays: settings.periodDays,
+    history,
+    points,
+    dailyRate: total / (settings.horizonPeriods * settings.periodDays),
+    dailyStdDev: sigma / Math.sqrt(settings.periodDays),
+    total: { forecast: total, lower: Math.max(0, total - totalSpread), upper: total + totalSpread },
+    confidence: settings.confidence,
+    accuracy: backtestForecast(method, consumable.id, history, context, settings)
+  }
+}
+
+// Every method side by side, with the one the item is set to use (or the best backtested) first
+export const forecastAllMethods = (
+  consumable: Consumable,
+  context: ForecastContext,
+  options: ForecastOptions = {}
+): DemandForecast[] => {
+  const forecasts = (Object.keys(FORECAST_METHODS) as ForecastMethod[])
+    .map(method => forecastDemand(consumable, context, method, options))
+  const selected = selectForecast(consumable, forecasts, context)
+  return [selected, ...forecasts.filter(forecast => forecast !== selected)]
+}
+
+// 'auto' takes the lowest backtested error. Without enough history to backtest, the plan is used
+// when deployed equipment draws the item, and the moving average otherwise
+export const selectForecast = (
+  consumable: Consumable,
+  forecasts: DemandForecast[],
+  context: ForecastContext
+): DemandForecast => {
+  const method = consumable.forecast?.method || 'auto'
+  if (method !== 'auto') {
+    return forecasts.find(forecast => forecast.method === method) || forecasts[0]
+  }
+
+  const tested = forecasts
+    .filter(forecast => forecast.accuracy)
+    .sort((a, b) => a.accuracy!.wape - b.accuracy!.wape || a.accuracy!.mae - b.accuracy!.mae)
+  if (tested.length > 0) return tested[0]
+
+  const fallback: ForecastMethod = getPlanDailyRate(consumable.id, context.equipment || []) > 0
+    ? 'plan'
+    : 'moving-average'
+  return forecasts.find(forecast => forecast.method === fallback) || forecasts[0]
+}
+
+export const getConsumableForecast = (
+  consumable: Consumable,
+  context: ForecastContext,
+  options: ForecastOptions = {}
+): DemandForecast => forecastAllMethods(consumable, context, options)[0]
+
+// Days until forecast demand uses up the stock; past the horizon demand continues at the mean rate
+export const getDaysUntilDepletion = (stock: number, forecast: DemandForecast): number => {
+  if (stock <= 0) return 0
+  let remaining = stock
+  for (const [index, point] of forecast.points.entries()) {
+    if (point.forecast >= remaining && point.forecast > 0) {
+      return index * forecast.periodDays + (remaining / point.forecast) * forecast.periodDays
+    }
+    remaining -= point.forecast
+  }
+  return forecast.dailyRate > 0
+    ? forecast.points.length * forecast.periodDays + remaining / forecast.dailyRate
+    : Infinity
+}
@@ -9,74 +9,117 @@ import type {
     ConsumableTransaction,
     ProcurementNeed 
   } from '@/types/inventory'
+  import type { CostRateProfile } from '@/types/rates'
+  import type { BudgetCategory } from '@/types/budget'
+  import type { VendorCatalog } from '@/types/vendors'
+  import type { DemandForecast } from '@/types/forecast'
+  import type { InventoryPolicy } from '@/types/policy'
+  import { DEFAULT_RATE_PROFILE } from './rateProfiles'
+  import { resolveTempo, getUsesPerDay } from './tempo'
+  import { selectQuote } from './vendors'
+  import { getConsumableForecast, getZScore } from './forecasting'
+  import { getInventoryPolicy, getReorderQuantity } from './inventoryPolicy'
   
   // Cost Calculations
   export const calculateTotalCost = (equipment: Equipment[]): number => {
     return equipment.reduce((total, item) => total + item.acquisitionCost, 0)
   }
   
-  export const calculateOperationalCost = (equipment: Equipment): number => {
-    const baseOperationalCost = equipment.acquisitionCost * 0.1 // 10% of acquisition cost
+  export const calculateOperationalCost = (
+    equipment: Equipment,
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE
+  ): number => {
+    const baseOperationalCost = equipment.acquisitionCost * rates.operationalRate
     const degradationFactor = equipment.degradation.currentValue / equipment.degradation.maxValue
     return baseOperationalCost * (2 - degradationFactor) // Costs increase as equipment degrades
   }
   
-  export const calculateMaintenanceCost = (equipment: Equipment): number => {
-    const baseMaintenanceCost = equipment.acquisitionCost * 0.05 // 5% of acquisition cost
+  export const calculateMaintenanceCost = (
+    equipment: Equipment,
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE
+  ): number => {
+    const baseMaintenanceCost = equipment.acquisitionCost * rates.maintenanceRate
     const degradationFactor = equipment.degradation.currentValue / equipment.degradation.maxValue
     return baseMaintenanceCost * (2 - degradationFactor)
   }
   
-  export const calculateTotalPersonnelCost = (equipment: Equipment[]): number => {
+  export const calculateTotalPersonnelCost = (
+    equipment: Equipment[],
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE
+  ): number => {
     const totalPersonnel = equipment.reduce((sum, eq) => sum + eq.personnelRequired, 0)
-    return totalPersonnel * 5000 // $5000 per person per month
+    return totalPersonnel * rates.personnelCostPerMonth
   }
   
   // Inventory Management
+  export const getEffectiveUnitPrice = (
+    consumable: Consumable,
+    date: Date = new Date()
+  ): number => {
+    const effective = (consumable.priceHistory || [])
+      .filter(entry => new Date(entry.effectiveDate) <= date)
+      .sort((a, b) => new Date(b.effectiveDate).getTime() - new Date(a.effectiveDate).getTime())
+  
+    return effective.length > 0 ? effective[0].price : consumable.costPerUnit
+  }
+  
+  // Demand comes from the item's forecast; without one it is forecast from the transactions alone.
+  // Replenishment follows the item's policy, or the defaults
   export const calculateOptimalInventoryLevels = (
     consumable: Consumable,
     transactions: ConsumableTransaction[],
-    leadTimeDays: number = 7
+    policy: InventoryPolicy = getInventoryPolicy(consumable),
+    forecast: DemandForecast = getConsumableForecast(consumable, { transactions })
   ): {
     reorderPoint: number
     safetyStock: number
     optimalOrderQuantity: number
+    annualCost: number
+    limitedByShelfLife: boolean
   } => {
-    // Calculate average daily usage
-    const thirtyDaysAgo = new Date()
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
-    
-    const recentTransactions = transactions.filter(t => 
-      new Date(t.date) >= thirtyDaysAgo && t.type === 'use'
-    )
-  
-    const averageDailyUsage = recentTransactions.reduce(
-      (sum, t) => sum + t.quantity, 0
-    ) / 30
+    const averageDailyUsage = forecast.dailyRate
   
-    // Calculate safety stock (covers 2 standard deviations of demand during lead time)
-    const usageVariance = calculateVariance(
-      recentTransactions.map(t => t.quantity)
-    )
-    const safetyStock = Math.ceil(
-      Math.sqrt(usageVariance) * 2 * Math.sqrt(leadTimeDays)
+    // Demand over a lead time varies with daily demand and with the lead time itself
+    const leadTimeStdDev = Math.sqrt(
+      policy.leadTimeDays * forecast.dailyStdDev ** 2 +
+      (averageDailyUsage * policy.leadTimeStdDevDays) ** 2
     )
+    const safetyStock = averageDailyUsage > 0
+      ? Math.max(0, Math.ceil(getZScore(policy.serviceLevel / 100) * leadTimeStdDev))
+      : 0
   
     // Calculate reorder point
-    const reorderPoint = Math.ceil(averageDailyUsage * leadTimeDays + safetyStock)
+    const reorderPoint = Math.ceil(averageDailyUsage * policy.leadTimeDays + safetyStock)
   
-    // Calculate optimal order quantity (Economic Order Quantity)
+    // Economic Order Quantity, never more than a year's demand
     const annualDemand = averageDailyUsage * 365
-    const orderingCost = 100 // Assumed fixed cost per order
-    const holdingCost = consumable.costPerUnit * 0.2 // Assumed 20% holding cost
-    const optimalOrderQuantity = Math.ceil(
-      Math.sqrt((2 * annualDemand * orderingCost) / holdingCost)
-    )
+    const holdingCost = getEffectiveUnitPrice(consumable) * policy.holdingRate / 100
+    let optimalOrderQuantity = holdingCost > 0
+      ? Math.ceil(Math.min(Math.sqrt((2 * annualDemand * policy.orderCost) / holdingCost), annualDemand))
+      : Math.ceil(annualDemand)
+  
+    // Each order has to be used up, on top of the safety stock, before it expires
+    let limitedByShelfLife = false
+    if (policy.shelfLifeDays !== undefined) {
+      const usableQuantity = Math.floor(averageDailyUsage * policy.shelfLifeDays - safetyStock)
+      if (optimalOrderQuantity > usableQuantity) {
+        optimalOrderQuantity = usableQuantity
+        limitedByShelfLife = true
+      }
+    }
+    optimalOrderQuantity = annualDemand > 0 ? Math.max(1, optimalOrderQuantity) : 0
+  
+    const annualCost = optimalOrderQuantity > 0
+      ? (annualDemand / optimalOrderQuantity) * policy.orderCost +
+        (optimalOrderQuantity / 2 + safetyStock) * holdingCost
+      : safetyStock * holdingCost
   
     return {
       reorderPoint,
       safetyStock,
-      optimalOrderQuantity
+      optimalOrderQuantity,
+      annualCost,
+      limitedByShelfLife
     }
   }
   
@@ -108,7 +151,8 @@ import type {
     usagePattern: {
       cyclesPerDay?: number
       hoursPerDay?: number
-    } = {}
+    } = {},
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE
   ): {
     daysUntilMaintenance: number
     maintenanceDate: Date
@@ -123,13 +167,13 @@ import type {
   
     switch (degradation.type) {
       case 'cycles':
-        const cyclesPerDay = usagePattern.cyclesPerDay || 1
+        const cyclesPerDay = usagePattern.cyclesPerDay ?? getUsesPerDay(resolveTempo(equipment))
         daysUntilMaintenance = Math.floor(
           (remainingValue - threshold) / (degradation.degradationRate * cyclesPerDay)
         )
         break
       case 'hours':
-        const hoursPerDay = usagePattern.hoursPerDay || 8
+        const hoursPerDay = usagePattern.hoursPerDay ?? resolveTempo(equipment).hoursPerDay
         daysUntilMaintenance = Math.floor(
           (remainingValue - threshold) / (degradation.degradationRate * hoursPerDay)
         )
@@ -146,7 +190,7 @@ import type {
     const maintenanceDate = new Date()
     maintenanceDate.setDate(maintenanceDate.getDate() + daysUntilMaintenance)
   
-    const estimatedCost = calculateMaintenanceCost(equipment)
+    const estimatedCost = calculateMaintenanceCost(equipment, rates)
     
     const priority = daysUntilMaintenance <= 7 ? 'high' :
                     daysUntilMaintenance <= 30 ? 'medium' : 'low'
@@ -274,51 +318,66 @@ import type {
     }, {} as Record<string, (InventoryTransaction | ConsumableTransaction)[]>)
   }
   
-  export const calculateEfficiencyScore = (equipment: Equipment): number => {
+  export const calculateEfficiencyScore = (
+    equipment: Equipment,
+    rates: CostRateProfile = DEFAULT_RATE_PROFILE
+  ): number => {
     const utilizationScore = (equipment.inUse / equipment.quantity) * 100
     const healthScore = (equipment.degradation.currentValue / equipment.degradation.maxValue) * 100
-    const costScore = Math.max(0, 100 - (calculateOperationalCost(equipment) / equipment.acquisitionCost) * 100)
+    const costScore = Math.max(0, 100 - (calculateOperationalCost(equipment, rates) / equipment.acquisitionCost) * 100)
   
     return (utilizationScore + healthScore + costScore) / 3
   }
   
+  // Equipment is funded from acquisition and consumables from their own line; each draws down only its own funds.
+  // Items are costed from the cheapest catalog quote that arrives in time, or at list price without one
   export const generateProcurementPlan = (
     equipment: Equipment[],
     consumables: Consumable[],
-    budget: number
+    budget: Partial<Record<BudgetCategory, number>>,
+    catalog: VendorCatalog = { vendors: [], quotes: [] }
   ): ProcurementNeed[] => {
     const needs: ProcurementNeed[] = []
-    let remainingBudget = budget
+    let remainingBudget = budget.acquisition || 0
   
     // Equipment needs
     equipment.forEach(eq => {
       const maintenanceNeeds = predictMaintenanceNeeds(eq)
-      if (maintenanceNeeds.priority === 'high' && remainingBudget >= eq.acquisitionCost) {
+      const requiredWithinDays = Math.max(0, maintenanceNeeds.daysUntilMaintenance)
+      const quote = selectQuote('equipment', eq.id, 1, catalog, requiredWithinDays)
+      const cost = quote ? quote.totalCost : eq.acquisitionCost
+
+      if (maintenanceNeeds.priority === 'high' && remainingBudget >= cost) {
         needs.push({
           id: crypto.randomUUID(),
           itemType: 'equipment',
           itemId: eq.id,
           quantity: 1,
-          estimatedCost: eq.acquisitionCost,
+          estimatedCost: cost,
           priority: 'high',
           reason: `Critical replacement needed within ${maintenanceNeeds.daysUntilMaintenance} days`,
           requestDate: new Date().toISOString(),
-          status: 'pending'
+          status: 'pending',
+          requiredWithinDays,
+          vendorId: quote?.vendor.id,
+          quoteId: quote?.quote.id,
+          leadTimeDays: quote?.leadTimeDays
         })
-        remainingBudget -= eq.acquisitionCost
+        remainingBudget -= cost
       }
     })
   
     // Consumable needs
+    remainingBudget = budget.consumables || 0
     consumables
       .filter(c => c.stockLevel <= c.minimumStock)
       .sort((a, b) => a.stockLevel / a.minimumStock - b.stockLevel / b.minimumStock)
       .forEach(c => {
-        const orderQuantity = Math.max(
-          c.reorderPoint - c.stockLevel,
-          Math.ceil(c.minimumStock * 1.5)
-        )
-        const cost = orderQuantity * c.costPerUnit
+        const orderQuantity = c.orderQuantity !== undefined
+          ? getReorderQuantity(c)
+          : Math.max(c.reorderPoint - c.stockLevel, Math.ceil(c.minimumStock * 1.5))
+        const quote = selectQuote('consumable', c.id, orderQuantity, catalog)
+        const cost = quote ? quote.totalCost : orderQuantity * c.costPerUnit
   
         if (remainingBudget >= cost) {
           needs.push({
@@ -330,7 +389,10 @@ import type {
             priority: c.stockLevel === 0 ? 'high' : 'medium',
             reason: `Stock level below minimum (${c.stockLevel}/${c.minimumStock})`,
             requestDate: new Date().toISOString(),
-            status: 'pending'
+            status: 'pending',
+            vendorId: quote?.vendor.id,
+            quoteId: quote?.quote.id,
+            leadTimeDays: quote?.leadTimeDays
           })
           remainingBudget -= cost
         }
@@ -0,0 +1,20 @@
+import type { Consumable } from '@/types/equipment'
+import type { InventoryPolicy } from '@/types/policy'
+
+export const DEFAULT_INVENTORY_POLICY: InventoryPolicy = {
+  serviceLevel: 95,
+  leadTimeDays: 7,
+  leadTimeStdDevDays: 0,
+  orderCost: 100,
+  holdingRate: 20
+}
+
+export const getInventoryPolicy = (consumable: Consumable): InventoryPolicy =>
+  consumable.policy || DEFAULT_INVENTORY_POLICY
+
+// Quantity to order once stock reaches the reorder point. Without a set order quantity stock
+// is ordered up to twice the reorder point
+export const getReorderQuantity = (consumable: Consumable): number =>
+  consumable.orderQuantity !== undefined
+    ? Math.max(consumable.orderQuantity, consumable.reorderPoint - consumable.stockLevel)
+    : consumable.reorderPoint * 2 - consumable.stockLevel
@@ -1,4 +1,13 @@
+import { getDocument, GlobalWorkerOptions, PDFDateString } from 'pdfjs-dist'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import type { TextItem } from 'pdfjs-dist/types/src/display/api'
 import { Equipment, Consumable } from '@/types/equipment'
+import type { ExtractedQuote, ExtractedQuoteLine } from '@/types/vendors'
+
+GlobalWorkerOptions.workerSrc = new URL(
+  'pdfjs-dist/build/pdf.worker.min.mjs',
+  import.meta.url
+).toString()
 
 interface ExtractedData {
   equipment?: Partial<Equipment>[]
@@ -16,17 +25,226 @@ interface ExtractedData {
   }
 }
 
-interface TableData {
+export interface TableData {
   headers: string[]
   rows: string[][]
+  page?: number
+}
+
+export interface PDFContent {
+  text: string
+  tables: TableData[]
+  metadata: ExtractedData['metadata']
+  pageCount: number
+}
+
+interface TextCell {
+  text: string
+  x: number
+  right: number
+}
+
+interface TextLine {
+  y: number
+  height: number
+  cells: TextCell[]
+}
+
+// Items closer than this (in multiples of the font height) are merged into one cell
+const CELL_GAP_FACTOR = 1.2
+// Baselines within this fraction of the font height are treated as the same line
+const LINE_TOLERANCE_FACTOR = 0.5
+// A vertical gap larger than this (in line heights) ends the current table
+const TABLE_BREAK_FACTOR = 2.5
+
+const EQUIPMENT_CATEGORIES: Equipment['category'][] = ['platform', 'payload', 'sensor']
+
+const parseAmount = (value: string | undefined): number => {
+  const amount = parseFloat((value || '').replace(/[^0-9.-]+/g, ''))
+  return isNaN(amount) ? 0 : amount
+}
+
+export const loadPDFDocument = async (file: File): Promise<PDFDocumentProxy> => {
+  const data = new Uint8Array(await file.arrayBuffer())
+  return getDocument({ data }).promise
+}
+
+const isTextItem = (item: object): item is TextItem => 'str' in item
+
+const extractPageLines = async (
+  document: PDFDocumentProxy,
+  pageNumber: number
+): Promise<TextLine[]> => {
+  const page = await document.getPage(pageNumber)
+  const content = await page.getTextContent()
+
+  const items = content.items
+    .filter(isTextItem)
+    .filter(item => item.str.trim().length > 0)
+    .map(item => ({
+      text: item.str.trim(),
+      x: item.transform[4] as number,
+      y: item.transform[5] as number,
+      width: item.width,
+      height: item.height || Math.abs(item.transform[3] as number) || 10
+    }))
+    // PDF coordinates grow upwards, so read top-to-bottom, then left-to-right
+    .sort((a, b) => b.y - a.y || a.x - b.x)
+
+  const lines: TextLine[] = []
+
+  items.forEach(item => {
+    const line = lines.find(l =>
+      Math.abs(l.y - item.y) <= Math.max(l.height, item.height) * LINE_TOLERANCE_FACTOR
+    )
+    const cell = { text: item.text, x: item.x, right: item.x + item.width }
+
+    if (line) {
+      line.cells.push(cell)
+      line.height = Math.max(line.height, item.height)
+    } else {
+      lines.push({ y: item.y, height: item.height, cells: [cell] })
+    }
+  })
+
+  return lines.map(line => {
+    const sorted = [...line.cells].sort((a, b) => a.x - b.x)
+    const merged: TextCell[] = []
+
+    sorted.forEach(cell => {
+      const previous = merged[merged.length - 1]
+      if (previous && cell.x - previous.right < line.height * CELL_GAP_FACTOR) {
+        previous.text = `${previous.text} ${cell.text}`
+        previous.right = Math.max(previous.right, cell.right)
+      } else {
+        merged.push({ ...cell })
+      }
+    })
+
+    return { ...line, cells: merged }
+  })
+}
+
+const linesToText = (lines: TextLine[]): string => {
+  return lines.map(line => line.cells.map(cell => cell.text).join(' ')).join('\n')
+}
+
+// Picks the header column a cell belongs to: the one it overlaps most, or the nearest one
+const findColumnIndex = (cell: TextCell, columns: TextCell[]): number => {
+  let bestIndex = 0
+  let bestScore = -Infinity
+
+  columns.forEach((column, index) => {
+    const overlap = Math.min(cell.right, column.right) - Math.max(cell.x, column.x)
+    const distance = Math.abs((cell.x + cell.right) / 2 - (column.x + column.right) / 2)
+    const score = overlap > 0 ? overlap : -distance
+
+    if (score > bestScore) {
+      bestScore = score
+      bestIndex = index
+    }
+  })
+
+  return bestIndex
+}
+
+const buildTable = (lines: TextLine[], page: number): TableData => {
+  const [header, ...body] = lines
+  const columns = header.cells
+
+  const rows = body.map(line => {
+    const row = columns.map(() => '')
+    line.cells.forEach(cell => {
+      const index = findColumnIndex(cell, columns)
+      row[index] = row[index] ? `${row[index]} ${cell.text}` : cell.text
+    })
+    return row
+  })
+
+  return {
+    headers: columns.map(column => column.text),
+    rows,
+    page
+  }
+}
+
+const linesToTables = (lines: TextLine[], page: number): TableData[] => {
+  const tables: TableData[] = []
+  let current: TextLine[] = []
+
+  const flush = () => {
+    if (current.length >= 2) {
+      tables.push(buildTable(current, page))
+    }
+    current = []
+  }
+
+  lines.forEach(line => {
+    const previous = current[current.length - 1]
+    const isTableRow = line.cells.length >= 2
+    const isDetached = previous &&
+      previous.y - line.y > previous.height * TABLE_BREAK_FACTOR
+
+    if (!isTableRow || isDetached) {
+      flush()
+    }
+    if (isTableRow) {
+      current.push(line)
+    }
+  })
+  flush()
+
+  return tables
+}
+
+const readMetadata = async (
+  document: PDFDocumentProxy,
+  file: File
+): Promise<ExtractedData['metadata']> => {
+  const { info } = await document.getMetadata()
+  const fields = info as Record<string, string | undefined>
+  const creationDate = fields.CreationDate
+    ? PDFDateString.toDateObject(fields.CreationDate)
+    : null
+
+  return {
+    title: fields.Title || file.name,
+    author: fields.Author || 'Unknown',
+    date: (creationDate || new Date(file.lastModified)).toISOString(),
+    keywords: fields.Keywords
+      ? fields.Keywords.split(/[,;]/).map(k => k.trim()).filter(Boolean)
+      : []
+  }
+}
+
+export const extractPDFContent = async (file: File): Promise<PDFContent> => {
+  const document = await loadPDFDocument(file)
+
+  try {
+    const pageTexts: string[] = []
+    const tables: TableData[] = []
+
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const lines = await extractPageLines(document, pageNumber)
+      pageTexts.push(linesToText(lines))
+      tables.push(...linesToTables(lines, pageNumber))
+    }
+
+    return {
+      text: pageTexts.join('\n\n'),
+      tables,
+      metadata: await readMetadata(document, file),
+      pageCount: document.numPages
+    }
+  } finally {
+    await document.destroy()
+  }
 }
 
 export const extractTextFromPDF = async (file: File): Promise<string> => {
   try {
-    const arrayBuffer = await file.arrayBuffer()
-    // In a real implementation, you would use pdf.js or a similar library
-    // This is a placeholder implementation
-    return 'Sample extracted text'
+    const { text } = await extractPDFContent(file)
+    return text
   } catch (error) {
     console.error('Error extracting text from PDF:', error)
     throw new Error('Failed to extract text from PDF')
@@ -35,13 +253,8 @@ export const extractTextFromPDF = async (file: File): Promise<string> => {
 
 export const extractTablesFromPDF = async (file: File): Promise<TableData[]> => {
   try {
-    const arrayBuffer = await file.arrayBuffer()
-    // In a real implementation, you would use pdf.js or similar
-    // This is a placeholder implementation
-    return [{
-      headers: ['Name', 'Category', 'Cost'],
-      rows: [['Sample Item', 'platform', '1000']]
-    }]
+    const { tables } = await extractPDFContent(file)
+    return tables
   } catch (error) {
     console.error('Error extracting tables from PDF:', error)
     throw new Error('Failed to extract tables from PDF')
@@ -53,29 +266,26 @@ export const identifyEquipment = (text: string, tables: TableData[]): Partial<Eq
 
   // Look for equipment information in tables
   tables.forEach(table => {
-    const nameIndex = table.headers.findIndex(h => 
-      h.toLowerCase().includes('name') || 
+    const nameIndex = table.headers.findIndex(h =>
+      h.toLowerCase().includes('name') ||
       h.toLowerCase().includes('equipment')
     )
-    const categoryIndex = table.headers.findIndex(h => 
-      h.toLowerCase().includes('category') || 
+    const categoryIndex = table.headers.findIndex(h =>
+      h.toLowerCase().includes('category') ||
       h.toLowerCase().includes('type')
     )
-    const costIndex = table.headers.findIndex(h => 
-      h.toLowerCase().includes('cost') || 
+    const costIndex = table.headers.findIndex(h =>
+      h.toLowerCase().includes('cost') ||
       h.toLowerCase().includes('price')
     )
 
     if (nameIndex >= 0) {
-      table.rows.forEach(row => {
+      table.rows.filter(row => row[nameIndex]).forEach(row => {
+        const category = (row[categoryIndex] || '').toLowerCase() as Equipment['category']
         const equipmentData: Partial<Equipment> = {
           name: row[nameIndex],
-          category: categoryIndex >= 0 ? 
-            row[categoryIndex].toLowerCase() as Equipment['category'] : 
-            'platform',
-          acquisitionCost: costIndex >= 0 ? 
-            parseFloat(row[costIndex].replace(/[^0-9.-]+/g, '')) : 
-            0,
+          category: EQUIPMENT_CATEGORIES.includes(category) ? category : 'platform',
+          acquisitionCost: costIndex >= 0 ? parseAmount(row[costIndex]) : 0,
           dateAdded: new Date().toISOString(),
           quantity: 1,
           inUse: 0,
@@ -102,26 +312,24 @@ export const identifyConsumables = (text: string, tables: TableData[]): Partial<
   const consumables: Partial<Consumable>[] = []
 
   tables.forEach(table => {
-    const nameIndex = table.headers.findIndex(h => 
-      h.toLowerCase().includes('consumable') || 
+    const nameIndex = table.headers.findIndex(h =>
+      h.toLowerCase().includes('consumable') ||
       h.toLowerCase().includes('supply')
     )
-    const unitIndex = table.headers.findIndex(h => 
+    const unitIndex = table.headers.findIndex(h =>
       h.toLowerCase().includes('unit')
     )
-    const costIndex = table.headers.findIndex(h => 
-      h.toLowerCase().includes('cost') || 
+    const costIndex = table.headers.findIndex(h =>
+      h.toLowerCase().includes('cost') ||
       h.toLowerCase().includes('price')
     )
 
     if (nameIndex >= 0) {
-      table.rows.forEach(row => {
+      table.rows.filter(row => row[nameIndex]).forEach(row => {
         const consumableData: Partial<Consumable> = {
           name: row[nameIndex],
-          unit: unitIndex >= 0 ? row[unitIndex] : 'unit',
-          costPerUnit: costIndex >= 0 ? 
-            parseFloat(row[costIndex].replace(/[^0-9.-]+/g, '')) : 
-            0,
+          unit: unitIndex >= 0 && row[unitIndex] ? row[unitIndex] : 'unit',
+          costPerUnit: costIndex >= 0 ? parseAmount(row[costIndex]) : 0,
           stockLevel: 0,
           minimumStock: 10,
           reorderPoint: 20
@@ -139,19 +347,19 @@ export const extractCosts = (text: string, tables: TableData[]): Partial<Extract
 
   // Look for cost information in tables
   tables.forEach(table => {
-    const costTypeIndex = table.headers.findIndex(h => 
-      h.toLowerCase().includes('type') || 
+    const costTypeIndex = table.headers.findIndex(h =>
+      h.toLowerCase().includes('type') ||
       h.toLowerCase().includes('category')
     )
-    const amountIndex = table.headers.findIndex(h => 
-      h.toLowerCase().includes('amount') || 
+    const amountIndex = table.headers.findIndex(h =>
+      h.toLowerCase().includes('amount') ||
       h.toLowerCase().includes('cost')
     )
 
     if (costTypeIndex >= 0 && amountIndex >= 0) {
       table.rows.forEach(row => {
-        const costType = row[costTypeIndex].toLowerCase()
-        const amount = parseFloat(row[amountIndex].replace(/[^0-9.-]+/g, ''))
+        const costType = (row[costTypeIndex] || '').toLowerCase()
+        const amount = parseAmount(row[amountIndex])
 
         if (costType.includes('acquisition')) costs.acquisition = amount
         if (costType.includes('operational')) costs.operational = amount
@@ -163,14 +371,66 @@ export const extractCosts = (text: string, tables: TableData[]): Partial<Extract
   return costs
 }
 
+const QUOTE_DESCRIPTION_PATTERN = /item|description|part|product|equipment|consumable/
+const QUOTE_QUANTITY_PATTERN = /qty|quantity|min/
+
+const matchText = (text: string, pattern: RegExp): string | undefined =>
+  text.match(pattern)?.[1]?.trim() || undefined
+
+const parseDate = (value: string | undefined): string | undefined => {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString().split('T')[0]
+}
+
+// Priced lines plus whatever quote terms the text states. A row per quantity break is expected;
+// rows without a quantity price a single unit
+export const identifyQuote = (text: string, tables: TableData[]): ExtractedQuote => {
+  const lines: ExtractedQuoteLine[] = []
+
+  tables.forEach(table => {
+    const headers = table.headers.map(h => h.toLowerCase())
+    const priceIndex = headers.findIndex(h => h.includes('price') || h.includes('cost'))
+    const quantityIndex = headers.findIndex((h, i) => i !== priceIndex && QUOTE_QUANTITY_PATTERN.test(h))
+    const descriptionIndex = headers.findIndex((h, i) =>
+      i !== priceIndex && i !== quantityIndex && QUOTE_DESCRIPTION_PATTERN.test(h)
+    )
+
+    if (priceIndex >= 0 && descriptionIndex >= 0) {
+      table.rows.filter(row => row[descriptionIndex]).forEach(row => {
+        const unitPrice = parseAmount(row[priceIndex])
+        const minQuantity = quantityIndex >= 0 ? Math.floor(parseAmount(row[quantityIndex])) : 1
+        if (unitPrice > 0) {
+          lines.push({
+            description: row[descriptionIndex],
+            minQuantity: Math.max(minQuantity, 1),
+            unitPrice
+          })
+        }
+      })
+    }
+  })
+
+  const leadTime = text.match(/lead\s*time\s*:?\s*(\d+)\s*(day|week)/i)
+
+  return {
+    vendorName: matchText(text, /(?:vendor|supplier)\s*:\s*([^\n]+)/i),
+    reference: matchText(text, /quot(?:e|ation)\s*(?:no\.?|number|#)\s*:?\s*([A-Z0-9][A-Z0-9-]*)/i),
+    validUntil: parseDate(matchText(text, /(?:valid\s*(?:until|through|thru)|expir(?:es|y|ation)(?:\s*date)?)\s*:?\s*([^\n]+)/i)),
+    leadTimeDays: leadTime
+      ? parseInt(leadTime[1]) * (leadTime[2].toLowerCase() === 'week' ? 7 : 1)
+      : undefined,
+    lines
+  }
+}
+
 export const extractMetadata = async (file: File): Promise<ExtractedData['metadata']> => {
   try {
-    // In a real implementation, you would use pdf.js to extract metadata
-    return {
-      title: file.name,
-      author: 'Unknown',
-      date: new Date().toISOString(),
-      keywords: []
+    const document = await loadPDFDocument(file)
+    try {
+      return await readMetadata(document, file)
+    } finally {
+      await document.destroy()
     }
   } catch (error) {
     console.error('Error extracting metadata:', error)
@@ -180,11 +440,7 @@ export const extractMetadata = async (file: File): Promise<ExtractedData['metada
 
 export const processPDF = async (file: File): Promise<ExtractedData> => {
   try {
-    const [text, tables, metadata] = await Promise.all([
-      extractTextFromPDF(file),
-      extractTablesFromPDF(file),
-      extractMetadata(file)
-    ])
+    const { text, tables, metadata } = await extractPDFContent(file)
 
     return {
       equipment: identifyEquipment(text, tables),
@@ -196,4 +452,4 @@ export const processPDF = async (file: File): Promise<ExtractedData> => {
     console.error('Error processing PDF:', error)
     throw new Error('Failed to process PDF')
   }
-}
\ No newline at end of file
+}
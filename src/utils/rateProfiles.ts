@@ -0,0 +1,37 @@
+import type { CostRateProfile } from '@/types/rates'
+
+// Maintenance labor is costed at the personnel rate spread over a working month
+export const WORK_HOURS_PER_MONTH = 160
+
+export const getLaborRate = (rates: CostRateProfile): number => {
+  return rates.personnelCostPerMonth / WORK_HOURS_PER_MONTH
+}
+
+export const DEFAULT_RATE_PROFILE: CostRateProfile = {
+  id: 'default',
+  name: 'Standard rates',
+  description: 'Baseline planning rates',
+  personnelCostPerMonth: 5000,
+  operationalRate: 0.1,
+  maintenanceRate: 0.02,
+  created: '2024-01-01T00:00:00.000Z',
+  updated: '2024-01-01T00:00:00.000Z'
+}
+
+export const PRESET_RATE_PROFILES: CostRateProfile[] = [
+  DEFAULT_RATE_PROFILE,
+  {
+    ...DEFAULT_RATE_PROFILE,
+    id: 'fy26-contractor',
+    name: 'FY26 contractor rates',
+    description: 'Fully burdened contractor labor',
+    personnelCostPerMonth: 14500
+  },
+  {
+    ...DEFAULT_RATE_PROFILE,
+    id: 'gov-civilian',
+    name: 'Government civilian rates',
+    description: 'GS salary plus benefits',
+    personnelCostPerMonth: 9800
+  }
+]
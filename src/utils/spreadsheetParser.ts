@@ -0,0 +1,63 @@
+import Papa from 'papaparse'
+import { readSheet } from 'read-excel-file/browser'
+import type { SpreadsheetData } from '@/types/import'
+
+const isExcelFile = (file: File): boolean => {
+  return /\.xlsx$/i.test(file.name) ||
+    file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+// Drop blank header cells and rows with no values at all
+const normalize = (
+  fileName: string,
+  headers: string[],
+  rows: Record<string, unknown>[]
+): SpreadsheetData => {
+  const cleanHeaders = headers.map(h => String(h).trim()).filter(Boolean)
+  return {
+    fileName,
+    headers: cleanHeaders,
+    rows: rows
+      .map(row => cleanHeaders.reduce((acc, header) => {
+        const value = row[header]
+        acc[header] = value == null ? '' : String(value).trim()
+        return acc
+      }, {} as Record<string, string>))
+      .filter(row => Object.values(row).some(Boolean))
+  }
+}
+
+const parseCSV = async (file: File): Promise<SpreadsheetData> => {
+  const results = Papa.parse<Record<string, string>>(await file.text(), {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: (header) => header.trim()
+  })
+  if (results.errors.length > 0 && results.data.length === 0) {
+    throw new Error(results.errors[0].message)
+  }
+  return normalize(file.name, results.meta.fields || [], results.data)
+}
+
+// Dates become ISO dates so they read the same as dates typed into a CSV
+const formatCell = (value: unknown): string => {
+  if (value instanceof Date) return value.toISOString().split('T')[0]
+  return value == null ? '' : String(value)
+}
+
+// Reads the first worksheet; the first row is treated as the header
+const parseExcel = async (file: File): Promise<SpreadsheetData> => {
+  const [headerRow = [], ...dataRows] = await readSheet(file)
+  const headers = headerRow.map(formatCell)
+  const rows = dataRows.map(row => headers.reduce((acc, header, index) => {
+    acc[header] = formatCell(row[index])
+    return acc
+  }, {} as Record<string, unknown>))
+  return normalize(file.name, headers, rows)
+}
+
+export const parseSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  const data = isExcelFile(file) ? await parseExcel(file) : await parseCSV(file)
+  if (data.headers.length === 0) throw new Error('No header row found')
+  return data
+}
@@ -0,0 +1,47 @@
+import type { Equipment, EquipmentCombination, OperatingTempo } from '@/types/equipment'
+
+export const DAYS_PER_MONTH = 30
+
+// Reference tempo the rate profile's operational rate is quoted at
+export const DEFAULT_OPERATING_TEMPO: OperatingTempo = {
+  usesPerDay: 1,
+  hoursPerDay: 8,
+  sortiesPerWeek: 0
+}
+
+// A combination's tempo overrides the tempo of the equipment it contains
+export const resolveTempo = (
+  equipment: Equipment,
+  combination?: EquipmentCombination
+): OperatingTempo => {
+  return combination?.tempo || equipment.tempo || DEFAULT_OPERATING_TEMPO
+}
+
+// Sorties count as uses: each one draws consumables and adds a cycle
+export const getUsesPerDay = (tempo: OperatingTempo): number => {
+  return tempo.usesPerDay + tempo.sortiesPerWeek / 7
+}
+
+export const getUsesPerMonth = (tempo: OperatingTempo): number => {
+  return getUsesPerDay(tempo) * DAYS_PER_MONTH
+}
+
+export const getUsageForPeriod = (
+  tempo: OperatingTempo,
+  days: number
+): { cycles: number; hours: number; days: number } => ({
+  cycles: getUsesPerDay(tempo) * days,
+  hours: tempo.hoursPerDay * days,
+  days
+})
+
+export const scaleTempo = (tempo: OperatingTempo, factor: number): OperatingTempo => ({
+  usesPerDay: tempo.usesPerDay * factor,
+  hoursPerDay: tempo.hoursPerDay * factor,
+  sortiesPerWeek: tempo.sortiesPerWeek * factor
+})
+
+// Operating cost scales with hours run relative to the reference tempo
+export const getTempoCostFactor = (tempo: OperatingTempo): number => {
+  return tempo.hoursPerDay / DEFAULT_OPERATING_TEMPO.hoursPerDay
+}
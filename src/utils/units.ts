@@ -0,0 +1,153 @@
+import type {
+  Equipment,
+  EquipmentUnit,
+  UnitEvent,
+  DegradationParams,
+  DegradationRecord
+} from '@/types/equipment'
+import { getHealthPercent, getLifeLimits } from './degradationModels'
+
+export const DEFAULT_UNIT_LOCATION = 'Depot'
+
+export const isActiveUnit = (unit: EquipmentUnit): boolean => unit.status !== 'disposed'
+
+// Serials follow the model number so units of different equipment are easy to tell apart
+export const generateSerialNumbers = (
+  equipment: Pick<Equipment, 'modelNumber'> & { units?: EquipmentUnit[] },
+  count: number
+): string[] => {
+  const prefix = (equipment.modelNumber || 'SN').trim().replace(/\s+/g, '-').toUpperCase()
+  const taken = new Set((equipment.units || []).map((unit) => unit.serialNumber))
+  const serials: string[] = []
+
+  for (let next = taken.size + 1; serials.length < count; next++) {
+    const serial = `${prefix}-${String(next).padStart(3, '0')}`
+    if (!taken.has(serial)) serials.push(serial)
+  }
+  return serials
+}
+
+export const createUnits = (
+  equipment: Pick<Equipment, 'degradation'>,
+  serialNumbers: string[],
+  date = new Date().toISOString(),
+  { location = DEFAULT_UNIT_LOCATION, transactionId }: { location?: string; transactionId?: string } = {}
+): EquipmentUnit[] => {
+  return serialNumbers.map((serialNumber) => ({
+    serialNumber,
+    status: 'available',
+    location,
+    degradation: {
+      ...equipment.degradation,
+      currentValue: equipment.degradation.maxValue,
+      limits: equipment.degradation.limits?.map((limit) => ({ ...limit, currentValue: limit.maxValue })),
+      lastUpdated: date
+    },
+    acquiredDate: date,
+    history: [{ date, type: 'acquired', location, transactionId }],
+    degradationLog: []
+  }))
+}
+
+export const recordUnitEvent = (
+  unit: EquipmentUnit,
+  event: UnitEvent,
+  updates: Partial<Omit<EquipmentUnit, 'history'>> = {}
+): EquipmentUnit => ({
+  ...unit,
+  ...updates,
+  location: event.location,
+  history: [...unit.history, event]
+})
+
+// Sets the unit's degradation and logs the change with its cause; a change that moves no
+// life limit is not logged
+export const recordDegradation = (
+  unit: EquipmentUnit,
+  degradation: DegradationParams,
+  entry: Omit<DegradationRecord, 'healthBefore' | 'healthAfter' | 'changes'>
+): EquipmentUnit => {
+  const previous = getLifeLimits(unit.degradation)
+  const changes = getLifeLimits(degradation)
+    .map((limit) => ({
+      type: limit.type,
+      before: previous.find((l) => l.type === limit.type)?.currentValue ?? limit.maxValue,
+      after: limit.currentValue
+    }))
+    .filter((change) => change.before !== change.after)
+  if (changes.length === 0) return { ...unit, degradation }
+
+  return {
+    ...unit,
+    degradation,
+    degradationLog: [
+      ...unit.degradationLog,
+      {
+        ...entry,
+        healthBefore: getHealthPercent(unit.degradation),
+        healthAfter: getHealthPercent(degradation),
+        changes
+      }
+    ]
+  }
+}
+
+// Wear curves and further life limits are defined per equipment; a unit keeps only its own
+// current values. Limits are matched by type, and a newly added limit starts unworn
+const alignUnitDegradation = (equipment: DegradationParams, unit: DegradationParams): DegradationParams => {
+  const { model, shape, wearInShape, wearInShare } = equipment
+  return {
+    ...unit,
+    model,
+    shape,
+    wearInShape,
+    wearInShare,
+    limits: equipment.limits?.map((limit) => {
+      const current = unit.limits?.find((l) => l.type === limit.type)?.currentValue ?? limit.maxValue
+      return { ...limit, currentValue: Math.min(current, limit.maxValue) }
+    })
+  }
+}
+
+const average = (values: number[], fallback: number): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : fallback
+
+// Recomputes the fleet-level counts and average wear from the unit records
+export const syncUnitCounts = (equipment: Equipment): Equipment => {
+  const units = equipment.units.map((unit) => ({
+    ...unit,
+    degradation: alignUnitDegradation(equipment.degradation, unit.degradation)
+  }))
+  const active = units.filter(isActiveUnit)
+
+  return {
+    ...equipment,
+    units,
+    quantity: active.length,
+    inUse: active.filter((unit) => unit.status === 'deployed').length,
+    degradation: {
+      ...equipment.degradation,
+      currentValue: average(active.map((unit) => unit.degradation.currentValue), equipment.degradation.currentValue),
+      limits: equipment.degradation.limits?.map((limit, index) => ({
+        ...limit,
+        currentValue: average(active.map((unit) => unit.degradation.limits![index].currentValue), limit.currentValue)
+      }))
+    }
+  }
+}
+
+// Equipment recorded before units existed gets one unit per counted item, sharing the
+// fleet's wear, with the first `inUse` of them deployed
+export const ensureUnits = (equipment: Omit<Equipment, 'units'> & { units?: EquipmentUnit[] }): Equipment => {
+  if (Array.isArray(equipment.units)) return syncUnitCounts(equipment as Equipment)
+
+  const date = equipment.dateAdded || new Date().toISOString()
+  const serials = generateSerialNumbers(equipment, Math.max(0, equipment.quantity || 0))
+  const units = createUnits(equipment, serials, date).map((unit, index) => ({
+    ...unit,
+    degradation: { ...equipment.degradation },
+    status: index < (equipment.inUse || 0) ? 'deployed' as const : 'available' as const
+  }))
+
+  return syncUnitCounts({ ...equipment, units })
+}
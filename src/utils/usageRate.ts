@@ -0,0 +1,94 @@
+import type { Equipment, EquipmentUnit, ObservedUtilization, UsageRateOptions } from '@/types/equipment'
+import type { InventoryTransaction, ConsumableTransaction } from '@/types/inventory'
+import { DAYS_PER_MONTH, resolveTempo } from './tempo'
+
+export const DEFAULT_USAGE_LOOKBACK_DAYS = 90
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+const getOverlapDays = (start: number, end: number, from: number, to: number): number =>
+  Math.max(0, Math.min(end, to) - Math.max(start, from)) / MS_PER_DAY
+
+// A unit counts towards utilization from acquisition until disposal
+const getServicePeriod = (unit: EquipmentUnit): [number, number] => {
+  const disposal = unit.history.find(event => event.type === 'disposed')
+  return [new Date(unit.acquiredDate).getTime(), disposal ? new Date(disposal.date).getTime() : Infinity]
+}
+
+// Changes in the number of deployed units, oldest first; a single unit's history counts each of
+// its transactions as one unit
+const getDeploymentSteps = (
+  transactions: (InventoryTransaction | ConsumableTransaction)[],
+  equipmentId: string,
+  serialNumber?: string
+): { time: number; change: number }[] =>
+  transactions
+    .filter((t): t is InventoryTransaction =>
+      'equipmentId' in t &&
+      t.equipmentId === equipmentId &&
+      (t.type === 'deployment' || t.type === 'return') &&
+      (!serialNumber || !!t.serialNumbers?.includes(serialNumber))
+    )
+    .map(t => ({
+      time: new Date(t.date).getTime(),
+      change: (t.type === 'deployment' ? 1 : -1) * (serialNumber ? 1 : t.quantity)
+    }))
+    .sort((a, b) => a.time - b.time)
+
+const getDeployedUnitDays = (steps: { time: number; change: number }[], from: number, to: number): number => {
+  let deployed = 0
+  let cursor = from
+  let unitDays = 0
+  for (const step of steps) {
+    if (step.time >= to) break
+    if (step.time > cursor) {
+      unitDays += (deployed * (step.time - cursor)) / MS_PER_DAY
+      cursor = step.time
+    }
+    deployed = Math.max(0, deployed + step.change)
+  }
+  return unitDays + (deployed * (to - cursor)) / MS_PER_DAY
+}
+
+// Share of unit-days spent deployed over the lookback window. Without deployment history in the
+// window, the fallback tempo is assumed to run every day
+export const getObservedUtilization = (
+  equipment: Equipment,
+  transactions: (InventoryTransaction | ConsumableTransaction)[],
+  options: UsageRateOptions = {}
+): ObservedUtilization => {
+  const lookbackDays = options.lookbackDays ?? DEFAULT_USAGE_LOOKBACK_DAYS
+  const bucketMs = Math.min(options.bucketDays ?? DAYS_PER_MONTH, lookbackDays) * MS_PER_DAY
+  const to = Date.now()
+  const from = to - lookbackDays * MS_PER_DAY
+
+  const periods = equipment.units
+    .filter(unit => !options.serialNumber || unit.serialNumber === options.serialNumber)
+    .map(getServicePeriod)
+  const getExposure = (start: number, end: number) =>
+    periods.reduce((total, [acquired, disposed]) => total + getOverlapDays(acquired, disposed, start, end), 0)
+  const steps = getDeploymentSteps(transactions, equipment.id, options.serialNumber)
+  const getShare = (start: number, end: number) =>
+    Math.min(1, getDeployedUnitDays(steps, start, end) / getExposure(start, end))
+
+  const hasHistory = steps.some(step => step.time >= from && step.time < to) || getDeployedUnitDays(steps, from, to) > 0
+  if (!hasHistory || getExposure(from, to) <= 0) {
+    return { basis: 'tempo', tempo: options.fallbackTempo || resolveTempo(equipment), likely: 1, low: 1, high: 1 }
+  }
+
+  const likely = getShare(from, to)
+  const shares: number[] = []
+  for (let end = to; end > from; end -= bucketMs) {
+    const start = Math.max(from, end - bucketMs)
+    if (getExposure(start, end) > 0) shares.push(getShare(start, end))
+  }
+  const spread = Math.sqrt(shares.reduce((total, share) => total + (share - likely) ** 2, 0) / shares.length)
+
+  return {
+    basis: 'observed',
+    tempo: resolveTempo(equipment),
+    likely,
+    low: Math.max(0, likely - spread),
+    high: Math.min(1, likely + spread)
+  }
+}
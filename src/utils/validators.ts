@@ -9,6 +9,13 @@ import type {
     ConsumableTransaction,
     ProcurementNeed 
   } from '@/types/inventory'
+  import type { WorkOrder, MaintenancePlan } from '@/types/maintenance'
+  import type { CostScenario } from '@/types/scenarios'
+  import type { FiscalYearBudget } from '@/types/budget'
+  import type { ProcurementApprover } from '@/types/procurement'
+  import type { PriceQuote, Vendor } from '@/types/vendors'
+  import type { InventoryPolicy } from '@/types/policy'
+  import { DEGRADATION_MODELS } from './degradationModels'
   
   export interface ValidationResult {
     isValid: boolean
@@ -47,6 +54,18 @@ import type {
       errors.push('Personnel required cannot be negative')
     }
   
+    if (equipment.units) {
+      const serials = new Set<string>()
+      equipment.units.forEach((unit) => {
+        if (!unit.serialNumber?.trim()) {
+          errors.push('Every unit needs a serial number')
+        } else if (serials.has(unit.serialNumber)) {
+          errors.push(`Serial number ${unit.serialNumber} is used more than once`)
+        }
+        serials.add(unit.serialNumber)
+      })
+    }
+  
     return {
       isValid: errors.length === 0,
       errors
@@ -76,6 +95,33 @@ import type {
     if (params.degradationRate !== undefined && params.degradationRate <= 0) {
       errors.push('Degradation rate must be greater than zero')
     }
+
+    if (params.model && !(params.model in DEGRADATION_MODELS)) {
+      errors.push(`Unknown degradation model ${params.model}`)
+    }
+
+    if (params.shape !== undefined && params.shape <= 0) {
+      errors.push('Wear curve shape must be greater than zero')
+    }
+
+    if (params.wearInShape !== undefined && (params.wearInShape <= 0 || params.wearInShape >= 1)) {
+      errors.push('Early-life shape must be between 0 and 1')
+    }
+
+    if (params.wearInShare !== undefined && (params.wearInShare <= 0 || params.wearInShare >= 1)) {
+      errors.push('Early-life share of wear must be between 0 and 1')
+    }
+
+    if (params.limits) {
+      const types = new Set(params.type ? [params.type] : [])
+      params.limits.forEach((limit) => {
+        if (types.has(limit.type)) {
+          errors.push(`Only one ${limit.type} life limit is allowed`)
+        }
+        types.add(limit.type)
+        validateDegradation(limit).errors.forEach((error) => errors.push(`${limit.type} limit: ${error}`))
+      })
+    }
   
     try {
       if (params.lastUpdated) {
@@ -124,6 +170,48 @@ import type {
       }
     }
   
+    if (consumable.orderQuantity !== undefined && !isValidQuantity(consumable.orderQuantity)) {
+      errors.push('Order quantity must be a whole number')
+    }
+  
+    if (consumable.policy) {
+      errors.push(...validateInventoryPolicy(consumable.policy).errors)
+    }
+  
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+  
+  export const validateInventoryPolicy = (policy: Partial<InventoryPolicy>): ValidationResult => {
+    const errors: string[] = []
+  
+    if (policy.serviceLevel === undefined || !(policy.serviceLevel >= 50 && policy.serviceLevel < 100)) {
+      errors.push('Service level must be at least 50% and below 100%')
+    }
+  
+    if (policy.leadTimeDays === undefined || !isValidQuantity(policy.leadTimeDays)) {
+      errors.push('Lead time must be a whole number of days')
+    }
+  
+    if (policy.leadTimeStdDevDays === undefined || !isValidCost(policy.leadTimeStdDevDays)) {
+      errors.push('Lead time variability cannot be negative')
+    }
+  
+    if (policy.orderCost === undefined || !isValidCost(policy.orderCost)) {
+      errors.push('Order cost must be a positive amount')
+    }
+  
+    if (policy.holdingRate === undefined || !(policy.holdingRate > 0 && policy.holdingRate <= 100)) {
+      errors.push('Holding rate must be above 0% and at most 100%')
+    }
+  
+    if (policy.shelfLifeDays !== undefined &&
+        (!isValidQuantity(policy.shelfLifeDays) || policy.shelfLifeDays === 0)) {
+      errors.push('Shelf life must be a whole number of days')
+    }
+  
     return {
       isValid: errors.length === 0,
       errors
@@ -250,6 +338,236 @@ import type {
     }
   }
   
+  export const validateWorkOrder = (order: Partial<WorkOrder>): ValidationResult => {
+    const errors: string[] = []
+  
+    if (!order.equipmentId) {
+      errors.push('Equipment is required')
+    }
+  
+    if (!order.serialNumber?.trim()) {
+      errors.push('Serial number is required')
+    }
+  
+    if (!order.title?.trim()) {
+      errors.push('Work order title is required')
+    }
+  
+    if (!order.scheduledDate || !isValidDate(order.scheduledDate)) {
+      errors.push('Scheduled date is invalid')
+    }
+  
+    if (order.laborHours !== undefined && (isNaN(order.laborHours) || order.laborHours < 0)) {
+      errors.push('Labor hours cannot be negative')
+    }
+  
+    if (order.restorationPercent !== undefined && !isValidPercentage(order.restorationPercent)) {
+      errors.push('Health restoration must be between 0% and 100%')
+    }
+  
+    order.parts?.forEach((part, index) => {
+      if (!part.consumableId) {
+        errors.push(`Part ${index + 1}: consumable is required`)
+      }
+      if (!(part.quantity > 0)) {
+        errors.push(`Part ${index + 1}: quantity must be greater than zero`)
+      }
+    })
+  
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+  
+  export const validateMaintenancePlan = (plan: Partial<MaintenancePlan>): ValidationResult => {
+    const errors: string[] = []
+  
+    if (!plan.equipmentId) {
+      errors.push('Equipment is required')
+    }
+  
+    if (!plan.name?.trim()) {
+      errors.push('Plan name is required')
+    }
+  
+    const intervals = [plan.intervalCycles, plan.intervalHours, plan.intervalDays]
+    if (intervals.some((interval) => interval !== undefined && !(interval > 0))) {
+      errors.push('Intervals must be greater than zero')
+    }
+    if (intervals.every((interval) => interval === undefined)) {
+      errors.push('Set at least one interval in cycles, hours or days')
+    }
+  
+    if (plan.laborHours !== undefined && (isNaN(plan.laborHours) || plan.laborHours < 0)) {
+      errors.push('Labor hours cannot be negative')
+    }
+  
+    if (plan.restorationPercent !== undefined && !isValidPercentage(plan.restorationPercent)) {
+      errors.push('Health restoration must be between 0% and 100%')
+    }
+  
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+  
+  export const validateScenario = (scenario: Partial<CostScenario>): ValidationResult => {
+    const errors: string[] = []
+  
+    if (!scenario.name?.trim()) {
+      errors.push('Scenario name is required')
+    }
+  
+    if (!scenario.rateProfileId) {
+      errors.push('Rate profile is required')
+    }
+  
+    if (scenario.personnelCostPerMonth !== undefined && !isValidCost(scenario.personnelCostPerMonth)) {
+      errors.push('Personnel cost must be a positive number')
+    }
+  
+    if (scenario.tempo && Object.values(scenario.tempo).some((value) => isNaN(value) || value < 0)) {
+      errors.push('Tempo values cannot be negative')
+    }
+  
+    if (scenario.inflationRate !== undefined && (isNaN(scenario.inflationRate) || scenario.inflationRate <= -1)) {
+      errors.push('Inflation must be above -100%')
+    }
+  
+    scenario.fleet?.forEach((entry, index) => {
+      if (!entry.equipmentId) {
+        errors.push(`Fleet change ${index + 1}: equipment is required`)
+      } else if (!isValidQuantity(entry.quantity)) {
+        errors.push(`Fleet change ${index + 1}: quantity must be a whole number of units`)
+      }
+    })
+    if (scenario.fleet && new Set(scenario.fleet.map((entry) => entry.equipmentId)).size !== scenario.fleet.length) {
+      errors.push('Each equipment item can only have one fleet change')
+    }
+  
+    scenario.deployments?.forEach((period, index) => {
+      if (!isValidQuantity(period.startMonth) || !(period.months > 0) || !Number.isInteger(period.months)) {
+        errors.push(`Deployment ${index + 1}: start and length must be whole months`)
+      }
+      if (isNaN(period.tempoFactor) || period.tempoFactor < 0) {
+        errors.push(`Deployment ${index + 1}: tempo factor cannot be negative`)
+      }
+    })
+  
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+  
+  export const validateBudget = (budget: Partial<FiscalYearBudget>): ValidationResult => {
+    const errors: string[] = []
+  
+    if (!Number.isInteger(budget.fiscalYear) || budget.fiscalYear! < 1900) {
+      errors.push('Fiscal year is required')
+    }
+  
+    if (!Number.isInteger(budget.startMonth) || budget.startMonth! < 0 || budget.startMonth! > 11) {
+      errors.push('Fiscal year must start in a calendar month')
+    }
+  
+    if (!budget.allocations) {
+      errors.push('Allocations are required')
+    } else if (Object.values(budget.allocations).some((amount) => !isValidCost(amount))) {
+      errors.push('Allocations must be positive amounts')
+    }
+  
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+  
+  export const validateApprover = (approver: Partial<ProcurementApprover>): ValidationResult => {
+    const errors: string[] = []
+  
+    if (!approver.name?.trim()) {
+      errors.push('Approver name is required')
+    }
+  
+    if (approver.approvalLimit === undefined || !isValidCost(approver.approvalLimit)) {
+      errors.push('Approval limit must be a positive amount')
+    }
+  
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+  
+  export const validateVendor = (vendor: Partial<Vendor>): ValidationResult => {
+    const errors: string[] = []
+  
+    if (!vendor.name?.trim()) {
+      errors.push('Vendor name is required')
+    }
+  
+    if (vendor.contact?.email && !isValidEmail(vendor.contact.email)) {
+      errors.push('Contact email is not valid')
+    }
+  
+    if (vendor.leadTimeDays === undefined || !isValidQuantity(vendor.leadTimeDays)) {
+      errors.push('Lead time must be a whole number of days')
+    }
+  
+    if (vendor.minimumOrder === undefined || !isValidCost(vendor.minimumOrder)) {
+      errors.push('Minimum order must be a positive amount')
+    }
+  
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+  
+  export const validatePriceQuote = (quote: Partial<PriceQuote>): ValidationResult => {
+    const errors: string[] = []
+  
+    if (!quote.vendorId) {
+      errors.push('Vendor is required')
+    }
+  
+    if (!quote.itemId || (quote.itemType !== 'equipment' && quote.itemType !== 'consumable')) {
+      errors.push('Quoted item is required')
+    }
+  
+    if (!quote.priceBreaks?.length) {
+      errors.push('At least one price break is required')
+    } else {
+      if (quote.priceBreaks.some(b => !Number.isInteger(b.minQuantity) || b.minQuantity < 1)) {
+        errors.push('Price break quantities must be whole numbers of at least 1')
+      }
+      if (quote.priceBreaks.some(b => !isValidCost(b.unitPrice))) {
+        errors.push('Unit prices must be positive amounts')
+      }
+      if (new Set(quote.priceBreaks.map(b => b.minQuantity)).size !== quote.priceBreaks.length) {
+        errors.push('Each price break needs a different quantity')
+      }
+    }
+  
+    if (!quote.validFrom || !isValidDate(quote.validFrom) || !quote.validUntil || !isValidDate(quote.validUntil)) {
+      errors.push('Validity dates are required')
+    } else if (new Date(quote.validUntil) < new Date(quote.validFrom)) {
+      errors.push('A quote cannot expire before it becomes valid')
+    }
+  
+    if (quote.leadTimeDays !== undefined && !isValidQuantity(quote.leadTimeDays)) {
+      errors.push('Lead time must be a whole number of days')
+    }
+  
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+  
   // Helper validation functions
   export const isValidDate = (dateString: string): boolean => {
     const date = new Date(dateString)
@@ -304,6 +622,24 @@ import type {
       errors.push('File size must be less than 5MB')
     }
   
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+  
+  export const validateSpreadsheetFile = (file: File): ValidationResult => {
+    const errors: string[] = []
+  
+    if (!/\.(csv|xlsx)$/i.test(file.name)) {
+      errors.push('File must be a CSV or Excel (.xlsx) workbook')
+    }
+  
+    // 5MB max size
+    if (file.size > 5 * 1024 * 1024) {
+      errors.push('File size must be less than 5MB')
+    }
+  
     return {
       isValid: errors.length === 0,
       errors
@@ -0,0 +1,67 @@
+import type { PriceQuote, QuoteOption, Vendor, VendorCatalog } from '@/types/vendors'
+
+// Quotes are valid through the whole of their last day
+export const isQuoteValid = (quote: PriceQuote, date: Date = new Date()): boolean => {
+  const until = new Date(quote.validUntil)
+  until.setHours(23, 59, 59, 999)
+  return date >= new Date(quote.validFrom) && date <= until
+}
+
+// Price of the highest break the quantity reaches; null below the first break
+export const getQuoteUnitPrice = (quote: PriceQuote, quantity: number): number | null => {
+  const reached = quote.priceBreaks
+    .filter(b => b.minQuantity <= quantity)
+    .sort((a, b) => b.minQuantity - a.minQuantity)
+  return reached.length > 0 ? reached[0].unitPrice : null
+}
+
+export const getQuoteLeadTime = (quote: PriceQuote, vendor: Vendor): number =>
+  quote.leadTimeDays ?? vendor.leadTimeDays
+
+// Every valid quote that prices this quantity. The vendor minimum applies to each line, since
+// needs are raised per item
+export const getQuoteOptions = (
+  itemType: PriceQuote['itemType'],
+  itemId: string,
+  quantity: number,
+  catalog: VendorCatalog,
+  requiredWithinDays?: number,
+  date: Date = new Date()
+): QuoteOption[] => {
+  return catalog.quotes.flatMap(quote => {
+    if (quote.itemType !== itemType || quote.itemId !== itemId || !isQuoteValid(quote, date)) {
+      return []
+    }
+    const vendor = catalog.vendors.find(v => v.id === quote.vendorId)
+    const unitPrice = getQuoteUnitPrice(quote, quantity)
+    if (!vendor || unitPrice === null) return []
+
+    const leadTimeDays = getQuoteLeadTime(quote, vendor)
+    return [{
+      quote,
+      vendor,
+      unitPrice,
+      totalCost: Math.max(unitPrice * quantity, vendor.minimumOrder),
+      leadTimeDays,
+      meetsLeadTime: requiredWithinDays === undefined || leadTimeDays <= requiredWithinDays
+    }]
+  })
+}
+
+// Cheapest quote that arrives in time; when none can, the fastest one
+export const selectQuote = (
+  itemType: PriceQuote['itemType'],
+  itemId: string,
+  quantity: number,
+  catalog: VendorCatalog,
+  requiredWithinDays?: number,
+  date: Date = new Date()
+): QuoteOption | undefined => {
+  const options = getQuoteOptions(itemType, itemId, quantity, catalog, requiredWithinDays, date)
+  const inTime = options.filter(option => option.meetsLeadTime)
+
+  if (inTime.length > 0) {
+    return inTime.sort((a, b) => a.totalCost - b.totalCost || a.leadTimeDays - b.leadTimeDays)[0]
+  }
+  return options.sort((a, b) => a.leadTimeDays - b.leadTimeDays || a.totalCost - b.totalCost)[0]
+}